@@ -1,7 +1,17 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
+import { DuressRecorder } from './src/components/DuressRecorder';
 import RootNavigator from './src/navigation/AppNavigator';
+import { installApiInterceptors } from './src/lib/interceptors';
+import { setTokenRefresher } from './src/lib/api';
+import { useAuthStore } from './src/state/useAuthStore';
+
+// Register request IDs, tenant/session/auth headers and request logging for every API call
+installApiInterceptors();
+
+// Silently refresh the access token when a request gets a 401
+setTokenRefresher(() => useAuthStore.getState().refreshSession());
 
 /**
  * App - Root component of the Transrify mobile application
@@ -13,12 +23,14 @@ import RootNavigator from './src/navigation/AppNavigator';
  * Structure:
  * 1. ErrorBoundary - Catches and handles global errors
  * 2. RootNavigator - Handles navigation and auth gate logic
- * 3. StatusBar - Configured for dark theme
+ * 3. DuressRecorder - Hidden camera for duress video, independent of the current screen
+ * 4. StatusBar - Configured for dark theme
  */
 export default function App() {
   return (
     <ErrorBoundary>
       <RootNavigator />
+      <DuressRecorder />
       <StatusBar style="light" />
     </ErrorBoundary>
   );
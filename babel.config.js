@@ -13,5 +13,12 @@ module.exports = function (api) {
         },
       ],
     ],
+    env: {
+      // Jest runs without ES module support, so lazily loaded modules become requires
+      // there (and can be mocked with jest.mock); app bundles keep real import()
+      test: {
+        plugins: ['@babel/plugin-transform-dynamic-import'],
+      },
+    },
   };
 };
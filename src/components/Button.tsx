@@ -8,6 +8,7 @@ import {
   TextStyle,
 } from 'react-native';
 import { colors, spacing, borderRadius, typography } from '../lib/theme';
+import { useThemeColors } from '../state/useTenantStore';
 
 export interface ButtonProps {
   title: string;
@@ -27,16 +28,20 @@ export const Button: React.FC<ButtonProps> = ({
   accessibilityLabel,
 }) => {
   const isDisabled = disabled || loading;
+  const brandColors = useThemeColors();
 
+  // Tenant branding replaces the primary color
   const buttonStyle: ViewStyle[] = [
     styles.button,
     variant === 'primary' ? styles.primaryButton : styles.secondaryButton,
+    variant === 'primary' ? { backgroundColor: brandColors.primary } : { borderColor: brandColors.primary },
     ...(isDisabled ? [styles.disabledButton] : []),
   ];
 
   const textStyle: TextStyle[] = [
     styles.text,
     variant === 'primary' ? styles.primaryText : styles.secondaryText,
+    ...(variant === 'primary' ? [] : [{ color: brandColors.primary }]),
   ];
 
   return (
@@ -51,7 +56,7 @@ export const Button: React.FC<ButtonProps> = ({
     >
       {loading ? (
         <ActivityIndicator
-          color={variant === 'primary' ? colors.textPrimary : colors.primary}
+          color={variant === 'primary' ? colors.textPrimary : brandColors.primary}
           size="small"
         />
       ) : (
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { CameraType, CameraView } from 'expo-camera';
+import { useAuthStore } from '../state/useAuthStore';
+import { DuressCamera, setDuressCamera, startDuressVideo } from '../lib/duressRecording';
+import { endDuressResponse } from '../lib/duress';
+import { capturePhoto } from '../lib/evidence';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('DuressRecorder');
+
+/**
+ * Longest wait for the camera to report ready after switching sides (2 seconds)
+ */
+const CAMERA_SWITCH_TIMEOUT_MS = 2000;
+
+/**
+ * DuressRecorder component
+ * Mounted once at the app root. While the session is under duress it keeps a hidden
+ * camera mounted and hands it to the duress recording service, so video carries on
+ * whichever screen is showing. Photos may use either side; video always uses the back
+ * camera. Recording stops once the session leaves duress.
+ * Nothing here is visible to the user.
+ */
+export function DuressRecorder() {
+  const active = useAuthStore((state) => state.isAuthenticated && state.sessionMode === 'DURESS');
+  const cameraRef = useRef<CameraView>(null);
+  const [facing, setFacing] = useState<CameraType>('back');
+  const facingRef = useRef<CameraType>('back');
+  const readyRef = useRef<(() => void) | null>(null);
+
+  // Stable for the component's lifetime, so the service always holds the same camera
+  const duressCameraRef = useRef<DuressCamera | null>(null);
+  if (!duressCameraRef.current) {
+    /**
+     * Switch sides and wait until the camera reports ready again
+     */
+    const switchFacing = async (next: CameraType) => {
+      if (facingRef.current === next) {
+        return;
+      }
+      facingRef.current = next;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, CAMERA_SWITCH_TIMEOUT_MS);
+        readyRef.current = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        setFacing(next);
+      });
+    };
+
+    duressCameraRef.current = {
+      recordAsync: async (options) => {
+        await switchFacing('back');
+        if (!cameraRef.current) {
+          throw new Error('Camera is not ready');
+        }
+        return cameraRef.current.recordAsync(options);
+      },
+      stopRecording: () => cameraRef.current?.stopRecording(),
+      takePhoto: async (side) => {
+        await switchFacing(side);
+        return capturePhoto(cameraRef);
+      },
+    };
+  }
+
+  // Stop and queue all duress evidence and close the timeline when the session leaves duress
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    return () => {
+      // The camera is asked to stop before it is released, so the last segment is kept
+      void endDuressResponse();
+      setDuressCamera(null);
+    };
+  }, [active]);
+
+  if (!active) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <CameraView
+        ref={cameraRef}
+        style={styles.camera}
+        facing={facing}
+        mode="video"
+        onCameraReady={() => {
+          readyRef.current?.();
+          readyRef.current = null;
+          setDuressCamera(duressCameraRef.current);
+          startDuressVideo().catch((error) => {
+            log.warn('Failed to start duress video', error);
+          });
+        }}
+        onMountError={(error) => {
+          log.error('Camera mount error', error);
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: -1000, // Position off-screen
+    left: -1000,
+    width: 1,
+    height: 1,
+    overflow: 'hidden',
+    opacity: 0,
+  },
+  camera: {
+    width: 1,
+    height: 1,
+  },
+});
+
+export default DuressRecorder;
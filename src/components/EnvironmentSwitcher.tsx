@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Modal, View, Text, Pressable, StyleSheet, DevSettings } from 'react-native';
+import { Button } from './Button';
+import { EnvironmentName, getAvailableEnvironments, getEnvironment, setEnvironment } from '../config';
+import * as storage from '../lib/storage';
+import { useTenantStore } from '../state/useTenantStore';
+import { borderRadius, colors, spacing, typography } from '../lib/theme';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('EnvironmentSwitcher');
+
+export interface EnvironmentSwitcherProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * EnvironmentSwitcher component
+ * Hidden developer menu for pointing the app at another backend. Switching clears
+ * the stored session and tenant branding, which belong to the previous backend,
+ * then reloads the JS bundle (development builds) so no in-memory state carries over.
+ */
+export function EnvironmentSwitcher({ visible, onClose }: EnvironmentSwitcherProps) {
+  const [current, setCurrent] = useState(getEnvironment().name);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = async (name: EnvironmentName) => {
+    if (name === current) {
+      onClose();
+      return;
+    }
+    try {
+      await storage.clearAll();
+      useTenantStore.getState().resetTenant();
+      await setEnvironment(name);
+      setCurrent(name);
+      setError(null);
+      onClose();
+      DevSettings.reload();
+    } catch (err) {
+      log.error('Failed to switch environment', err);
+      setError('Could not switch environment');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Environment</Text>
+          {getAvailableEnvironments().map((env) => (
+            <Pressable
+              key={env.name}
+              onPress={() => handleSelect(env.name)}
+              style={[styles.row, env.name === current && styles.rowSelected]}
+              accessibilityRole="button"
+              accessibilityLabel={`Use ${env.label} environment`}
+              accessibilityState={{ selected: env.name === current }}
+            >
+              <Text style={styles.label}>{env.label}</Text>
+              <Text style={styles.url}>{env.apiBaseUrl}</Text>
+            </Pressable>
+          ))}
+          {error && <Text style={styles.error}>{error}</Text>}
+          <Button title="Close" onPress={onClose} variant="secondary" accessibilityLabel="Close environment menu" />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: colors.background,
+    padding: spacing.xl,
+    gap: spacing.md,
+    borderTopLeftRadius: borderRadius.lg,
+    borderTopRightRadius: borderRadius.lg,
+  },
+  title: {
+    ...typography.h2,
+    color: colors.textPrimary,
+  },
+  row: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rowSelected: {
+    borderColor: colors.primary,
+  },
+  label: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  url: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  error: {
+    ...typography.caption,
+    color: colors.error,
+  },
+});
+
+export default EnvironmentSwitcher;
@@ -3,6 +3,9 @@ import { View, Text, StyleSheet } from 'react-native';
 import { Button } from './Button';
 import { Screen } from './Screen';
 import { colors, typography, spacing } from '../lib/theme';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('ErrorBoundary');
 
 interface Props {
   children: ReactNode;
@@ -38,7 +41,7 @@ export class ErrorBoundary extends Component<Props, State> {
 
   componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
     // Log error details for debugging
-    console.error('ErrorBoundary caught an error:', error, errorInfo);
+    log.error('Uncaught render error', error, { componentStack: errorInfo.componentStack });
     // Optional: Send to error tracking service (e.g., Sentry)
   }
 
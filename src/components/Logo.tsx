@@ -1,18 +1,32 @@
 import React from 'react';
 import { View, Text, StyleSheet, Image, ViewStyle } from 'react-native';
 import { colors, typography, spacing } from '../lib/theme';
+import { useTenantStore } from '../state/useTenantStore';
 
 export interface LogoProps {
   size?: 'small' | 'medium' | 'large';
   style?: ViewStyle;
 }
 
+/**
+ * Logo heights by size
+ */
+const LOGO_HEIGHTS = {
+  small: 32,
+  medium: 48,
+  large: 64,
+} as const;
+
 /**
  * Logo component for Transrify branding
  * Displays the Transrify logo with responsive sizing
- * Can be easily replaced with an image asset when available
+ * Shows the tenant's logo image, or its display name in the brand color, once a
+ * tenant config has been resolved
  */
 export const Logo: React.FC<LogoProps> = ({ size = 'medium', style }) => {
+  const tenant = useTenantStore((state) => state.config);
+  const brandColors = useTenantStore((state) => state.colors);
+
   const logoStyle = [
     styles.container,
     size === 'small' && styles.smallContainer,
@@ -26,13 +40,28 @@ export const Logo: React.FC<LogoProps> = ({ size = 'medium', style }) => {
     size === 'small' && styles.smallText,
     size === 'medium' && styles.mediumText,
     size === 'large' && styles.largeText,
+    { color: brandColors.primary },
   ];
 
-  // For now, using text-based logo
+  if (tenant?.logoUrl) {
+    const height = LOGO_HEIGHTS[size];
+    return (
+      <View style={logoStyle}>
+        <Image
+          source={{ uri: tenant.logoUrl }}
+          style={{ height, width: height * 4 }}
+          resizeMode="contain"
+          accessibilityLabel={tenant.displayName}
+        />
+      </View>
+    );
+  }
+
+  // Text-based logo
   // Replace with <Image source={require('../../assets/logo.png')} /> when asset is available
   return (
     <View style={logoStyle}>
-      <Text style={textStyle}>Transrify</Text>
+      <Text style={textStyle}>{tenant?.displayName ?? 'Transrify'}</Text>
     </View>
   );
 };
@@ -43,13 +72,13 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   smallContainer: {
-    height: 32,
+    height: LOGO_HEIGHTS.small,
   },
   mediumContainer: {
-    height: 48,
+    height: LOGO_HEIGHTS.medium,
   },
   largeContainer: {
-    height: 64,
+    height: LOGO_HEIGHTS.large,
   },
   text: {
     color: colors.primary,
@@ -3,16 +3,29 @@ import { TouchableOpacity, Text, StyleSheet, View } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { colors, spacing, borderRadius, typography } from '../lib/theme';
 import { toast } from '../lib/toast';
+import { recordTimelineEvent } from '../lib/timeline';
 
 export interface QuickActionProps {
   label: string;
   icon: keyof typeof Ionicons.glyphMap;
   disabled?: boolean;
   onPress: () => void;
+  // Fired after holding for delayLongPress ms, regardless of disabled, with no visual feedback
+  onLongPress?: () => void;
+  delayLongPress?: number;
 }
 
-export function QuickAction({ label, icon, disabled = false, onPress }: QuickActionProps) {
+export function QuickAction({
+  label,
+  icon,
+  disabled = false,
+  onPress,
+  onLongPress,
+  delayLongPress,
+}: QuickActionProps) {
   const handlePress = () => {
+    // Attempts on disabled actions are noted too; both are ignored outside duress
+    void recordTimelineEvent('ACTION', { action: label, blocked: disabled });
     if (disabled) {
       toast('Temporarily unavailable');
       return;
@@ -24,6 +37,8 @@ export function QuickAction({ label, icon, disabled = false, onPress }: QuickAct
     <TouchableOpacity
       style={[styles.container, disabled && styles.disabled]}
       onPress={handlePress}
+      onLongPress={onLongPress}
+      delayLongPress={delayLongPress}
       activeOpacity={0.7}
       accessibilityLabel={label}
       accessibilityHint={disabled ? 'This action is temporarily unavailable' : `Double tap to ${label.toLowerCase()}`}
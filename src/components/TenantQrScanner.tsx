@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import { Modal, View, Text, StyleSheet } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Button } from './Button';
+import { colors, spacing, typography } from '../lib/theme';
+
+export interface TenantQrScannerProps {
+  visible: boolean;
+  onScanned: (data: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * TenantQrScanner component
+ * Full-screen camera that reads a tenant QR code and reports its contents once
+ */
+export function TenantQrScanner({ visible, onScanned, onClose }: TenantQrScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const scannedRef = useRef(false);
+
+  // Ask for camera access when opened; allow a new scan each time
+  useEffect(() => {
+    if (visible) {
+      scannedRef.current = false;
+      if (permission && !permission.granted && permission.canAskAgain) {
+        requestPermission();
+      }
+    }
+  }, [visible, permission, requestPermission]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={({ data }) => {
+              // The camera keeps reporting the same code; only the first one counts
+              if (!scannedRef.current) {
+                scannedRef.current = true;
+                onScanned(data);
+              }
+            }}
+          />
+        ) : (
+          <View style={styles.message}>
+            <Text style={styles.messageText}>
+              Camera access is needed to scan your bank's QR code. You can type the code instead.
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={styles.hint}>Point the camera at your bank's QR code</Text>
+          <Button title="Cancel" onPress={onClose} variant="secondary" accessibilityLabel="Cancel scan button" />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  camera: {
+    flex: 1,
+  },
+  message: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  messageText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  footer: {
+    padding: spacing.xl,
+    gap: spacing.md,
+  },
+  hint: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
+
+export default TenantQrScanner;
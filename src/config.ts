@@ -1,19 +1,219 @@
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import { createLogger } from './lib/logger';
+import * as storage from './lib/storage';
 
-//export const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL ?? 'https://api.example.com';
-export const API_BASE_URL = 'https://carboapi.me';
+const log = createLogger('config');
 
-//export const TENANT_KEY = process.env.EXPO_PUBLIC_TENANT_KEY ?? 'DEMO_TENANT';
-export const TENANT_KEY = 'DEMO_BANK_KEY';
 export const APP_VERSION = Constants.expoConfig?.version ?? '1.0.0';
 
 export const isAndroid = Platform.OS === 'android';
 export const isIOS = Platform.OS === 'ios';
 
-// Log configuration on load
-console.log('⚙️ [config] Configuration loaded:');
-console.log('⚙️ [config] API_BASE_URL:', API_BASE_URL);
-console.log('⚙️ [config] TENANT_KEY:', TENANT_KEY);
-console.log('⚙️ [config] APP_VERSION:', APP_VERSION);
-console.log('⚙️ [config] Platform:', Platform.OS);
+export type EnvironmentName = 'production' | 'staging' | 'development' | 'local';
+
+/**
+ * Everything that differs between backends
+ * Modules read URLs and tenant defaults from here instead of process.env.
+ */
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  label: string;
+  apiBaseUrl: string;
+  wsBaseUrl: string;
+  defaultTenantKey: string;
+  mockAuth: boolean;
+}
+
+const ENVIRONMENT_NAMES: readonly EnvironmentName[] = ['production', 'staging', 'development', 'local'];
+
+const PRODUCTION: EnvironmentProfile = {
+  name: 'production',
+  label: 'Production',
+  apiBaseUrl: 'https://carboapi.me',
+  wsBaseUrl: 'wss://carboapi.me',
+  defaultTenantKey: 'DEMO_BANK_KEY',
+  mockAuth: false,
+};
+
+function isEnvironmentName(value: unknown): value is EnvironmentName {
+  return typeof value === 'string' && ENVIRONMENT_NAMES.includes(value as EnvironmentName);
+}
+
+/**
+ * Derive a WebSocket base URL from an HTTP one (https -> wss, http -> ws)
+ */
+function toWsUrl(apiBaseUrl: string): string {
+  return apiBaseUrl.replace(/^http/, 'ws');
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Check a profile before it can be used
+ * Production must be encrypted end to end.
+ *
+ * @returns Problems found; empty when the profile is valid
+ */
+export function validateEnvironment(profile: EnvironmentProfile): string[] {
+  const problems: string[] = [];
+  const secure = profile.name === 'production';
+
+  if (!(secure ? /^https:\/\/[^\s/]+/ : /^https?:\/\/[^\s/]+/).test(profile.apiBaseUrl)) {
+    problems.push(`apiBaseUrl must be an ${secure ? 'https' : 'http(s)'} URL`);
+  }
+  if (!(secure ? /^wss:\/\/[^\s/]+/ : /^wss?:\/\/[^\s/]+/).test(profile.wsBaseUrl)) {
+    problems.push(`wsBaseUrl must be a ${secure ? 'wss' : 'ws(s)'} URL`);
+  }
+  if (!profile.defaultTenantKey.trim()) {
+    problems.push('defaultTenantKey is required');
+  }
+  return problems;
+}
+
+/**
+ * Build a profile for a backend configured by URL only
+ */
+function fromUrls(
+  name: EnvironmentName,
+  label: string,
+  apiBaseUrl: string | undefined,
+  wsBaseUrl: string | undefined,
+  mockAuth = false
+): EnvironmentProfile | undefined {
+  if (!apiBaseUrl) {
+    return undefined;
+  }
+  return {
+    name,
+    label,
+    apiBaseUrl: trimSlash(apiBaseUrl),
+    wsBaseUrl: trimSlash(wsBaseUrl || toWsUrl(apiBaseUrl)),
+    defaultTenantKey: PRODUCTION.defaultTenantKey,
+    mockAuth,
+  };
+}
+
+/**
+ * Build the profiles this build knows about
+ * Staging and development exist only when their URLs are set at build time; the
+ * build's own environment (EXPO_PUBLIC_APP_ENV) also takes the generic
+ * EXPO_PUBLIC_API_BASE_URL / WS_URL / TENANT_KEY overrides. Each variable is
+ * referenced literally so Expo can inline it. Invalid profiles are dropped.
+ */
+function buildProfiles(): { profiles: EnvironmentProfile[]; defaultName: EnvironmentName } {
+  const candidates: (EnvironmentProfile | undefined)[] = [
+    PRODUCTION,
+    fromUrls('staging', 'Staging', process.env.EXPO_PUBLIC_STAGING_API_BASE_URL, process.env.EXPO_PUBLIC_STAGING_WS_URL),
+    fromUrls('development', 'Development', process.env.EXPO_PUBLIC_DEV_API_BASE_URL, process.env.EXPO_PUBLIC_DEV_WS_URL),
+    fromUrls('local', 'Local (mock auth)', process.env.EXPO_PUBLIC_LOCAL_API_BASE_URL || 'http://localhost:3000', undefined, true),
+  ];
+
+  const appEnv = process.env.EXPO_PUBLIC_APP_ENV;
+  const defaultName: EnvironmentName = isEnvironmentName(appEnv) ? appEnv : 'production';
+  const apiOverride = process.env.EXPO_PUBLIC_API_BASE_URL;
+  const wsOverride = process.env.EXPO_PUBLIC_WS_URL;
+  const tenantOverride = process.env.EXPO_PUBLIC_TENANT_KEY;
+
+  const profiles: EnvironmentProfile[] = [];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+
+    let profile = candidate;
+    if (candidate.name === defaultName) {
+      profile = {
+        ...candidate,
+        apiBaseUrl: trimSlash(apiOverride || candidate.apiBaseUrl),
+        wsBaseUrl: trimSlash(wsOverride || (apiOverride ? toWsUrl(apiOverride) : candidate.wsBaseUrl)),
+        defaultTenantKey: tenantOverride || candidate.defaultTenantKey,
+      };
+    }
+
+    const problems = validateEnvironment(profile);
+    if (problems.length === 0) {
+      profiles.push(profile);
+    } else if (profile !== candidate && validateEnvironment(candidate).length === 0) {
+      log.error('Ignoring invalid environment overrides', { name: profile.name, problems });
+      profiles.push(candidate);
+    } else {
+      log.error('Dropping invalid environment', { name: profile.name, problems });
+    }
+  }
+
+  return {
+    profiles,
+    defaultName: profiles.some((p) => p.name === defaultName) ? defaultName : 'production',
+  };
+}
+
+const { profiles, defaultName } = buildProfiles();
+let current: EnvironmentProfile = profiles.find((p) => p.name === defaultName) ?? PRODUCTION;
+
+/**
+ * Whether the hidden developer environment switcher is available
+ * Release builds ignore any stored selection unless EXPO_PUBLIC_ENV_SWITCHER=true.
+ */
+export const ENV_SWITCHER_ENABLED =
+  (typeof __DEV__ !== 'undefined' && __DEV__) || process.env.EXPO_PUBLIC_ENV_SWITCHER === 'true';
+
+/**
+ * The environment every module talks to
+ */
+export function getEnvironment(): Readonly<EnvironmentProfile> {
+  return current;
+}
+
+/**
+ * Environments the developer switcher can offer
+ */
+export function getAvailableEnvironments(): readonly EnvironmentProfile[] {
+  return profiles;
+}
+
+/**
+ * Apply the environment saved by the developer switcher
+ * Call once at startup before anything talks to the backend.
+ */
+export async function loadEnvironment(): Promise<EnvironmentProfile> {
+  if (ENV_SWITCHER_ENABLED) {
+    const saved = await storage.getSelectedEnvironment();
+    const profile = profiles.find((p) => p.name === saved);
+    if (profile) {
+      current = profile;
+    }
+  }
+  log.info('Environment loaded', {
+    environment: current.name,
+    apiBaseUrl: current.apiBaseUrl,
+    tenantKey: current.defaultTenantKey,
+  });
+  return current;
+}
+
+/**
+ * Switch environment from the developer switcher
+ * The caller should sign out first; sessions from one backend are meaningless on another.
+ *
+ * @throws Error('UNKNOWN_ENVIRONMENT') if the environment is not available in this build
+ */
+export async function setEnvironment(name: EnvironmentName): Promise<EnvironmentProfile> {
+  const profile = profiles.find((p) => p.name === name);
+  if (!ENV_SWITCHER_ENABLED || !profile) {
+    throw new Error('UNKNOWN_ENVIRONMENT');
+  }
+  await storage.setSelectedEnvironment(name === defaultName ? null : name);
+  current = profile;
+  log.info('Environment switched', { environment: name });
+  return current;
+}
+
+// Log configuration on load (the tenant key is redacted by the logger)
+log.info('Configuration loaded', {
+  environment: current.name,
+  apiBaseUrl: current.apiBaseUrl,
+  tenantKey: current.defaultTenantKey,
+  appVersion: APP_VERSION,
+  platform: Platform.OS,
+});
@@ -7,8 +7,11 @@ type Status = 'idle' | 'recording' | 'uploading' | 'done' | 'error';
 interface HookResult {
   status: Status;
   error?: string;
+  // Upload progress from 0 to 1
+  progress: number;
   startRecording: () => Promise<void>;
-  stopAndUpload: () => Promise<{ evidenceId: string }>;
+  // evidenceId is null while the finalize waits in the outbox
+  stopAndUpload: () => Promise<{ evidenceId: string | null }>;
   reset: () => void;
 }
 
@@ -21,6 +24,7 @@ export function useAudioEvidence(
 ): HookResult {
   const [status, setStatus] = useState<Status>('idle');
   const [error, setError] = useState<string | undefined>();
+  const [progress, setProgress] = useState(0);
   const recordingRef = useRef<Audio.Recording | null>(null);
 
   const startRecording = useCallback(async () => {
@@ -45,8 +49,11 @@ export function useAudioEvidence(
 
     try {
       setStatus('uploading');
+      setProgress(0);
       const uri = await stopAudioRecording(recordingRef.current);
-      const evidenceId = await uploadEvidence(incidentId, uri, 'AUDIO', contentType);
+      const evidenceId = await uploadEvidence(incidentId, uri, 'AUDIO', contentType, {
+        onProgress: setProgress,
+      });
       setStatus('done');
       return { evidenceId };
     } catch (err) {
@@ -61,12 +68,14 @@ export function useAudioEvidence(
   const reset = useCallback(() => {
     setStatus('idle');
     setError(undefined);
+    setProgress(0);
     recordingRef.current = null;
   }, []);
 
   return {
     status,
     error,
+    progress,
     startRecording,
     stopAndUpload,
     reset,
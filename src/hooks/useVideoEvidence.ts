@@ -8,8 +8,11 @@ type Status = 'idle' | 'recording' | 'uploading' | 'done' | 'error';
 interface HookResult {
   status: Status;
   error?: string;
+  // Upload progress from 0 to 1
+  progress: number;
   startRecording: (options?: CameraRecordingOptions) => Promise<void>;
-  stopAndUpload: () => Promise<{ evidenceId: string }>;
+  // evidenceId is null while the finalize waits in the outbox
+  stopAndUpload: () => Promise<{ evidenceId: string | null }>;
   reset: () => void;
 }
 
@@ -23,6 +26,7 @@ export function useVideoEvidence(
 ): HookResult {
   const [status, setStatus] = useState<Status>('idle');
   const [error, setError] = useState<string | undefined>();
+  const [progress, setProgress] = useState(0);
   const recordingPromiseRef = useRef<Promise<CameraCapturedVideo> | null>(null);
 
   const startRecording = useCallback(
@@ -50,8 +54,11 @@ export function useVideoEvidence(
 
     try {
       setStatus('uploading');
+      setProgress(0);
       const uri = await stopVideoRecording(cameraRef, recordingPromiseRef.current);
-      const evidenceId = await uploadEvidence(incidentId, uri, 'VIDEO', contentType);
+      const evidenceId = await uploadEvidence(incidentId, uri, 'VIDEO', contentType, {
+        onProgress: setProgress,
+      });
       setStatus('done');
       return { evidenceId };
     } catch (err) {
@@ -66,12 +73,14 @@ export function useVideoEvidence(
   const reset = useCallback(() => {
     setStatus('idle');
     setError(undefined);
+    setProgress(0);
     recordingPromiseRef.current = null;
   }, []);
 
   return {
     status,
     error,
+    progress,
     startRecording,
     stopAndUpload,
     reset,
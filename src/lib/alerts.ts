@@ -1,6 +1,12 @@
 import { Platform } from 'react-native';
 import { api } from './api';
-import { TENANT_KEY, APP_VERSION } from '../config';
+import { createIdempotencyKey } from './retry';
+import { enqueue } from './outbox';
+import * as storage from './storage';
+import { getEnvironment, APP_VERSION } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('alerts');
 
 /**
  * Alert kind types
@@ -66,6 +72,30 @@ export interface WebSocketMessage {
   timestamp?: string;
 }
 
+/**
+ * Tenant the user signed in to, falling back to the configured default
+ * Matches the X-Tenant-Key header, so body and header always name the same tenant.
+ */
+async function signedInTenantKey(): Promise<string> {
+  return (await storage.getTenantKey()) ?? getEnvironment().defaultTenantKey;
+}
+
+/**
+ * Request body for a duress alert
+ */
+async function duressAlertBody(sessionId: string, geo?: { lat: number; lng: number }) {
+  return {
+    sessionId,
+    tenantKey: await signedInTenantKey(),
+    alertKind: 'DURESS' as AlertKind,
+    geo,
+    device: {
+      platform: Platform.OS,
+      appVersion: APP_VERSION,
+    },
+  };
+}
+
 /**
  * Send a duress alert to notify nearby users
  * Called immediately after successful duress authentication
@@ -79,34 +109,48 @@ export async function sendDuressAlert(
   sessionId: string,
   geo?: { lat: number; lng: number }
 ): Promise<SendDuressAlertResponse> {
-  console.log('🚨 [alerts.sendDuressAlert] Sending duress alert...');
-  console.log('🚨 [alerts.sendDuressAlert] Session ID:', sessionId);
-  console.log('🚨 [alerts.sendDuressAlert] Geo:', geo);
-
-  const requestBody = {
-    sessionId,
-    tenantKey: TENANT_KEY,
-    alertKind: 'DURESS' as AlertKind,
-    geo,
-    device: {
-      platform: Platform.OS,
-      appVersion: APP_VERSION,
-    },
-  };
-
-  console.log('🌐 [alerts.sendDuressAlert] Making API request to /v1/alerts/duress');
-  console.log('📦 [alerts.sendDuressAlert] Request body:', JSON.stringify(requestBody, null, 2));
+  log.info('Sending duress alert', { sessionId, geo });
 
+  // Duress alerts must get through: retry aggressively, deduplicated by idempotency key
   const response = await api<SendDuressAlertResponse>('/v1/alerts/duress', {
     method: 'POST',
-    body: JSON.stringify(requestBody),
+    body: JSON.stringify(await duressAlertBody(sessionId, geo)),
+    retry: 'critical',
+    idempotencyKey: createIdempotencyKey('duress-alert'),
   });
 
-  console.log('✅ [alerts.sendDuressAlert] Alert sent successfully:', response.alertId);
+  log.info('Duress alert sent', { alertId: response.alertId });
 
   return response;
 }
 
+/**
+ * Send a duress alert through the outbox
+ * If it cannot be sent now it is kept and replayed until the server accepts it.
+ * 
+ * @param sessionId - Current session ID
+ * @param geo - Current geolocation coordinates
+ * @param incidentId - Duress incident; a replay after sign-out uses its saved credentials
+ * @returns Response with alert ID, or null if the alert was queued
+ * @throws ApiError if the server rejected the alert
+ */
+export async function queueDuressAlert(
+  sessionId: string,
+  geo?: { lat: number; lng: number },
+  incidentId?: string
+): Promise<SendDuressAlertResponse | null> {
+  log.info('Queueing duress alert', { sessionId, geo });
+
+  return enqueue<SendDuressAlertResponse>({
+    kind: 'DURESS_ALERT',
+    path: '/v1/alerts/duress',
+    body: await duressAlertBody(sessionId, geo),
+    idempotencyKey: createIdempotencyKey('duress-alert'),
+    retry: 'critical',
+    incidentId,
+  });
+}
+
 /**
  * Poll for nearby duress alerts
  * Used when WebSocket is unavailable or as fallback
@@ -122,14 +166,11 @@ export async function pollNearbyAlerts(
   radius: number = 1000,
   since?: string
 ): Promise<PollNearbyAlertsResponse> {
-  console.log('🔍 [alerts.pollNearbyAlerts] Polling for nearby alerts...');
-  console.log('🔍 [alerts.pollNearbyAlerts] Geo:', geo);
-  console.log('🔍 [alerts.pollNearbyAlerts] Radius:', radius);
-  console.log('🔍 [alerts.pollNearbyAlerts] Since:', since);
+  log.debug('Polling for nearby alerts', { geo, radius, since });
 
   // Build query parameters
   const params = new URLSearchParams({
-    tenantKey: TENANT_KEY,
+    tenantKey: await signedInTenantKey(),
     lat: geo.lat.toString(),
     lng: geo.lng.toString(),
     radius: radius.toString(),
@@ -140,13 +181,14 @@ export async function pollNearbyAlerts(
   }
 
   const endpoint = `/v1/alerts/nearby?${params.toString()}`;
-  console.log('🌐 [alerts.pollNearbyAlerts] Making API request to', endpoint);
 
+  // No retries: the next poll interval acts as the retry
   const response = await api<PollNearbyAlertsResponse>(endpoint, {
     method: 'GET',
+    retry: 'none',
   });
 
-  console.log('✅ [alerts.pollNearbyAlerts] Received', response.alerts?.length || 0, 'alerts');
+  log.debug('Nearby alerts received', { count: response.alerts?.length || 0 });
 
   return response;
 }
@@ -166,10 +208,7 @@ export async function ackAlert(
   ackBy: string,
   method: AckMethod
 ): Promise<AckAlertResponse> {
-  console.log('✓ [alerts.ackAlert] Acknowledging alert...');
-  console.log('✓ [alerts.ackAlert] Alert ID:', alertId);
-  console.log('✓ [alerts.ackAlert] Ack by:', ackBy);
-  console.log('✓ [alerts.ackAlert] Method:', method);
+  log.info('Acknowledging alert', { alertId, method });
 
   const requestBody = {
     alertId,
@@ -177,82 +216,105 @@ export async function ackAlert(
     method,
   };
 
-  console.log('🌐 [alerts.ackAlert] Making API request to /v1/alerts/ack');
-  console.log('📦 [alerts.ackAlert] Request body:', JSON.stringify(requestBody, null, 2));
-
+  // Acknowledging the same alert twice is harmless, so key on alert and acknowledger
   const response = await api<AckAlertResponse>('/v1/alerts/ack', {
     method: 'POST',
     body: JSON.stringify(requestBody),
+    retry: 'standard',
+    idempotencyKey: `ack-${alertId}-${ackBy}`,
   });
 
-  console.log('✅ [alerts.ackAlert] Alert acknowledged at:', response.acknowledgedAt);
+  log.info('Alert acknowledged', { alertId, acknowledgedAt: response.acknowledgedAt });
 
   return response;
 }
 
+/**
+ * Acknowledge a duress alert through the outbox
+ * An acknowledgment made offline is kept and replayed until the server accepts it.
+ * 
+ * @param alertId - ID of the alert to acknowledge
+ * @param ackBy - Customer reference of the acknowledging user
+ * @param method - Method used to acknowledge (NFC, PUSH, or INAPP)
+ * @returns Response with acknowledgment timestamp, or null if the acknowledgment was queued
+ * @throws ApiError if the server rejected the acknowledgment
+ */
+export async function queueAlertAck(
+  alertId: string,
+  ackBy: string,
+  method: AckMethod
+): Promise<AckAlertResponse | null> {
+  log.info('Queueing alert acknowledgment', { alertId, method });
+
+  return enqueue<AckAlertResponse>({
+    kind: 'ALERT_ACK',
+    path: '/v1/alerts/ack',
+    body: { alertId, ackBy, method },
+    idempotencyKey: `ack-${alertId}-${ackBy}`,
+    retry: 'standard',
+  });
+}
+
 /**
  * Connect to the alerts WebSocket for real-time notifications
- * Provides lower latency than polling for alert delivery
+ * Provides lower latency than polling for alert delivery. Subscribes to the
+ * signed-in tenant's alerts, like pollNearbyAlerts.
  * 
  * @param onMessage - Callback function to handle incoming messages
  * @param onError - Callback function to handle errors
  * @param onClose - Callback function to handle connection close
  * @returns WebSocket instance
  */
-export function connectAlertsSocket(
+export async function connectAlertsSocket(
   onMessage: (message: WebSocketMessage) => void,
   onError?: (error: Event) => void,
   onClose?: (event: CloseEvent) => void
-): WebSocket {
-  // Get WebSocket URL from environment or construct from API base URL
-  const wsUrl = process.env.EXPO_PUBLIC_WS_URL || 
-    process.env.EXPO_PUBLIC_API_BASE_URL?.replace(/^http/, 'ws') || 
-    'ws://3.89.253.228';
-  
+): Promise<WebSocket> {
+  const { wsBaseUrl: wsUrl } = getEnvironment();
+
   // Construct WebSocket URL with tenant key as query parameter
-  const url = `${wsUrl}/v1/alerts/stream?tenantKey=${encodeURIComponent(TENANT_KEY)}`;
+  const url = `${wsUrl}/v1/alerts/stream?tenantKey=${encodeURIComponent(await signedInTenantKey())}`;
   
-  console.log('🔌 [alerts.connectAlertsSocket] Connecting to WebSocket...');
-  console.log('🔌 [alerts.connectAlertsSocket] URL:', url);
+  // Log without the query string so the tenant key stays out of the logs
+  log.info('Connecting to alerts WebSocket', { url: `${wsUrl}/v1/alerts/stream` });
 
   const ws = new WebSocket(url);
 
   ws.onopen = () => {
-    console.log('✅ [alerts.connectAlertsSocket] WebSocket connected');
+    log.info('WebSocket connected');
   };
 
   ws.onmessage = (event) => {
-    console.log('📨 [alerts.connectAlertsSocket] Message received:', event.data);
-    
+    log.debug('WebSocket message received', event.data);
+
     try {
       const message = JSON.parse(event.data) as WebSocketMessage;
       
       // Handle different message types
       if (message.type === 'DURESS_ALERT') {
-        console.log('🚨 [alerts.connectAlertsSocket] DURESS_ALERT received:', message.alert);
+        log.info('DURESS_ALERT received', { alertId: message.alert?.id });
         onMessage(message);
       } else if (message.type === 'PING') {
         // Respond to ping with pong
-        console.log('🏓 [alerts.connectAlertsSocket] PING received, sending PONG');
         ws.send(JSON.stringify({ type: 'PONG', timestamp: new Date().toISOString() }));
       } else {
-        console.log('ℹ️ [alerts.connectAlertsSocket] Other message type:', message.type);
+        log.debug('Other message type', { type: message.type });
         onMessage(message);
       }
     } catch (error) {
-      console.error('❌ [alerts.connectAlertsSocket] Failed to parse message:', error);
+      log.error('Failed to parse WebSocket message', error);
     }
   };
 
   ws.onerror = (error) => {
-    console.error('❌ [alerts.connectAlertsSocket] WebSocket error:', error);
+    log.error('WebSocket error', error);
     if (onError) {
       onError(error);
     }
   };
 
   ws.onclose = (event) => {
-    console.log('🔌 [alerts.connectAlertsSocket] WebSocket closed:', event.code, event.reason);
+    log.info('WebSocket closed', { code: event.code, reason: event.reason });
     if (onClose) {
       onClose(event);
     }
@@ -1,62 +1,331 @@
-import { API_BASE_URL } from '../config';
+import { getEnvironment } from '../config';
+import { ApiError } from './errors';
+import { RetryOption, isIdempotentMethod, parseRetryAfter, withRetry } from './retry';
+import { createLogger, logPath } from './logger';
+
+const log = createLogger('api');
+
+/**
+ * Default per-request timeout in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Options accepted by the API client
+ * - `timeoutMs` aborts each attempt after the given duration (0 disables the timeout)
+ * - `signal` lets callers cancel the request (e.g. when a screen unmounts)
+ * - `retry` selects a retry policy (defaults to a single jittered retry on 429; false disables retries)
+ * - `idempotencyKey` is sent as the Idempotency-Key header and makes non-idempotent
+ *   methods (POST) eligible for retries on network and server errors
+ * - `skipAuthRefresh` disables the silent token refresh on 401 (login, refresh and logout calls)
+ */
+export interface ApiRequestInit extends RequestInit {
+  retry?: RetryOption;
+  timeoutMs?: number;
+  idempotencyKey?: string;
+  skipAuthRefresh?: boolean;
+}
+
+/**
+ * Obtains a fresh access token after a 401
+ * Resolves true when the request should be replayed with the new token.
+ */
+export type TokenRefresher = () => Promise<boolean>;
+
+/**
+ * Request about to be sent, as seen by interceptors
+ * `meta` is shared by every attempt of the same logical request (e.g. a request ID)
+ */
+export interface ApiRequestContext {
+  path: string;
+  url: string;
+  init: RequestInit & { headers: Record<string, string> };
+  attempt: number;
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Successful response, as seen by interceptors
+ */
+export interface ApiResponseContext extends ApiRequestContext {
+  response: Response;
+  data: unknown;
+  durationMs: number;
+}
+
+/**
+ * Cross-cutting hook registered once for every API call
+ * - onRequest may mutate or replace the request context (headers, URL)
+ * - onResponse observes successful responses (telemetry)
+ * - onError may observe or replace the error before it reaches the retry engine
+ */
+export interface ApiInterceptor {
+  name: string;
+  onRequest?: (context: ApiRequestContext) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+  onResponse?: (context: ApiResponseContext) => void | Promise<void>;
+  onError?: (error: ApiError, context: ApiRequestContext) => ApiError | void | Promise<ApiError | void>;
+}
+
+/**
+ * Registered interceptors in registration order
+ */
+let interceptors: ApiInterceptor[] = [];
+
+/**
+ * Register an interceptor
+ * onRequest hooks run in registration order; onResponse and onError hooks run in
+ * reverse order, so the first interceptor registered sees the final outcome.
+ * Registering a second interceptor with the same name replaces the first.
+ *
+ * @param interceptor - Interceptor to add to the chain
+ * @returns Function that removes the interceptor
+ */
+export function registerInterceptor(interceptor: ApiInterceptor): () => void {
+  interceptors = [...interceptors.filter((i) => i.name !== interceptor.name), interceptor];
+  return () => {
+    interceptors = interceptors.filter((i) => i !== interceptor);
+  };
+}
+
+/**
+ * Remove all registered interceptors
+ */
+export function clearInterceptors(): void {
+  interceptors = [];
+}
+
+/**
+ * Get the names of registered interceptors in chain order
+ */
+export function getInterceptorNames(): string[] {
+  return interceptors.map((i) => i.name);
+}
+
+/**
+ * Token refresher used for silent refresh, if any
+ */
+let tokenRefresher: TokenRefresher | null = null;
+
+/**
+ * Register the function that refreshes the access token when a request gets a 401
+ * @param refresher - Token refresher, or null to disable silent refresh
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null): void {
+  tokenRefresher = refresher;
+}
 
 /**
- * Generic API client with automatic retry logic for rate limiting
+ * Generic API client with timeouts, cancellation and policy-driven retries
+ * A 401 triggers one silent token refresh and replay when a refresher is registered.
  * @param path - API endpoint path (e.g., '/v1/sessions/login')
- * @param init - Fetch options with optional retry flag
+ * @param init - Fetch options with optional retry policy, idempotency key, timeout and abort signal
  * @returns Typed JSON response
- * @throws Error for non-2xx responses
+ * @throws ApiError for non-2xx responses, network failures, timeouts and cancellations
  */
 export async function api<T>(
   path: string,
-  init?: RequestInit & { retry?: boolean }
+  init?: ApiRequestInit
 ): Promise<T> {
-  const url = `${API_BASE_URL}${path}`;
-  
-  console.log('🌐 [api] Making request...');
-  console.log('🌐 [api] URL:', url);
-  console.log('🌐 [api] Method:', init?.method || 'GET');
-  console.log('🌐 [api] Headers:', JSON.stringify({
+  const {
+    retry,
+    idempotencyKey,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+    skipAuthRefresh,
+    ...fetchInit
+  } = init ?? {};
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    ...init?.headers,
-  }, null, 2));
-  
-  if (init?.body) {
-    console.log('🌐 [api] Request body:', init.body);
+    ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    ...(fetchInit.headers as Record<string, string> | undefined),
+  };
+
+  const meta: Record<string, unknown> = {};
+
+  const send = () => withRetry(
+    (attempt) => executeRequest<T>(path, { ...fetchInit, headers }, timeoutMs, signal ?? undefined, attempt, meta),
+    retry,
+    {
+      idempotent: isIdempotentMethod(fetchInit.method) || !!idempotencyKey,
+      signal: signal ?? undefined,
+      onRetry: (error, attempt, delayMs) => {
+        log.info('Retrying request', {
+          path: logPath(path),
+          attempt,
+          status: error.status,
+          code: error.code,
+          delayMs: Math.round(delayMs),
+        });
+      },
+    }
+  );
+
+  try {
+    return await send();
+  } catch (error) {
+    // Refresh the access token once and replay the request with it
+    const refresher = tokenRefresher;
+    if (
+      !skipAuthRefresh &&
+      refresher &&
+      error instanceof ApiError &&
+      error.status === 401 &&
+      (await refresher())
+    ) {
+      log.info('Access token refreshed, replaying request', { path: logPath(path) });
+      return send();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Perform a single request attempt through the interceptor chain
+ * @param path - API endpoint path
+ * @param fetchInit - Fetch options with headers already resolved
+ * @param timeoutMs - Timeout for this attempt (0 disables the timeout)
+ * @param callerSignal - Caller-supplied abort signal
+ * @param attempt - 1-based attempt number
+ * @param meta - Metadata shared across attempts of the same request
+ * @returns Typed JSON response
+ * @throws ApiError for any failure
+ */
+async function executeRequest<T>(
+  path: string,
+  fetchInit: RequestInit & { headers: Record<string, string> },
+  timeoutMs: number,
+  callerSignal: AbortSignal | undefined,
+  attempt: number,
+  meta: Record<string, unknown>
+): Promise<T> {
+  if (callerSignal?.aborted) {
+    throw new ApiError({ status: 0, code: 'REQUEST_CANCELLED', path });
+  }
+
+  // Snapshot the chain so registrations during a request do not affect it
+  const chain = interceptors;
+
+  let context: ApiRequestContext = {
+    path,
+    url: `${getEnvironment().apiBaseUrl}${path}`,
+    init: { ...fetchInit, headers: { ...fetchInit.headers } },
+    attempt,
+    meta,
+  };
+  for (const interceptor of chain) {
+    if (interceptor.onRequest) {
+      context = (await interceptor.onRequest(context)) ?? context;
+    }
   }
-  
-  const response = await fetch(url, {
-    ...init,
-    headers: {
-      'Content-Type': 'application/json',
-      ...init?.headers,
-    },
-  });
-  
-  console.log('📡 [api] Response status:', response.status, response.statusText);
-  console.log('📡 [api] Response headers:', JSON.stringify(Object.fromEntries(response.headers.entries()), null, 2));
-  
-  // Handle rate limiting with exponential backoff
-  if (response.status === 429 && init?.retry !== false) {
-    const jitter = Math.random() * 400; // 0-400ms jitter
-    const delay = 800 + jitter; // 800-1200ms total
-    console.log('⏳ [api] Rate limited (429), retrying after', Math.round(delay), 'ms');
-    await new Promise(resolve => setTimeout(resolve, delay));
-    
-    // Retry once with retry flag set to false
-    return api<T>(path, { ...init, retry: false });
+
+  // Combine the caller's signal with our own timeout into a single controller
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : null;
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort);
+
+  // Set once the server has answered; a later failure must not look like it never arrived
+  let response: Response | undefined;
+
+  /**
+   * Convert a thrown fetch/body error into an ApiError with a client code
+   */
+  const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) {
+      return error;
+    }
+    if (callerSignal?.aborted) {
+      return new ApiError({ status: 0, code: 'REQUEST_CANCELLED', path });
+    }
+    // The server handled the request, so it must not be retried as if it had not
+    if (response) {
+      return new ApiError({
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        path,
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+    if (timedOut) {
+      return new ApiError({
+        status: 0,
+        code: 'TIMEOUT_ERROR',
+        path,
+        message: `Request to ${logPath(path)} timed out after ${timeoutMs}ms`,
+      });
+    }
+    return new ApiError({
+      status: 0,
+      code: 'NETWORK_ERROR',
+      path,
+      message: error instanceof Error ? error.message : undefined,
+    });
+  };
+
+  const startedAt = Date.now();
+
+  try {
+    response = await fetch(context.url, {
+      ...context.init,
+      signal: controller.signal,
+    });
+
+    // Throw structured errors for non-2xx responses
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ApiError({
+        status: response.status,
+        code: parseErrorCode(errorText),
+        path,
+        body: errorText,
+        retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After')),
+      });
+    }
+
+    // No content to parse
+    const data = response.status === 204 ? undefined : await response.json();
+
+    const responseContext: ApiResponseContext = {
+      ...context,
+      response,
+      data,
+      durationMs: Date.now() - startedAt,
+    };
+    for (const interceptor of [...chain].reverse()) {
+      await interceptor.onResponse?.(responseContext);
+    }
+
+    return data as T;
+  } catch (error) {
+    let apiError = toApiError(error);
+    for (const interceptor of [...chain].reverse()) {
+      if (interceptor.onError) {
+        apiError = (await interceptor.onError(apiError, context)) ?? apiError;
+      }
+    }
+    throw apiError;
+  } finally {
+    if (timer) clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
   }
-  
-  // Throw errors for non-2xx responses
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('❌ [api] Request failed:', response.status, errorText);
-    throw new Error(`HTTP ${response.status}`);
+}
+
+/**
+ * Extract the server's `error` code from an error response body
+ * @param body - Raw response text
+ * @returns Error code (e.g., 'RATE_LIMIT_EXCEEDED') or undefined when absent
+ */
+function parseErrorCode(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed?.error === 'string' ? parsed.error : undefined;
+  } catch {
+    return undefined;
   }
-  
-  // Return typed JSON response
-  const jsonResponse = await response.json() as T;
-  console.log('✅ [api] Response data:', JSON.stringify(jsonResponse, null, 2));
-  
-  return jsonResponse;
 }
@@ -1,50 +1,52 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
 import * as storage from './storage';
+import { api } from './api';
+import { ApiError } from './errors';
+import { createLogger } from './logger';
+import { getFlag } from './flags';
+import { flushOutbox } from './outbox';
+import { API_HEADERS } from './interceptors';
+import { RetryPolicyName } from './retry';
+import { APP_VERSION, getEnvironment } from '../config';
+import {
+  AuthTokens,
+  LoginRequest,
+  LoginResponse,
+  RefreshTokenResponse,
+  RevocationCredentials,
+  SignOutResult,
+  UnlockResponse,
+  User,
+  VerifySessionResponse,
+} from '../types';
+
+const log = createLogger('auth');
 
 /**
- * Login request payload
+ * Maximum number of unconfirmed revocations kept for retry
  */
-export interface LoginRequest {
-  tenantKey: string;
-  customerRef: string;
-  pin: string;
-  deviceInfo: {
-    platform: 'ios' | 'android';
-    version: string;
-    ip?: string;
-  };
-  geo?: {
-    lat: number;
-    lng: number;
-  };
-}
+const MAX_PENDING_REVOCATIONS = 20;
 
 /**
- * Login response from API
+ * Longest wait for the server to confirm a revocation at sign-out (5 seconds)
+ * Local data is already cleared by then; an unconfirmed revocation stays queued.
  */
-export interface LoginResponse {
-  verdict: 'NORMAL' | 'DURESS' | 'FAIL';
-  recommendedAction: 'ALLOW' | 'LIMIT_AND_MONITOR' | 'DENY';
-  sessionId: string;
-  /**
-   * Incident identifier for evidence capture (present on DURESS verdicts).
-   */
-  incidentId?: string;
-}
+const SIGN_OUT_REVOKE_TIMEOUT_MS = 5000;
 
 /**
- * API error response
+ * Lifetime of the mock adapter's access tokens in seconds
  */
-export interface ApiError {
-  ok: false;
-  error: 'INVALID_TENANT_KEY' | 'TENANT_SUSPENDED' | 'MISSING_REQUIRED_FIELDS' | 'RATE_LIMIT_EXCEEDED';
-}
+const MOCK_TOKEN_LIFETIME_SECONDS = 15 * 60;
 
 /**
- * User data
+ * Compute the access token expiry for a login or refresh response
+ * @param response - Response carrying `expiresIn` in seconds
+ * @param now - Current time in epoch milliseconds
+ * @returns Expiry in epoch milliseconds, or null when the response has no lifetime
  */
-export interface User {
-  customerRef: string;
-  sessionId: string;
+export function getSessionExpiresAt(response: { expiresIn?: number }, now: number = Date.now()): number | null {
+  return typeof response.expiresIn === 'number' ? now + response.expiresIn * 1000 : null;
 }
 
 /**
@@ -60,10 +62,39 @@ export interface AuthAdapter {
    */
   signIn(customerRef: string, pin: string): Promise<LoginResponse>;
 
+  /**
+   * Check that a session is still active
+   * Used on app resume to detect sessions revoked on the server
+   * @param sessionId - Session ID to verify
+   * @returns Verification response with session data
+   * @throws ApiError if the request fails
+   */
+  verify(sessionId: string): Promise<VerifySessionResponse>;
+
+  /**
+   * Re-check the PIN for the current session (lock screen)
+   * The PIN goes through the same verdict logic as sign-in, so a duress PIN
+   * returns a DURESS verdict for an existing NORMAL session.
+   * @param pin - PIN entered at the lock screen
+   * @returns Verdict for the PIN
+   * @throws Error with API error code
+   */
+  unlock(pin: string): Promise<UnlockResponse>;
+
+  /**
+   * Exchange the stored refresh token for a new access token
+   * @returns New tokens, or null when there is no refresh token or the server rejected it
+   * @throws ApiError when the server could not be reached (the session may still be valid)
+   */
+  refresh(): Promise<AuthTokens | null>;
+
   /**
    * Sign out current user
+   * Revokes the session on the server and clears local session data. Local data
+   * is cleared even when the server cannot be reached.
+   * @returns Whether the server confirmed the revocation
    */
-  signOut(): Promise<void>;
+  signOut(): Promise<SignOutResult>;
 
   /**
    * Get current user from stored session
@@ -72,6 +103,18 @@ export interface AuthAdapter {
   getCurrentUser(): Promise<User | null>;
 }
 
+/**
+ * Generate random mock access/refresh tokens
+ */
+function createMockTokens(): AuthTokens {
+  const random = () => Math.random().toString(36).substring(2, 11);
+  return {
+    accessToken: `mock-access-${random()}`,
+    refreshToken: `mock-refresh-${random()}`,
+    expiresAt: Date.now() + MOCK_TOKEN_LIFETIME_SECONDS * 1000,
+  };
+}
+
 /**
  * Mock authentication adapter for development
  * 
@@ -107,22 +150,76 @@ export class MockAuthAdapter implements AuthAdapter {
     const sessionId = `mock-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const incidentId = `incident-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 
+    const tokens = createMockTokens();
+
     // Store session data in SecureStore
     await storage.setSessionId(sessionId);
     await storage.setCustomerRef(customerRef);
     await storage.setSessionMode(verdict);
+    await storage.setAuthTokens(tokens);
 
     return {
       verdict,
       recommendedAction,
       sessionId,
       incidentId: verdict === 'DURESS' ? incidentId : undefined,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: MOCK_TOKEN_LIFETIME_SECONDS,
     };
   }
 
-  async signOut(): Promise<void> {
+  async unlock(pin: string): Promise<UnlockResponse> {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const sessionId = await storage.getSessionId();
+    const isValidPin = pin.length >= 4 && pin.length <= 8 && /^\d+$/.test(pin);
+    if (!sessionId || !isValidPin) {
+      return { verdict: 'FAIL', recommendedAction: 'DENY' };
+    }
+
+    // Same PIN pattern as signIn: PIN ending in 1 = DURESS
+    return pin.endsWith('1')
+      ? {
+          verdict: 'DURESS',
+          recommendedAction: 'LIMIT_AND_MONITOR',
+          incidentId: `incident-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        }
+      : { verdict: 'NORMAL', recommendedAction: 'ALLOW' };
+  }
+
+  async refresh(): Promise<AuthTokens | null> {
+    const current = await storage.getAuthTokens();
+    if (!current) {
+      return null;
+    }
+    const tokens = createMockTokens();
+    await storage.setAuthTokens(tokens);
+    return tokens;
+  }
+
+  async verify(sessionId: string): Promise<VerifySessionResponse> {
+    const storedSessionId = await storage.getSessionId();
+    const customerRef = await storage.getCustomerRef();
+    const mode = await storage.getSessionMode();
+
+    return {
+      ok: storedSessionId === sessionId,
+      session: {
+        id: sessionId,
+        result: mode ?? 'FAIL',
+        createdAt: new Date().toISOString(),
+        customerRef: customerRef ?? '',
+        tenantName: 'Mock Bank',
+      },
+    };
+  }
+
+  async signOut(): Promise<SignOutResult> {
     // Clear all stored data
     await storage.clearAll();
+    return { revoked: true };
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -138,15 +235,118 @@ export class MockAuthAdapter implements AuthAdapter {
 }
 
 /**
- * Production authentication adapter for Transrify API
+ * Revoke a session on the server with its own credentials
+ * Only a successful response confirms the revocation; the session ID header keeps
+ * another stored session's token off the request.
+ * @param sessionId - Session ID to revoke
+ * @param credentials - Sent in place of the stored ones, which sign-out clears first
+ * @param options.retry - Retry policy (default: standard)
+ * @param options.timeoutMs - Per-attempt timeout
+ * @throws ApiError if the revocation could not be confirmed
  */
-export class TransrifyAuthAdapter implements AuthAdapter {
-  private baseURL: string;
+async function revokeSession(
+  sessionId: string,
+  credentials: RevocationCredentials,
+  options: { retry?: RetryPolicyName; timeoutMs?: number } = {}
+): Promise<void> {
+  const { retry = 'standard', timeoutMs } = options;
+  await api<void>('/v1/sessions/logout', {
+    method: 'POST',
+    body: JSON.stringify({ sessionId }),
+    retry,
+    idempotencyKey: `logout-${sessionId}`,
+    skipAuthRefresh: true,
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    headers: {
+      [API_HEADERS.SESSION_ID]: sessionId,
+      ...(credentials.accessToken && { [API_HEADERS.AUTHORIZATION]: `Bearer ${credentials.accessToken}` }),
+      ...(credentials.tenantKey && { [API_HEADERS.TENANT_KEY]: credentials.tenantKey }),
+    },
+  });
+}
+
+/**
+ * Add a session and its credentials to the pending revocation queue
+ * The oldest entries are dropped once MAX_PENDING_REVOCATIONS is reached.
+ */
+async function queueRevocation(sessionId: string, credentials: RevocationCredentials): Promise<void> {
+  try {
+    await storage.setRevocationCredentials(sessionId, credentials);
+    const pending = await storage.getPendingRevocations();
+    const next = [...pending.filter((id) => id !== sessionId), sessionId];
+    const dropped = next.splice(0, Math.max(0, next.length - MAX_PENDING_REVOCATIONS));
+    await storage.setPendingRevocations(next);
+    await Promise.all(dropped.map((id) => storage.deleteRevocationCredentials(id)));
+  } catch (error) {
+    log.error('Failed to queue session revocation', error);
+  }
+}
 
-  constructor(baseURL: string) {
-    this.baseURL = baseURL;
+/**
+ * Remove a confirmed revocation and its credentials from the pending queue
+ */
+async function dequeueRevocation(sessionId: string): Promise<void> {
+  try {
+    const remaining = (await storage.getPendingRevocations()).filter((id) => id !== sessionId);
+    if (remaining.length > 0) {
+      await storage.setPendingRevocations(remaining);
+    } else {
+      await storage.deletePendingRevocations();
+    }
+    await storage.deleteRevocationCredentials(sessionId);
+  } catch (error) {
+    log.error('Failed to update pending revocations', error);
   }
+}
 
+/**
+ * Retry revocations that could not be confirmed at sign-out, each with the credentials
+ * of its own session
+ * An entry stays queued until the server confirms the revocation, whatever the error.
+ *
+ * @returns Number of revocations still pending
+ */
+export async function flushPendingRevocations(): Promise<number> {
+  const pending = await storage.getPendingRevocations();
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const remaining: string[] = [];
+  const confirmed: string[] = [];
+  for (const sessionId of pending) {
+    // Entries queued before credentials were kept go out with the session ID alone
+    const credentials = (await storage.getRevocationCredentials(sessionId)) ?? { accessToken: null, tenantKey: null };
+    try {
+      await revokeSession(sessionId, credentials);
+      confirmed.push(sessionId);
+      log.info('Queued session revocation confirmed', { sessionId });
+    } catch (error) {
+      log.warn('Queued session revocation not confirmed, kept for retry', { sessionId, error });
+      remaining.push(sessionId);
+    }
+  }
+
+  try {
+    if (remaining.length > 0) {
+      await storage.setPendingRevocations(remaining);
+    } else {
+      await storage.deletePendingRevocations();
+    }
+    await Promise.all(confirmed.map((sessionId) => storage.deleteRevocationCredentials(sessionId)));
+  } catch (error) {
+    log.error('Failed to update pending revocations', error);
+  }
+
+  return remaining.length;
+}
+
+/**
+ * Production authentication adapter for Transrify API
+ * All requests go through the shared API client, so they get its timeouts,
+ * retries, interceptors and ApiError handling.
+ */
+export class TransrifyAuthAdapter implements AuthAdapter {
   async signIn(customerRef: string, pin: string): Promise<LoginResponse> {
     // Get tenant key from secure storage
     const tenantKey = await storage.getTenantKey();
@@ -154,72 +354,153 @@ export class TransrifyAuthAdapter implements AuthAdapter {
       throw new Error('INVALID_TENANT_KEY');
     }
 
-    // Get device info
-    const deviceInfo = await this.getDeviceInfo();
-
-    // Get location with timeout
-    const geo = await this.getLocation();
-
-    // Prepare request payload
     const payload: LoginRequest = {
       tenantKey,
       customerRef,
       pin,
-      deviceInfo,
-      geo,
+      deviceInfo: {
+        platform: Platform.OS as 'ios' | 'android',
+        version: APP_VERSION,
+      },
+      geo: await this.getLocation(),
     };
 
+    let data: LoginResponse;
     try {
-      // Make API request
-      const response = await fetch(`${this.baseURL}/v1/sessions/login`, {
+      // Login is not idempotent, so only rate-limit rejections are retried
+      data = await api<LoginResponse>('/v1/sessions/login', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify(payload),
+        retry: 'rateLimit',
+        skipAuthRefresh: true,
       });
-
-      // Handle non-OK responses
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorCode = errorData.error || 'AUTHENTICATION_FAILED';
-        throw new Error(errorCode);
+    } catch (error) {
+      // Server rejections without an error code are reported as a generic auth failure
+      if (error instanceof ApiError && !error.code && error.status > 0) {
+        throw new ApiError({ status: error.status, code: 'AUTHENTICATION_FAILED', path: error.path, body: error.body });
       }
+      throw error;
+    }
 
-      // Parse successful response
-      const data: LoginResponse = await response.json();
+    // Validate response structure
+    if (!data?.verdict || (data.verdict !== 'FAIL' && !data.sessionId)) {
+      throw new Error('AUTHENTICATION_FAILED');
+    }
 
-      // Validate response structure
-      if (!data.verdict || !data.sessionId) {
-        throw new Error('AUTHENTICATION_FAILED');
+    // Store session data in SecureStore only on successful authentication (NORMAL or DURESS)
+    if (data.verdict === 'NORMAL' || data.verdict === 'DURESS') {
+      await storage.setSessionId(data.sessionId);
+      await storage.setCustomerRef(customerRef);
+      await storage.setSessionMode(data.verdict);
+      if (data.verdict === 'DURESS' && data.incidentId) {
+        await storage.setIncidentId(data.incidentId);
+      } else {
+        await storage.deleteIncidentId();
       }
-
-      // Store session data in SecureStore only on successful authentication (NORMAL or DURESS)
-      if (data.verdict === 'NORMAL' || data.verdict === 'DURESS') {
-        await storage.setSessionId(data.sessionId);
-        await storage.setCustomerRef(customerRef);
-        await storage.setSessionMode(data.verdict);
-        if (data.verdict === 'DURESS' && data.incidentId) {
-          await storage.setIncidentId(data.incidentId);
-        } else {
-          await storage.deleteIncidentId();
-        }
+      const expiresAt = getSessionExpiresAt(data);
+      if (data.accessToken && data.refreshToken && expiresAt !== null) {
+        await storage.setAuthTokens({
+          accessToken: data.accessToken,
+          refreshToken: data.refreshToken,
+          expiresAt,
+        });
       }
+    }
+
+    // The verdict is deliberately not logged so device logs never reveal a duress login
+    log.info('Login response received', { sessionId: data.sessionId });
+
+    // The server is reachable, so retry any revocations and requests queued while offline
+    void flushPendingRevocations();
+    flushOutbox({ force: true }).catch((error) => {
+      log.warn('Failed to flush outbox', error);
+    });
+
+    return data;
+  }
+
+  async verify(sessionId: string): Promise<VerifySessionResponse> {
+    return api<VerifySessionResponse>(
+      `/v1/sessions/verify?sessionId=${encodeURIComponent(sessionId)}`,
+      { retry: 'standard' }
+    );
+  }
+
+  async unlock(pin: string): Promise<UnlockResponse> {
+    const sessionId = await storage.getSessionId();
+    if (!sessionId) {
+      throw new Error('AUTHENTICATION_FAILED');
+    }
+
+    // Not idempotent (each attempt counts against the PIN limit), so only rate limits are retried
+    return api<UnlockResponse>('/v1/sessions/unlock', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId, pin, geo: await this.getLocation() }),
+      retry: 'rateLimit',
+    });
+  }
+
+  async refresh(): Promise<AuthTokens | null> {
+    const current = await storage.getAuthTokens();
+    if (!current) {
+      return null;
+    }
 
-      return data;
+    let data: RefreshTokenResponse;
+    try {
+      // Refresh tokens may rotate, so a refresh is never replayed after a server error
+      data = await api<RefreshTokenResponse>('/v1/sessions/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: current.refreshToken }),
+        retry: 'rateLimit',
+        skipAuthRefresh: true,
+      });
     } catch (error) {
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('NETWORK_ERROR');
+      // A 4xx other than 429 means the refresh token itself is no longer valid
+      if (error instanceof ApiError && error.status >= 400 && error.status < 500 && error.status !== 429) {
+        log.warn('Refresh token rejected', { status: error.status, code: error.code });
+        return null;
       }
-      // Re-throw API errors
       throw error;
     }
+
+    const tokens: AuthTokens = {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken ?? current.refreshToken,
+      expiresAt: getSessionExpiresAt(data) ?? Date.now(),
+    };
+    await storage.setAuthTokens(tokens);
+    return tokens;
   }
 
-  async signOut(): Promise<void> {
-    // Clear all stored data from SecureStore
+  async signOut(): Promise<SignOutResult> {
+    const sessionId = await storage.getSessionId();
+
+    // Nothing to revoke without a stored session
+    if (!sessionId) {
+      await storage.clearAll();
+      return { revoked: true };
+    }
+
+    // Read before they are cleared, so the revocation can still authenticate
+    const credentials: RevocationCredentials = {
+      accessToken: await storage.getAccessToken(),
+      tenantKey: await storage.getTenantKey(),
+    };
+
+    // Queued first and local data cleared before any network call, so an offline
+    // sign-out is immediate and the revocation survives the app being killed
+    await queueRevocation(sessionId, credentials);
     await storage.clearAll();
+
+    try {
+      await revokeSession(sessionId, credentials, { retry: 'none', timeoutMs: SIGN_OUT_REVOKE_TIMEOUT_MS });
+    } catch (error) {
+      log.warn('Session revocation failed, queued for retry', { sessionId, error });
+      return { revoked: false };
+    }
+    await dequeueRevocation(sessionId);
+    return { revoked: true };
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -233,33 +514,17 @@ export class TransrifyAuthAdapter implements AuthAdapter {
     return null;
   }
 
-  /**
-   * Get device information for authentication request
-   */
-  private async getDeviceInfo(): Promise<LoginRequest['deviceInfo']> {
-    // Dynamically import to avoid issues if not available
-    const { Platform } = await import('react-native');
-    const Application = await import('expo-application');
-
-    return {
-      platform: Platform.OS as 'ios' | 'android',
-      version: Application.nativeApplicationVersion || '1.0.0',
-    };
-  }
-
   /**
    * Get location with timeout
    * Returns undefined if permission denied or timeout exceeded
    */
   private async getLocation(): Promise<{ lat: number; lng: number } | undefined> {
     try {
-      const Location = await import('expo-location');
-
       // Request location permission
       const { status } = await Location.requestForegroundPermissionsAsync();
       
       if (status !== 'granted') {
-        console.warn('Location permission denied');
+        log.warn('Location permission denied');
         return undefined;
       }
 
@@ -283,27 +548,36 @@ export class TransrifyAuthAdapter implements AuthAdapter {
         };
       }
 
-      console.warn('Location request timed out');
+      log.warn('Location request timed out');
       return undefined;
     } catch (error) {
-      console.warn('Location unavailable:', error);
+      log.warn('Location unavailable', error);
       return undefined;
     }
   }
 }
 
+const mockAdapter = new MockAuthAdapter();
+const transrifyAdapter = new TransrifyAuthAdapter();
+
 /**
- * Export adapter based on environment configuration
+ * Adapter for the current environment
+ * Mock when the build-only useMockAuth flag is set or the environment is mock-only,
+ * resolved per call so the developer environment switcher takes effect immediately.
  */
-const USE_MOCK_AUTH = process.env.EXPO_PUBLIC_USE_MOCK_AUTH === 'true';
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://carboapi.me';
-
-console.log('🔧 [auth] Initializing auth adapter...');
-console.log('🔧 [auth] USE_MOCK_AUTH:', USE_MOCK_AUTH);
-console.log('🔧 [auth] API_BASE_URL:', API_BASE_URL);
-
-export const authAdapter: AuthAdapter = USE_MOCK_AUTH
-  ? new MockAuthAdapter()
-  : new TransrifyAuthAdapter(API_BASE_URL);
+function currentAdapter(): AuthAdapter {
+  return getFlag('useMockAuth') || getEnvironment().mockAuth ? mockAdapter : transrifyAdapter;
+}
 
-console.log('✅ [auth] Auth adapter initialized:', USE_MOCK_AUTH ? 'MockAuthAdapter' : 'TransrifyAuthAdapter');
+export const authAdapter: AuthAdapter = {
+  signIn: (customerRef, pin) => currentAdapter().signIn(customerRef, pin),
+  verify: (sessionId) => currentAdapter().verify(sessionId),
+  unlock: (pin) => currentAdapter().unlock(pin),
+  refresh: () => currentAdapter().refresh(),
+  signOut: () => currentAdapter().signOut(),
+  getCurrentUser: () => currentAdapter().getCurrentUser(),
+};
+
+log.info('Auth adapter initialized', {
+  adapter: currentAdapter() === mockAdapter ? 'MockAuthAdapter' : 'TransrifyAuthAdapter',
+});
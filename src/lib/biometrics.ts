@@ -0,0 +1,64 @@
+/**
+ * Biometric unlock utilities
+ * Wraps Face ID / fingerprint authentication used to restore a stored session.
+ *
+ * The device passcode fallback is disabled on purpose: the only alternative to a
+ * biometric match is the app's own PIN form, which goes through authAdapter.signIn
+ * so duress PINs keep working.
+ */
+
+import * as LocalAuthentication from 'expo-local-authentication';
+import { createLogger } from './logger';
+
+const log = createLogger('biometrics');
+
+/**
+ * Outcome of a biometric prompt
+ * - success: biometric matched
+ * - fallback: user chose to enter their PIN instead (or cancelled the prompt)
+ * - failed: no match, lockout, or biometrics unavailable
+ */
+export type BiometricResult = 'success' | 'fallback' | 'failed';
+
+/**
+ * Check whether the device has biometric hardware with at least one enrolment
+ * @returns true if biometric unlock can be offered
+ */
+export async function isBiometricAvailable(): Promise<boolean> {
+  try {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled;
+  } catch (error) {
+    log.warn('Failed to check biometric availability', error);
+    return false;
+  }
+}
+
+/**
+ * Prompt for Face ID / fingerprint
+ * @returns Prompt outcome; never throws
+ */
+export async function authenticateWithBiometrics(): Promise<BiometricResult> {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock Transrify',
+      cancelLabel: 'Use PIN',
+      disableDeviceFallback: true,
+    });
+
+    if (result.success) {
+      return 'success';
+    }
+
+    log.info('Biometric prompt not completed', { reason: result.error });
+    return result.error === 'user_cancel' || result.error === 'user_fallback' || result.error === 'app_cancel'
+      ? 'fallback'
+      : 'failed';
+  } catch (error) {
+    log.warn('Biometric prompt failed', error);
+    return 'failed';
+  }
+}
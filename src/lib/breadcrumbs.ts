@@ -0,0 +1,422 @@
+/**
+ * Duress location trail (breadcrumbs)
+ * While a session is under duress, records where the device goes and streams the
+ * fixes to the backend against the incident, so responders can follow a moving victim.
+ *
+ * Fixes are kept at an interval that adapts to speed: often in a vehicle, less on foot
+ * and rarely when still, with any sudden jump kept regardless. Kept fixes wait in a
+ * file until the server has them, so a fix taken offline or just before the app is
+ * killed is still delivered.
+ *
+ * Nothing on the device ends the trail, since an attacker could trigger it (sign-out
+ * included): fixes keep going under the incident's saved credentials until the
+ * locations endpoint answers 404 or 410, which is the only stop.
+ *
+ * With "Always" location permission the trail runs as a background location task and
+ * carries on while the app is closed; with foreground permission only, it runs while
+ * the app is open. Permissions are only checked, never requested, so nothing appears
+ * on screen during duress.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { api } from './api';
+import { ApiError } from './errors';
+import { calculateDistance } from './geo';
+import { incidentRequestOptions } from './interceptors';
+import { isRejected } from './outbox';
+import * as storage from './storage';
+import { loadEnvironment } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('breadcrumbs');
+
+export const BREADCRUMB_TASK = 'duress-breadcrumbs';
+
+/**
+ * How often kept fixes are sent (15 seconds)
+ */
+export const BREADCRUMB_UPLOAD_MS = 15 * 1000;
+
+/**
+ * Most fixes per request
+ */
+const BREADCRUMB_BATCH_SIZE = 100;
+
+/**
+ * Most fixes held while the server is unreachable; the oldest are dropped beyond this
+ */
+const MAX_PENDING_BREADCRUMBS = 1000;
+
+/**
+ * Statuses from the locations endpoint meaning the incident is closed or gone
+ */
+const INCIDENT_CLOSED_STATUSES = [404, 410];
+
+/**
+ * A fix this far from the last one is kept whatever the interval (100 m)
+ */
+const BREADCRUMB_JUMP_METERS = 100;
+
+/**
+ * Spacing between kept fixes by speed in m/s, fastest first
+ */
+const BREADCRUMB_INTERVALS = [
+  { minSpeed: 8, intervalMs: 5 * 1000 }, // Vehicle
+  { minSpeed: 1, intervalMs: 15 * 1000 }, // On foot
+  { minSpeed: 0, intervalMs: 60 * 1000 }, // Still
+];
+
+/**
+ * Fixes are requested at the fastest interval and thinned as they arrive
+ */
+const LOCATION_OPTIONS: Location.LocationOptions = {
+  accuracy: Location.Accuracy.High,
+  timeInterval: BREADCRUMB_INTERVALS[0].intervalMs,
+  distanceInterval: 5,
+};
+
+/**
+ * Android needs a foreground service to receive fixes in the background; its
+ * notification is kept plain so it does not reveal duress
+ */
+const BACKGROUND_OPTIONS: Location.LocationTaskOptions = {
+  ...LOCATION_OPTIONS,
+  pausesUpdatesAutomatically: false,
+  showsBackgroundLocationIndicator: false,
+  foregroundService: {
+    notificationTitle: 'Transrify',
+    notificationBody: 'Keeping your account secure',
+    killServiceOnDestroy: false,
+  },
+};
+
+const TRAIL_FILE = `${FileSystem.documentDirectory ?? ''}duress-trail.json`;
+
+/**
+ * One point of the trail
+ */
+export interface Breadcrumb {
+  lat: number;
+  lng: number;
+  /** Horizontal accuracy in meters */
+  accuracy: number | null;
+  altitude: number | null;
+  /** Meters per second */
+  speed: number | null;
+  /** Degrees from true north */
+  heading: number | null;
+  /** ISO 8601 time of the fix */
+  at: string;
+}
+
+/**
+ * Persisted trail: fixes not yet delivered and the last fix kept
+ */
+interface TrailState {
+  incidentId: string;
+  /** False once ended; late fixes are then ignored */
+  active: boolean;
+  pending: Breadcrumb[];
+  last: Breadcrumb | null;
+}
+
+let trail: TrailState | null = null;
+let subscription: Location.LocationSubscription | null = null;
+let uploadTimer: ReturnType<typeof setInterval> | null = null;
+let uploading: Promise<void> | null = null;
+let lastUploadAt = 0;
+let lock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serialize changes to the trail and its file
+ */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+async function loadTrail(): Promise<TrailState | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(TRAIL_FILE);
+    if (!info.exists) {
+      return null;
+    }
+    const parsed = JSON.parse(await FileSystem.readAsStringAsync(TRAIL_FILE));
+    return parsed && typeof parsed.incidentId === 'string' && Array.isArray(parsed.pending) ? parsed : null;
+  } catch (error) {
+    log.error('Failed to read breadcrumb trail', error);
+    return null;
+  }
+}
+
+async function saveTrail(state: TrailState): Promise<void> {
+  try {
+    await FileSystem.writeAsStringAsync(TRAIL_FILE, JSON.stringify(state));
+  } catch (error) {
+    log.error('Failed to save breadcrumb trail', error);
+  }
+}
+
+function clearUploadTimer(): void {
+  if (uploadTimer) {
+    clearInterval(uploadTimer);
+    uploadTimer = null;
+  }
+}
+
+/**
+ * Spacing between kept fixes at a given speed
+ * An unknown speed is treated as on foot.
+ *
+ * @param speed - Meters per second, or null if unknown
+ */
+export function breadcrumbIntervalMs(speed: number | null): number {
+  const tier = speed === null
+    ? BREADCRUMB_INTERVALS[1]
+    : BREADCRUMB_INTERVALS.find((interval) => speed >= interval.minSpeed) ?? BREADCRUMB_INTERVALS[2];
+  return tier.intervalMs;
+}
+
+/**
+ * Convert a fix; iOS reports an unknown speed or heading as a negative value
+ */
+function toBreadcrumb(location: Location.LocationObject): Breadcrumb {
+  const { coords } = location;
+  const valid = (value: number | null) => (value === null || value < 0 ? null : value);
+  return {
+    lat: coords.latitude,
+    lng: coords.longitude,
+    accuracy: valid(coords.accuracy),
+    altitude: coords.altitude,
+    speed: valid(coords.speed),
+    heading: valid(coords.heading),
+    at: new Date(location.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Whether a fix is far enough, in time or distance, from the last one kept
+ */
+function shouldKeep(last: Breadcrumb | null, next: Breadcrumb): boolean {
+  if (!last) {
+    return true;
+  }
+  if (Date.parse(next.at) - Date.parse(last.at) >= breadcrumbIntervalMs(next.speed)) {
+    return true;
+  }
+  return calculateDistance(last.lat, last.lng, next.lat, next.lng) >= BREADCRUMB_JUMP_METERS;
+}
+
+/**
+ * Stop receiving fixes, in the foreground and the background
+ */
+async function stopLocationUpdates(): Promise<void> {
+  clearUploadTimer();
+  subscription?.remove();
+  subscription = null;
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(BREADCRUMB_TASK)) {
+      await Location.stopLocationUpdatesAsync(BREADCRUMB_TASK);
+    }
+  } catch (error) {
+    log.warn('Failed to stop background location updates', error);
+  }
+}
+
+/**
+ * End a trail whose incident the server has closed, dropping what it still holds
+ */
+async function endClosedTrail(state: TrailState): Promise<void> {
+  log.info('Incident closed, ending breadcrumb trail', { incidentId: state.incidentId });
+  if (trail === state) {
+    await stopLocationUpdates();
+  }
+  await withLock(async () => {
+    state.active = false;
+    state.pending = [];
+    if (trail === state) {
+      trail = null;
+    }
+    // The file may already hold a newer incident's trail
+    const saved = await loadTrail();
+    if (!saved || saved.incidentId === state.incidentId) {
+      await FileSystem.deleteAsync(TRAIL_FILE, { idempotent: true }).catch(() => undefined);
+    }
+  });
+}
+
+/**
+ * Send a trail's pending fixes, oldest first
+ * Fixes are sent under the incident's saved credentials once its session is signed out.
+ * Fixes the server cannot be reached for, or refuses as unauthorized, stay pending;
+ * fixes it refuses otherwise are dropped. A closed incident ends the trail.
+ */
+async function sendPending(state: TrailState): Promise<void> {
+  while (state.pending.length > 0) {
+    const points = state.pending.slice(0, BREADCRUMB_BATCH_SIZE);
+    try {
+      await api<{ ok: boolean }>(`/v1/incidents/${encodeURIComponent(state.incidentId)}/locations`, {
+        method: 'POST',
+        body: JSON.stringify({ points }),
+        retry: 'standard',
+        // Stable for the batch, so a resend after a lost response is not stored twice
+        idempotencyKey: `breadcrumbs-${state.incidentId}-${Date.parse(points[0].at)}-${points.length}`,
+        ...(await incidentRequestOptions(state.incidentId)),
+      });
+    } catch (error) {
+      if (error instanceof ApiError && INCIDENT_CLOSED_STATUSES.includes(error.status)) {
+        await endClosedTrail(state);
+        return;
+      }
+      if (!isRejected(error)) {
+        log.warn('Failed to send breadcrumbs; kept for the next upload', error);
+        return;
+      }
+      log.error('Breadcrumbs refused by the server', { count: points.length, error });
+    }
+
+    await withLock(async () => {
+      const sent = new Set(points);
+      state.pending = state.pending.filter((point) => !sent.has(point));
+      await saveTrail(state);
+    });
+  }
+}
+
+/**
+ * Add the fixes worth keeping to the active trail and send them when due
+ */
+async function recordLocations(locations: Location.LocationObject[]): Promise<void> {
+  const kept = await withLock(async () => {
+    const state = trail ?? (await loadTrail());
+    if (!state?.active) {
+      return 0;
+    }
+    trail = state;
+
+    let count = 0;
+    for (const location of [...locations].sort((a, b) => a.timestamp - b.timestamp)) {
+      const breadcrumb = toBreadcrumb(location);
+      if (shouldKeep(state.last, breadcrumb)) {
+        state.pending.push(breadcrumb);
+        state.last = breadcrumb;
+        count += 1;
+      }
+    }
+    if (count === 0) {
+      return 0;
+    }
+
+    const overflow = state.pending.length - MAX_PENDING_BREADCRUMBS;
+    if (overflow > 0) {
+      log.warn('Breadcrumb trail full, dropping oldest fixes', { count: overflow });
+      state.pending.splice(0, overflow);
+    }
+    await saveTrail(state);
+    return count;
+  });
+
+  // Background runs get no timer, so sending is driven by new fixes as well
+  if (kept > 0 && Date.now() - lastUploadAt >= BREADCRUMB_UPLOAD_MS) {
+    await flushBreadcrumbs();
+  }
+}
+
+/**
+ * Background run: the app may have been started just for this, so restore the
+ * environment and active profile before sending anything
+ */
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BREADCRUMB_TASK, async ({ data, error }) => {
+  if (error) {
+    log.warn('Background location update failed', error);
+    return;
+  }
+  try {
+    if (!trail) {
+      await loadEnvironment();
+      await storage.loadActiveProfileId();
+    }
+    await recordLocations(data.locations);
+  } catch (taskError) {
+    log.error('Failed to record background breadcrumbs', taskError);
+  }
+});
+
+/**
+ * Start receiving fixes, in the background if allowed
+ * @returns How fixes are received, or null without location permission
+ */
+async function startLocationUpdates(): Promise<'background' | 'foreground' | null> {
+  const foreground = await Location.getForegroundPermissionsAsync();
+  if (foreground.status !== 'granted') {
+    log.warn('Location permission not granted; no breadcrumb trail');
+    return null;
+  }
+
+  const background = await Location.getBackgroundPermissionsAsync();
+  if (background.status === 'granted' && (await Location.isBackgroundLocationAvailableAsync())) {
+    await Location.startLocationUpdatesAsync(BREADCRUMB_TASK, BACKGROUND_OPTIONS);
+    return 'background';
+  }
+
+  subscription?.remove();
+  subscription = await Location.watchPositionAsync(LOCATION_OPTIONS, (location) => {
+    void recordLocations([location]);
+  });
+  return 'foreground';
+}
+
+/**
+ * Start (or, after a restart, resume) the breadcrumb trail for an incident
+ * Fixes left over from a different incident are sent first.
+ *
+ * @param incidentId - Incident the trail belongs to
+ */
+export async function startBreadcrumbTrail(incidentId: string): Promise<void> {
+  const saved = trail ?? (await withLock(loadTrail));
+  if (saved && saved.incidentId !== incidentId) {
+    await sendPending(saved);
+    if (saved.pending.length > 0) {
+      log.warn('Dropping undelivered breadcrumbs from an earlier incident', { count: saved.pending.length });
+    }
+  }
+
+  await withLock(async () => {
+    trail = saved?.incidentId === incidentId
+      ? { ...saved, active: true }
+      : { incidentId, active: true, pending: [], last: null };
+    await saveTrail(trail);
+  });
+
+  let mode: Awaited<ReturnType<typeof startLocationUpdates>> = null;
+  try {
+    mode = await startLocationUpdates();
+  } catch (error) {
+    log.error('Failed to start location updates', error);
+  }
+
+  // The first fix is sent as soon as it arrives
+  lastUploadAt = 0;
+  clearUploadTimer();
+  uploadTimer = setInterval(() => {
+    void flushBreadcrumbs();
+  }, BREADCRUMB_UPLOAD_MS);
+  log.info('Breadcrumb trail started', { incidentId, mode });
+}
+
+/**
+ * Send the fixes kept since the last upload
+ */
+export function flushBreadcrumbs(): Promise<void> {
+  if (!uploading) {
+    lastUploadAt = Date.now();
+    const state = trail;
+    uploading = (state ? sendPending(state) : Promise.resolve()).finally(() => {
+      uploading = null;
+    });
+  }
+  return uploading;
+}
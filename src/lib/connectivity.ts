@@ -0,0 +1,73 @@
+/**
+ * Connectivity primitives
+ * Maps the device network state to what the app cares about, and probes whether the
+ * API answers at all, since being on a network does not guarantee a route to it.
+ */
+
+import * as Network from 'expo-network';
+import { getEnvironment } from '../config';
+
+/**
+ * Network state as used by the app
+ */
+export interface NetworkStatus {
+  /** Connected, and not known to lack internet access */
+  isOnline: boolean;
+  /** On a cellular connection, where large transfers cost the user money */
+  isMetered: boolean;
+  type: Network.NetworkStateType;
+}
+
+/**
+ * How long the reachability probe waits for the API (5 seconds)
+ */
+export const REACHABILITY_TIMEOUT_MS = 5000;
+
+/**
+ * Convert an expo-network state
+ * isInternetReachable is often undefined right after a change, so only an explicit
+ * false counts as offline.
+ */
+export function toNetworkStatus(state: Network.NetworkState): NetworkStatus {
+  return {
+    isOnline: !!state.isConnected && state.isInternetReachable !== false,
+    isMetered: state.type === Network.NetworkStateType.CELLULAR,
+    type: state.type ?? Network.NetworkStateType.UNKNOWN,
+  };
+}
+
+/**
+ * Read the current network state
+ */
+export async function getNetworkStatus(): Promise<NetworkStatus> {
+  return toNetworkStatus(await Network.getNetworkStateAsync());
+}
+
+/**
+ * Listen for network state changes
+ * @returns Function that removes the listener
+ */
+export function watchNetworkStatus(listener: (status: NetworkStatus) => void): () => void {
+  const subscription = Network.addNetworkStateListener((state) => listener(toNetworkStatus(state)));
+  return () => subscription.remove();
+}
+
+/**
+ * Check whether the current environment's API answers
+ * Any HTTP response counts, even an error status: the server is reachable.
+ * Bypasses the API client so probes never trigger retries, token refreshes or logging.
+ *
+ * @returns true if the API responded within the timeout
+ */
+export async function probeApi(timeoutMs: number = REACHABILITY_TIMEOUT_MS): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    await fetch(getEnvironment().apiBaseUrl, { method: 'HEAD', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Silent duress response
+ * Everything that happens once a session is known to be under duress: the duress
+ * alert, evidence recording, a snapshot of nearby devices, the incident timeline and
+ * the location trail.
+ * Shared by duress logins and in-session escalation so both paths behave identically.
+ * Nothing here may surface in the UI.
+ */
+
+import { queueDuressAlert } from './alerts';
+import { startBreadcrumbTrail } from './breadcrumbs';
+import { saveIncidentEncryption } from './encryption';
+import { getCurrentLocation } from './geo';
+import { setDuressIncidentId, startDuressRecording, stopDuressRecording } from './duressRecording';
+import { captureNearbyEvidence } from './nearby';
+import { recordTimelineEvent, startIncidentTimeline, stopIncidentTimeline } from './timeline';
+import * as storage from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('duress');
+
+/**
+ * How long the in-session duress trigger (long-press on Send) must be held (3 seconds)
+ */
+export const DURESS_TRIGGER_HOLD_MS = 3000;
+
+/**
+ * How duress was signalled
+ */
+export interface DuressActivation {
+  trigger: 'LOGIN' | 'ESCALATION';
+  /** When the duress sign-in was submitted (epoch ms) */
+  loginAt?: number;
+}
+
+/**
+ * Send the duress alert with the current location and record the outcome on the timeline
+ * Never throws; an alert that cannot be sent now stays in the outbox.
+ */
+async function raiseDuressAlert(sessionId: string, incidentId: string): Promise<void> {
+  try {
+    const geo = await getCurrentLocation().catch(() => undefined);
+    if (geo) {
+      await recordTimelineEvent('LOCATION', geo);
+    }
+    const alert = await queueDuressAlert(sessionId, geo, incidentId);
+    await recordTimelineEvent('ALERT', { delivered: alert !== null, ...(alert && { alertId: alert.alertId }) });
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+}
+
+/**
+ * Send the duress alert, start evidence recording and the location trail, and
+ * capture nearby devices
+ * Never throws: failures are logged without revealing duress state to the user.
+ * A missing location does not prevent the alert from being sent, and an alert that
+ * cannot be sent now is kept in the outbox until it is delivered. Recording and the
+ * location trail start alongside the alert rather than after it, since a critical
+ * alert may keep retrying for over a minute.
+ *
+ * Requirements: 24.1, 24.2, 24.3, 24.4, 24.5
+ *
+ * @param sessionId - Session under duress
+ * @param incidentId - Incident ID for evidence linkage
+ * @param activation - How duress was signalled, for the incident timeline
+ */
+export async function activateDuressResponse(
+  sessionId: string,
+  incidentId: string,
+  activation: DuressActivation = { trigger: 'LOGIN' }
+): Promise<void> {
+  // Prime duress recording state with incidentId so duress video can start with it
+  setDuressIncidentId(incidentId);
+
+  // Evidence and the location trail outlive the session (sign-out), so they keep its
+  // credentials and its tenant's evidence keys
+  try {
+    await storage.setIncidentCredentials(incidentId, {
+      sessionId,
+      accessToken: await storage.getAccessToken(),
+      tenantKey: await storage.getTenantKey(),
+    });
+    await saveIncidentEncryption(incidentId);
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+
+  try {
+    await startIncidentTimeline(incidentId);
+    if (activation.loginAt !== undefined) {
+      await recordTimelineEvent('LOGIN', undefined, activation.loginAt);
+    }
+    await recordTimelineEvent('VERDICT', { verdict: 'DURESS', trigger: activation.trigger });
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+
+  const alert = raiseDuressAlert(sessionId, incidentId);
+
+  try {
+    await startBreadcrumbTrail(incidentId);
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+
+  try {
+    await startDuressRecording(incidentId);
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+
+  await captureNearbyEvidence(incidentId);
+  await alert;
+}
+
+/**
+ * Stop evidence recording and close the incident timeline
+ * Called once the session leaves duress (sign-out). The location trail carries on,
+ * since an attacker can force a sign-out; it ends when the server reports the
+ * incident closed.
+ * Never throws.
+ */
+export async function endDuressResponse(): Promise<void> {
+  try {
+    await stopDuressRecording();
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+
+  try {
+    await stopIncidentTimeline();
+  } catch (error) {
+    log.warn('Background operation failed', error);
+  }
+}
@@ -2,20 +2,91 @@
  * Duress Recording Service
  * Manages automatic audio and video recording when duress mode is activated.
  * Recording starts immediately after duress PIN is entered and alert is sent.
+ *
+ * Audio and video are recorded in rolling segments of DURESS_SEGMENT_MS. Each segment is
+ * queued for upload as soon as it closes, so evidence up to the last segment survives even
+ * if the phone is destroyed, and names the previous segment of the same kind by hash to
+ * prove continuity.
+ *
+ * Video needs a mounted camera, which the app root registers with setDuressCamera so
+ * recording carries on whichever screen is showing. Every duressPhotoIntervalMs for the
+ * whole incident, starting before the first video segment, the camera takes a round of
+ * duressPhotoCount stills alternating back and front, queued right away so responders
+ * get a picture before a segment completes. The device can only use one camera at a
+ * time, so rounds are taken between video segments.
  */
 
 import { Audio } from 'expo-av';
-import { startAudioRecording, stopAudioRecording, uploadEvidence } from './evidence';
+import type { CameraType } from 'expo-camera';
+import {
+  CameraRef,
+  requestVideoPermissions,
+  rotateAudioRecording,
+  startAudioRecording,
+  stopAudioRecording,
+} from './evidence';
+import { queueEvidence } from './evidenceQueue';
+import { getFlag } from './flags';
+import { getCurrentLocation } from './geo';
+import { recordTimelineEvent } from './timeline';
+import { createLogger } from './logger';
+
+const log = createLogger('duressRecording');
+
+/**
+ * Length of each audio and video segment (20 seconds)
+ */
+export const DURESS_SEGMENT_MS = 20 * 1000;
+
+/**
+ * Upper bound on a single video segment's file (50 MB)
+ */
+const VIDEO_SEGMENT_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Camera registered by the app root for duress video and photos
+ */
+export interface DuressCamera extends CameraRef {
+  // Switch to the given camera if needed and take a still; resolves with its URI
+  takePhoto: (facing: CameraType) => Promise<string>;
+}
+
+/**
+ * Position in a segment chain
+ */
+interface SegmentChain {
+  // Index of the segment being recorded
+  segmentIndex: number;
+  // Content hash of the last queued segment, for the next segment's chain link
+  previousSha256: string | null;
+}
 
 /**
  * Duress recording state
  */
-interface DuressRecordingState {
+interface DuressRecordingState extends SegmentChain {
   incidentId: string | null;
   audioRecording: Audio.Recording | null;
   isRecording: boolean;
 }
 
+/**
+ * Video segment chain of one incident
+ */
+interface VideoChain extends SegmentChain {
+  incidentId: string;
+}
+
+/**
+ * Duress video state
+ */
+interface DuressVideoState {
+  camera: DuressCamera | null;
+  isRecording: boolean;
+  // Settles once the segment loop has queued its last segment
+  loop: Promise<void> | null;
+}
+
 /**
  * Global state for duress recording
  */
@@ -23,8 +94,169 @@ let recordingState: DuressRecordingState = {
   incidentId: null,
   audioRecording: null,
   isRecording: false,
+  segmentIndex: 0,
+  previousSha256: null,
 };
 
+let videoState: DuressVideoState = {
+  camera: null,
+  isRecording: false,
+  loop: null,
+};
+
+/**
+ * Kept across video restarts (such as a camera remount), so an incident has one chain
+ */
+let videoChain: VideoChain | null = null;
+
+let segmentTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Segment rotations and queueing run one at a time, so the chain stays in order
+ */
+let segmentWork: Promise<void> = Promise.resolve();
+
+function runSegmentWork(fn: () => Promise<void>): Promise<void> {
+  const run = segmentWork.then(fn);
+  segmentWork = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Queue a closed segment, linking it to the one before
+ * A segment that cannot be queued is logged and skipped; its index stays used, so the
+ * gap is visible in the chain.
+ */
+async function queueSegment(
+  chain: SegmentChain,
+  incidentId: string,
+  uri: string,
+  kind: 'AUDIO' | 'VIDEO'
+): Promise<void> {
+  const index = chain.segmentIndex;
+  chain.segmentIndex = index + 1;
+
+  try {
+    const entry = await queueEvidence({
+      incidentId,
+      fileUri: uri,
+      kind,
+      contentType: kind === 'AUDIO' ? 'audio/mpeg' : 'video/mp4',
+      segment: { index, previousSha256: chain.previousSha256 },
+      duress: true,
+    });
+    chain.previousSha256 = entry.sha256;
+    log.info('Segment queued', { kind, index });
+  } catch (error) {
+    log.error('Failed to queue segment', { kind, index, error });
+  }
+}
+
+/**
+ * Close the current segment and keep recording in a new one
+ */
+function rotateSegment(): Promise<void> {
+  return runSegmentWork(async () => {
+    const { audioRecording, incidentId } = recordingState;
+    if (!recordingState.isRecording || !audioRecording || !incidentId) {
+      return;
+    }
+
+    const { uri, next } = await rotateAudioRecording(audioRecording);
+    recordingState.audioRecording = next;
+    if (!next) {
+      log.error('Failed to start next audio segment, recording ends here');
+      clearSegmentTimer();
+    }
+    await queueSegment(recordingState, incidentId, uri, 'AUDIO');
+  }).catch((error) => {
+    log.error('Failed to rotate audio segment', error);
+  });
+}
+
+/**
+ * Queue a duress photo with its capture time and the current location
+ */
+async function queueDuressPhoto(incidentId: string, uri: string, capturedAt: string): Promise<void> {
+  try {
+    const geo = await getCurrentLocation().catch(() => undefined);
+    if (geo) {
+      await recordTimelineEvent('LOCATION', geo);
+    }
+    await queueEvidence({
+      incidentId,
+      fileUri: uri,
+      kind: 'PHOTO',
+      contentType: 'image/jpeg',
+      capture: { capturedAt, ...(geo && { geo }) },
+      duress: true,
+    });
+    log.info('Duress photo queued', { capturedAt });
+  } catch (error) {
+    log.error('Failed to queue duress photo', error);
+  }
+}
+
+/**
+ * Take a round of duress photos, alternating back and front, unless stopped
+ * Photos are queued in the background so the next video segment starts right away.
+ */
+async function takePhotoRound(state: DuressVideoState, incidentId: string, camera: DuressCamera): Promise<void> {
+  const count = getFlag('duressPhotoCount');
+
+  for (let i = 0; i < count && state.isRecording && state.camera === camera; i++) {
+    const facing: CameraType = i % 2 === 0 ? 'back' : 'front';
+    try {
+      const uri = await camera.takePhoto(facing);
+      void queueDuressPhoto(incidentId, uri, new Date().toISOString());
+    } catch (error) {
+      log.warn('Failed to take duress photo', { facing, error });
+    }
+  }
+}
+
+/**
+ * Record video segments until stopped, with a round of photos whenever one is due
+ * Each segment ends at DURESS_SEGMENT_MS through the camera's own duration limit, so
+ * the next one starts as soon as the file is written.
+ */
+async function recordVideoSegments(state: DuressVideoState, chain: VideoChain, camera: DuressCamera): Promise<void> {
+  const { incidentId } = chain;
+  try {
+    let nextPhotosAt = 0;
+
+    while (state.isRecording && state.camera === camera) {
+      if (Date.now() >= nextPhotosAt) {
+        await takePhotoRound(state, incidentId, camera);
+        nextPhotosAt = Date.now() + getFlag('duressPhotoIntervalMs');
+        continue;
+      }
+
+      const result = await camera.recordAsync({
+        maxDuration: DURESS_SEGMENT_MS / 1000,
+        maxFileSize: VIDEO_SEGMENT_MAX_BYTES,
+      });
+      if (!result?.uri) {
+        log.error('Video segment produced no file, recording ends here');
+        break;
+      }
+      await queueSegment(chain, incidentId, result.uri, 'VIDEO');
+    }
+  } catch (error) {
+    log.error('Video recording failed, recording ends here', error);
+  } finally {
+    state.isRecording = false;
+    await recordTimelineEvent('RECORDING', { kind: 'VIDEO', state: 'STOPPED' });
+  }
+}
+
+function clearSegmentTimer(): void {
+  if (segmentTimer) {
+    clearInterval(segmentTimer);
+    segmentTimer = null;
+  }
+}
+
 /**
  * Manually set the current incident ID for duress evidence.
  * Useful to prime state before recording starts (e.g., right after login verdict).
@@ -34,70 +266,84 @@ export function setDuressIncidentId(incidentId: string | null): void {
 }
 
 /**
- * Start duress recording (audio only - video requires camera component)
- * This is called immediately after duress alert is sent.
+ * Start duress recording
+ * This is called immediately after duress alert is sent. Video starts too when the
+ * camera is mounted; otherwise it starts once the camera registers.
  * 
  * @param incidentId - The alert ID to use as incident ID for evidence
  * @throws Error if recording fails to start
  */
 export async function startDuressRecording(incidentId: string): Promise<void> {
   try {
-    console.log('🎥 [duressRecording] Starting duress recording for incident:', incidentId);
+    log.info('Starting duress recording', { incidentId });
     
-    // Store incident ID
+    // Store incident ID and start a new segment chain
     recordingState.incidentId = incidentId;
+    recordingState.segmentIndex = 0;
+    recordingState.previousSha256 = null;
     
+    // Video follows on its own if the camera is already mounted
+    if (videoState.camera) {
+      startDuressVideo().catch((error) => {
+        log.warn('Failed to start duress video', error);
+      });
+    }
+
     // Start audio recording
-    console.log('🎤 [duressRecording] Starting audio recording...');
     recordingState.audioRecording = await startAudioRecording();
     recordingState.isRecording = true;
+    await recordTimelineEvent('RECORDING', { kind: 'AUDIO', state: 'STARTED' });
+
+    clearSegmentTimer();
+    segmentTimer = setInterval(() => {
+      void rotateSegment();
+    }, DURESS_SEGMENT_MS);
     
-    console.log('✅ [duressRecording] Audio recording started successfully');
+    log.info('Audio recording started');
   } catch (error) {
-    console.error('❌ [duressRecording] Failed to start recording:', error);
+    log.error('Failed to start recording', error);
     recordingState.isRecording = false;
     throw error;
   }
 }
 
 /**
- * Stop duress recording and upload evidence
+ * Stop duress recording and queue the evidence for upload
  * Called when duress mode ends or app closes
  * 
- * @returns Promise resolving when upload completes
+ * @returns Promise resolving once the recording is safely queued
  */
 export async function stopDuressRecording(): Promise<void> {
+  await stopDuressVideo();
+
   if (!recordingState.isRecording) {
-    console.log('ℹ️ [duressRecording] No active recording to stop');
+    log.debug('No active recording to stop');
     return;
   }
 
+  clearSegmentTimer();
+
   try {
-    console.log('🛑 [duressRecording] Stopping duress recording...');
+    log.info('Stopping duress recording');
     
-    // Stop and upload audio
-    if (recordingState.audioRecording && recordingState.incidentId) {
-      console.log('🎤 [duressRecording] Stopping audio recording...');
-      const audioUri = await stopAudioRecording(recordingState.audioRecording);
-      
-      console.log('📤 [duressRecording] Uploading audio evidence...');
-      await uploadEvidence(
-        recordingState.incidentId,
-        audioUri,
-        'AUDIO',
-        'audio/mpeg'
-      );
-      console.log('✅ [duressRecording] Audio evidence uploaded');
-    }
+    // Stop and queue the last segment once any rotation in progress has finished
+    await runSegmentWork(async () => {
+      const { audioRecording, incidentId } = recordingState;
+      if (audioRecording && incidentId) {
+        const audioUri = await stopAudioRecording(audioRecording);
+        await queueSegment(recordingState, incidentId, audioUri, 'AUDIO');
+      }
+    });
     
     // Reset state
     recordingState.audioRecording = null;
     recordingState.isRecording = false;
     recordingState.incidentId = null;
+    await recordTimelineEvent('RECORDING', { kind: 'AUDIO', state: 'STOPPED' });
     
-    console.log('✅ [duressRecording] Duress recording stopped and uploaded');
+    log.info('Duress recording stopped');
   } catch (error) {
-    console.error('❌ [duressRecording] Failed to stop recording:', error);
+    log.error('Failed to stop recording', error);
     // Reset state even on error
     recordingState.audioRecording = null;
     recordingState.isRecording = false;
@@ -127,26 +373,75 @@ export function isDuressRecording(): boolean {
 }
 
 /**
- * Upload video evidence (called from camera component)
- * 
- * @param videoUri - URI of the recorded video file
- * @throws Error if upload fails
+ * Register the camera used for duress video and photos (called by the app root)
+ * Pass null when the camera unmounts; any video in progress ends with it.
+ */
+export function setDuressCamera(camera: DuressCamera | null): void {
+  if (!camera && videoState.camera) {
+    videoState.isRecording = false;
+  }
+  videoState.camera = camera;
+}
+
+/**
+ * Record duress video in rolling segments, with photo rounds in between
+ * Does nothing if video is already recording.
+ *
+ * @throws Error if there is no duress incident, no camera, or no permission
  */
-export async function uploadDuressVideo(videoUri: string): Promise<void> {
-  const incidentId = recordingState.incidentId;
-  
+export async function startDuressVideo(): Promise<void> {
+  const { incidentId } = recordingState;
+  const { camera } = videoState;
+
+  if (videoState.isRecording) {
+    return;
+  }
   if (!incidentId) {
     throw new Error('No active duress incident ID');
   }
-  
-  try {
-    console.log('📤 [duressRecording] Uploading video evidence...');
-    await uploadEvidence(incidentId, videoUri, 'VIDEO', 'video/mp4');
-    console.log('✅ [duressRecording] Video evidence uploaded');
-  } catch (error) {
-    console.error('❌ [duressRecording] Failed to upload video:', error);
-    throw error;
+  if (!camera) {
+    throw new Error('Camera is not ready');
+  }
+
+  await requestVideoPermissions();
+  if (videoState.isRecording) {
+    return;
+  }
+
+  // A restart for the same incident continues its chain
+  if (videoChain?.incidentId !== incidentId) {
+    videoChain = { incidentId, segmentIndex: 0, previousSha256: null };
   }
+
+  log.info('Starting duress video', { incidentId, segmentIndex: videoChain.segmentIndex });
+  const state: DuressVideoState = { camera, isRecording: true, loop: null };
+  // Queued before the loop can record its end
+  void recordTimelineEvent('RECORDING', { kind: 'VIDEO', state: 'STARTED' });
+  state.loop = recordVideoSegments(state, videoChain, camera);
+  videoState = state;
 }
 
+/**
+ * Stop duress video and queue the segment in progress
+ * The camera is told to stop right away; the returned promise settles once the last
+ * segment is queued.
+ */
+export async function stopDuressVideo(): Promise<void> {
+  const state = videoState;
+  if (!state.loop) {
+    return;
+  }
+
+  state.isRecording = false;
+  state.camera?.stopRecording();
+  await state.loop;
+  state.loop = null;
+  log.info('Duress video stopped');
+}
 
+/**
+ * Check if duress video is recording
+ */
+export function isDuressVideoRecording(): boolean {
+  return videoState.isRecording;
+}
@@ -0,0 +1,178 @@
+/**
+ * Evidence encryption
+ * Evidence is sealed on-device with AES-256-GCM under a per-incident key. The key is
+ * wrapped with the tenant's RSA public key (RSA-OAEP with SHA-256), so S3 and the API
+ * only ever hold ciphertext that the tenant's investigators alone can open.
+ * A duress incident keeps the public key and evidence key it started with (see
+ * saveIncidentEncryption), since its evidence may be sent while another tenant's
+ * profile is signed in.
+ *
+ * Files are sealed in segments so they can be encrypted and uploaded part by part:
+ * segment i is encrypted with the file's IV plus i (added to its last 32 bits) and
+ * stored as the ciphertext followed by its 16-byte tag.
+ */
+
+import forge from 'node-forge';
+import * as Crypto from 'expo-crypto';
+import * as storage from './storage';
+import { Sha256 } from './sha256';
+import { createLogger } from './logger';
+
+const log = createLogger('encryption');
+
+/**
+ * Bytes of GCM tag appended to each sealed segment
+ */
+export const SEGMENT_TAG_BYTES = 16;
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Key material for sealing one file
+ */
+export interface EvidenceEncryption {
+  /** Raw AES key (base64); never leaves the device unwrapped */
+  key: string;
+  /** Short fingerprint of the key, to detect a key change when resuming */
+  keyId: string;
+  /** Base IV for the file (base64) */
+  iv: string;
+  /** AES key wrapped with the tenant public key (base64) */
+  wrappedKey: string;
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Wrap a raw key with an RSA public key
+ * @param rawKey - Key bytes as a binary string
+ * @param publicKeyPem - PEM-encoded RSA public key
+ * @returns Wrapped key (base64)
+ */
+function wrapKey(rawKey: string, publicKeyPem: string): string {
+  const publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+  const wrapped = publicKey.encrypt(rawKey, 'RSA-OAEP', {
+    md: forge.md.sha256.create(),
+    mgf1: { md: forge.md.sha256.create() },
+    // forge's own PRNG is not seeded from the OS on React Native
+    seed: bytesToBinary(Crypto.getRandomBytes(32)),
+  });
+  return forge.util.encode64(wrapped);
+}
+
+/**
+ * Get the per-incident key, creating and storing it on first use
+ * @returns Raw key (base64)
+ */
+async function getIncidentKey(incidentId: string): Promise<string> {
+  const stored = await storage.getEvidenceKey(incidentId);
+  if (stored) {
+    return stored;
+  }
+
+  const key = forge.util.encode64(bytesToBinary(Crypto.getRandomBytes(KEY_BYTES)));
+  await storage.setEvidenceKey(incidentId, key);
+  return key;
+}
+
+/**
+ * Save the active tenant's public key and the incident's evidence key with the incident
+ * Called when a duress incident starts, while its session is the active one.
+ * @param incidentId - Incident to seal all later evidence for
+ */
+export async function saveIncidentEncryption(incidentId: string): Promise<void> {
+  const evidencePublicKey = (await storage.getTenantConfig())?.evidencePublicKey ?? null;
+  await storage.setIncidentEncryption(incidentId, {
+    evidencePublicKey,
+    evidenceKey: evidencePublicKey ? await getIncidentKey(incidentId) : null,
+  });
+}
+
+/**
+ * Prepare encryption for one evidence file
+ * An incident with saved encryption is always sealed with it; otherwise the active
+ * tenant's public key and the profile's evidence key are used.
+ * @param incidentId - Incident the evidence belongs to; all its files share a key
+ * @returns Key material, or null when the tenant has not published an evidence key
+ * @throws Error('INVALID_EVIDENCE_KEY') when the tenant public key cannot be used
+ */
+export async function prepareEvidenceEncryption(incidentId: string): Promise<EvidenceEncryption | null> {
+  const saved = await storage.getIncidentEncryption(incidentId);
+  const publicKeyPem = saved ? saved.evidencePublicKey : (await storage.getTenantConfig())?.evidencePublicKey;
+  if (!publicKeyPem) {
+    log.warn('Tenant has no evidence public key; evidence will not be encrypted');
+    return null;
+  }
+
+  const key = saved?.evidenceKey ?? (await getIncidentKey(incidentId));
+  const rawKey = forge.util.decode64(key);
+
+  let wrappedKey: string;
+  try {
+    wrappedKey = wrapKey(rawKey, publicKeyPem);
+  } catch (error) {
+    log.error('Failed to wrap evidence key', error);
+    throw new Error('INVALID_EVIDENCE_KEY');
+  }
+
+  return {
+    key,
+    keyId: new Sha256().update(binaryToBytes(rawKey)).digest().slice(0, 16),
+    iv: forge.util.encode64(bytesToBinary(Crypto.getRandomBytes(IV_BYTES))),
+    wrappedKey,
+  };
+}
+
+/**
+ * IV of one segment: the base IV with the segment index added to its last 32 bits
+ */
+function segmentIv(iv: string, index: number): string {
+  const bytes = binaryToBytes(forge.util.decode64(iv));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(IV_BYTES - 4, (view.getUint32(IV_BYTES - 4) + index) >>> 0);
+  return bytesToBinary(bytes);
+}
+
+/**
+ * Encrypt one segment of a file
+ * @param encryption - Key material from prepareEvidenceEncryption
+ * @param index - Zero-based segment index
+ * @param data - Plaintext of the segment
+ * @returns Ciphertext followed by the GCM tag
+ */
+export function sealSegment(
+  encryption: Pick<EvidenceEncryption, 'key' | 'iv'>,
+  index: number,
+  data: Uint8Array
+): Uint8Array {
+  const cipher = forge.cipher.createCipher('AES-GCM', forge.util.decode64(encryption.key));
+  cipher.start({ iv: segmentIv(encryption.iv, index), tagLength: SEGMENT_TAG_BYTES * 8 });
+  cipher.update(forge.util.createBuffer(bytesToBinary(data)));
+  cipher.finish();
+
+  return binaryToBytes(cipher.output.getBytes() + cipher.mode.tag.getBytes());
+}
+
+/**
+ * Size of a file once sealed in segments
+ */
+export function sealedSize(size: number, segmentSize: number): number {
+  const segments = Math.max(1, Math.ceil(size / segmentSize));
+  return size + segments * SEGMENT_TAG_BYTES;
+}
@@ -10,6 +10,7 @@
 export const ERROR_MESSAGES: Record<string, string> = {
   // API Errors (Requirement 5.1, 5.2, 5.3)
   INVALID_TENANT_KEY: 'Configuration error. Please contact support.',
+  TENANT_NOT_FOUND: 'Unknown tenant code. Check the code or scan it again.',
   TENANT_SUSPENDED: 'Service unavailable. Please contact support.',
   RATE_LIMIT_EXCEEDED: 'Too many attempts. Please wait a minute.',
   MISSING_REQUIRED_FIELDS: 'Invalid request. Please try again.',
@@ -18,17 +19,91 @@ export const ERROR_MESSAGES: Record<string, string> = {
   // Network Errors (Requirement 5.4)
   NETWORK_ERROR: 'Network error. Please check your connection.',
   TIMEOUT_ERROR: 'Request timed out. Please try again.',
+  REQUEST_CANCELLED: 'Request was cancelled.',
+  INVALID_RESPONSE: 'Unexpected response from the server. Please try again.',
+  UPLOAD_WAIT_TIMEOUT: 'No suitable connection for the upload. Please try again later.',
   
   // Storage Errors
   STORAGE_ERROR: 'Storage error. Please restart the app.',
+  PROFILE_HAS_QUEUED_REQUESTS: 'This profile cannot be removed yet. Please try again later.',
   
   // Default fallback (Requirement 5.5, 5.6)
   UNKNOWN_ERROR: 'An error occurred. Please try again.',
 };
 
+/**
+ * Structured error thrown by the API client for every failed request
+ *
+ * - `status` is the HTTP status, or 0 when no response was received
+ *   (network failure, timeout or cancellation)
+ * - `code` is the server's `error` field (e.g. RATE_LIMIT_EXCEEDED) or one of
+ *   the client codes NETWORK_ERROR, TIMEOUT_ERROR, REQUEST_CANCELLED, or
+ *   INVALID_RESPONSE when the server answered but the response could not be
+ *   handled (status is then the real HTTP status, so it is not retried as a
+ *   network failure)
+ * - `path` is the API path that was requested
+ * - `retryAfterMs` is the server's Retry-After hint, when one was sent
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly path: string;
+  readonly body?: unknown;
+  readonly retryAfterMs?: number;
+
+  constructor(params: {
+    status: number;
+    code?: string;
+    path: string;
+    body?: unknown;
+    retryAfterMs?: number;
+    message?: string;
+  }) {
+    super(params.message ?? params.code ?? `HTTP ${params.status}`);
+    this.name = 'ApiError';
+    this.status = params.status;
+    this.code = params.code;
+    this.path = params.path;
+    this.body = params.body;
+    this.retryAfterMs = params.retryAfterMs;
+    // Preserve instanceof checks when compiled down to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * True when the request never produced an HTTP response
+   */
+  get isNetworkFailure(): boolean {
+    return this.status === 0;
+  }
+}
+
+/**
+ * Type guard for errors thrown by the API client
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Map an HTTP status without a known error code to a message key
+ */
+function statusToErrorCode(status: number): string {
+  if (status === 401 || status === 403) {
+    return 'AUTHENTICATION_FAILED';
+  }
+  if (status === 408) {
+    return 'TIMEOUT_ERROR';
+  }
+  if (status === 429) {
+    return 'RATE_LIMIT_EXCEEDED';
+  }
+  return 'UNKNOWN_ERROR';
+}
+
 /**
  * Maps error objects to user-friendly error messages
- * Handles Error instances, string error codes, and unknown error types
+ * Handles ApiError instances, Error instances, string error codes, and unknown error types
  * 
  * @param error - The error to map (can be Error, string, or unknown)
  * @returns User-friendly error message string
@@ -44,6 +119,14 @@ export const ERROR_MESSAGES: Record<string, string> = {
  * ```
  */
 export function getErrorMessage(error: unknown): string {
+  // Handle structured API client errors by code first, then by status
+  if (error instanceof ApiError) {
+    if (error.code && error.code in ERROR_MESSAGES) {
+      return ERROR_MESSAGES[error.code];
+    }
+    return ERROR_MESSAGES[statusToErrorCode(error.status)];
+  }
+
   // Handle Error instances
   if (error instanceof Error) {
     // Check if the error message is a known error code
@@ -82,6 +165,9 @@ export function getErrorMessage(error: unknown): string {
  * @returns True if the error is a known API error code
  */
 export function isKnownApiError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return !!error.code && error.code in ERROR_MESSAGES;
+  }
   if (error instanceof Error) {
     return error.message in ERROR_MESSAGES;
   }
@@ -98,6 +184,9 @@ export function isKnownApiError(error: unknown): boolean {
  * @returns True if the error is network-related
  */
 export function isNetworkError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT_ERROR';
+  }
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
     return message.includes('network') || 
@@ -3,12 +3,25 @@ import * as Crypto from 'expo-crypto';
 import { 
   CameraView, 
   CameraRecordingOptions, 
+  CameraPictureOptions,
   Camera,
   PermissionResponse,
 } from 'expo-camera';
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
 import { api } from './api';
+import { enqueue } from './outbox';
+import {
+  clearUploadState,
+  hashFile,
+  PART_SIZE_BYTES,
+  UploadProgress,
+  uploadFileResumable,
+} from './upload';
+import { prepareEvidenceEncryption } from './encryption';
+import type { IncidentRequestOptions } from './interceptors';
+
+export { presignEvidence } from './upload';
 
 /**
  * Evidence kind types supported by the API
@@ -28,25 +41,44 @@ export type CameraRef = {
   recordAsync: (options?: CameraRecordingOptions) => Promise<CameraRecordingResult>;
   stopRecording: () => void;
 };
-
-/**
- * Response from presign endpoint
- */
-interface PresignResponse {
-  url: string;  // Presigned PUT URL (5 min expiry)
-  key: string;  // S3 object key
-}
+export type PhotoCameraRef = {
+  takePictureAsync: (options?: CameraPictureOptions) => Promise<{ uri: string } | undefined>;
+};
 
 /**
  * Request payload for finalize endpoint
  */
-interface FinalizeRequest {
+export interface FinalizeRequest {
   incidentId: string;
   kind: EvidenceKind;
   key: string;
   size: number;
   sha256: string;
+  // Encryption (see lib/encryption): base IV, AES key wrapped with the tenant
+  // public key, and the plaintext bytes per sealed segment
   encIv?: string;
+  encKey?: string;
+  encSegmentSize?: number;
+  // Hash of the file as recorded, before encryption
+  contentSha256?: string;
+  // Position in a segmented recording and the previous segment's contentSha256
+  segmentIndex?: number;
+  previousSha256?: string | null;
+  // When and where the evidence was captured, if known
+  capturedAt?: string;
+  geo?: { lat: number; lng: number };
+}
+
+/**
+ * Place of one file in a segmented recording
+ * Each segment names the hash of the one before it, so investigators can show the
+ * segments form one unbroken recording.
+ */
+export interface EvidenceSegment {
+  /** Zero-based position in the recording */
+  index: number;
+  /** Content hash of the previous segment; null for the first */
+  previousSha256: string | null;
 }
 
 /**
@@ -58,32 +90,88 @@ interface FinalizeResponse {
 }
 
 /**
- * Request a presigned URL for uploading evidence to S3
- * @param incidentId - The incident ID associated with the evidence
- * @param contentType - MIME type of the file (e.g., 'video/mp4', 'audio/mp3', 'image/jpeg')
- * @returns Presigned URL and S3 key
+ * Waits until an upload of the given size may start, or rejects once the signal aborts
  */
-export async function presignEvidence(
-  incidentId: string,
-  contentType: string
-): Promise<PresignResponse> {
-  return api<PresignResponse>('/v1/evidence/presign', {
-    method: 'POST',
-    body: JSON.stringify({ incidentId, contentType }),
+export type UploadGate = (sizeBytes: number, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Longest an upload waits at the upload gate before failing (5 minutes)
+ * Bounds the wait so a caller such as the evidence queue is never held indefinitely.
+ */
+export const UPLOAD_GATE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Upload gate consulted before each upload, if any
+ */
+let uploadGate: UploadGate | null = null;
+
+/**
+ * Register the function that holds uploads back (e.g. large files on cellular)
+ * @param gate - Upload gate, or null to start uploads immediately
+ */
+export function setUploadGate(gate: UploadGate | null): void {
+  uploadGate = gate;
+}
+
+/**
+ * Wait at the upload gate for at most UPLOAD_GATE_TIMEOUT_MS
+ * @throws Error('UPLOAD_WAIT_TIMEOUT') if no suitable connection came up in time
+ */
+async function waitAtUploadGate(gate: UploadGate, sizeBytes: number): Promise<void> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error('UPLOAD_WAIT_TIMEOUT'));
+    }, UPLOAD_GATE_TIMEOUT_MS);
   });
+
+  try {
+    await Promise.race([gate(sizeBytes, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 /**
  * Finalize evidence upload after successful S3 PUT
  * @param input - Evidence metadata including incident ID, kind, key, size, and hash
+ * @param auth - Incident credentials to send in place of the stored session
  * @returns Confirmation with evidence ID
  */
 export async function finalizeEvidence(
-  input: FinalizeRequest
+  input: FinalizeRequest,
+  auth?: IncidentRequestOptions | null
 ): Promise<FinalizeResponse> {
+  // The S3 key is unique per upload, so it doubles as the idempotency key
   return api<FinalizeResponse>('/evidence/finalize', {
     method: 'POST',
     body: JSON.stringify(input),
+    retry: 'critical',
+    idempotencyKey: `finalize-${input.key}`,
+    ...auth,
+  });
+}
+
+/**
+ * Finalize evidence through the outbox
+ * A finalize that cannot be sent now is replayed until the server accepts it, so
+ * uploaded evidence is never left unregistered.
+ * @param input - Evidence metadata including incident ID, kind, key, size, and hash
+ * @returns Confirmation with evidence ID, or null if the finalize was queued
+ * @throws ApiError if the server rejected the finalize
+ */
+export async function queueEvidenceFinalize(
+  input: FinalizeRequest
+): Promise<FinalizeResponse | null> {
+  return enqueue<FinalizeResponse>({
+    kind: 'EVIDENCE_FINALIZE',
+    path: '/evidence/finalize',
+    body: input,
+    idempotencyKey: `finalize-${input.key}`,
+    retry: 'critical',
+    incidentId: input.incidentId,
   });
 }
 
@@ -103,7 +191,10 @@ export interface EvidenceItem {
  * Fetch the evidence list for a given incident.
  */
 export async function listEvidence(incidentId: string): Promise<EvidenceItem[]> {
-  return api<EvidenceItem[]>(`/v1/evidence/list?incidentId=${encodeURIComponent(incidentId)}`);
+  return api<EvidenceItem[]>(
+    `/v1/evidence/list?incidentId=${encodeURIComponent(incidentId)}`,
+    { retry: 'standard' }
+  );
 }
 
 /**
@@ -112,7 +203,8 @@ export async function listEvidence(incidentId: string): Promise<EvidenceItem[]>
  */
 export async function getEvidenceDownloadUrl(evidenceId: string): Promise<string> {
   const { url } = await api<{ url: string }>(
-    `/v1/evidence/download?evidenceId=${encodeURIComponent(evidenceId)}`
+    `/v1/evidence/download?evidenceId=${encodeURIComponent(evidenceId)}`,
+    { retry: 'standard' }
   );
   return url;
 }
@@ -129,31 +221,6 @@ export async function sha256String(s: string): Promise<string> {
   );
 }
 
-/**
- * Upload file to S3 using presigned URL
- * @param presignedUrl - Presigned PUT URL from presignEvidence
- * @param file - File data as Blob
- * @param contentType - MIME type of the file
- * @throws Error if upload fails
- */
-export async function uploadToS3(
-  presignedUrl: string,
-  file: Blob,
-  contentType: string
-): Promise<void> {
-  const response = await fetch(presignedUrl, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': contentType,
-    },
-    body: file,
-  });
-  
-  if (!response.ok) {
-    throw new Error(`S3 upload failed: ${response.status}`);
-  }
-}
-
 /**
  * Request camera permission
  * @returns Permission result with granted status
@@ -198,15 +265,6 @@ export async function requestVideoPermissions(): Promise<void> {
  * Request microphone permission
  * @returns Permission result with granted status
  */
-/**
- * Convert an ArrayBuffer digest into a lowercase hex string.
- */
-function arrayBufferToHex(buffer: ArrayBuffer): string {
-  return Array.from(new Uint8Array(buffer))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
-
 /**
  * Validate file existence and size before upload.
  * @throws Error if file does not exist or exceeds 100 MB
@@ -227,21 +285,29 @@ async function validateFile(fileUri: string): Promise<FileSystem.FileInfo> {
 }
 
 /**
- * Capture a photo using the device camera
+ * Capture a photo with the provided Camera ref
+ * The shutter sound is off where the platform allows it.
+ * @param cameraRef - Ref to a mounted Camera component
  * @returns URI of the captured photo
  * @throws Error if camera permission is not granted or capture fails
  */
-export async function capturePhoto(): Promise<string> {
+export async function capturePhoto(cameraRef: React.RefObject<PhotoCameraRef | null>): Promise<string> {
   const permission = await requestCameraPermission();
   
   if (!permission.granted) {
     throw new Error('Camera permission not granted');
   }
   
-  // Note: This is a helper function that returns a URI placeholder
-  // In a real implementation, this would be called from a component
-  // that has a Camera component mounted and can call camera.takePictureAsync()
-  throw new Error('capturePhoto must be called from a component with Camera mounted');
+  if (!cameraRef.current) {
+    throw new Error('Camera is not ready');
+  }
+
+  const photo = await cameraRef.current.takePictureAsync({ quality: 0.7, shutterSound: false });
+  if (!photo?.uri) {
+    throw new Error('Failed to get photo URI');
+  }
+
+  return photo.uri;
 }
 
 /**
@@ -288,6 +354,34 @@ export async function stopAudioRecording(recording: Audio.Recording): Promise<st
   return uri;
 }
 
+/**
+ * Close the current audio recording and start the next one right away
+ * The audio session stays active, so the gap between the two files is as short as possible.
+ * @param recording - Recording to close
+ * @returns URI of the closed recording, and the recording that replaced it or null
+ *   if a new one could not be started
+ * @throws Error if the current recording cannot be closed
+ */
+export async function rotateAudioRecording(
+  recording: Audio.Recording
+): Promise<{ uri: string; next: Audio.Recording | null }> {
+  await recording.stopAndUnloadAsync();
+  const uri = recording.getURI();
+  if (!uri) {
+    throw new Error('Failed to get recording URI');
+  }
+
+  try {
+    const { recording: next } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY
+    );
+    return { uri, next };
+  } catch {
+    // The closed file is still good evidence; the caller decides how to go on
+    return { uri, next: null };
+  }
+}
+
 /**
  * Start recording video with the provided Camera ref.
  * Returns the pending promise which will resolve when stopRecording is called.
@@ -334,89 +428,120 @@ export async function stopVideoRecording(
 
 /**
  * Compute SHA-256 hash of a file
+ * The file is read in parts, so large recordings are never held in memory at once.
  * @param fileUri - File URI (e.g., from FileSystem or Camera)
  * @returns Hex-encoded SHA-256 hash
  */
 export async function sha256File(fileUri: string): Promise<string> {
-  await validateFile(fileUri);
+  const info = await validateFile(fileUri);
+  return hashFile(fileUri, info.exists ? info.size : 0);
+}
 
-  const response = await fetch(fileUri);
-  const buffer = await response.arrayBuffer();
-  const bytes = new Uint8Array(buffer);
-  const digest = await Crypto.digest(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    bytes
-  );
+/**
+ * Options for uploadEvidence
+ */
+export interface UploadEvidenceOptions {
+  /** Called as parts are uploaded, with progress from 0 to 1 */
+  onProgress?: (progress: number) => void;
+  /** Capture time and location sent with the finalize */
+  capture?: EvidenceCapture;
+  /** Duress evidence skips the upload gate and is sent on any connection */
+  duress?: boolean;
+  /** Send the upload under an incident's saved credentials (see incidentRequestOptions) */
+  auth?: IncidentRequestOptions | null;
+}
 
-  return arrayBufferToHex(digest);
+/**
+ * When and where a piece of evidence was captured
+ */
+export interface EvidenceCapture {
+  /** ISO 8601 capture time */
+  capturedAt: string;
+  geo?: { lat: number; lng: number };
 }
 
 /**
- * Complete evidence upload flow with retry logic
+ * Upload an evidence file without finalizing it
+ * The file is encrypted for the tenant and uploaded in resumable parts while it is
+ * hashed. An upload interrupted by a failure or restart continues where it stopped.
  * @param incidentId - The incident ID associated with the evidence
  * @param fileUri - Local file URI to upload
  * @param kind - Evidence kind (VIDEO, AUDIO, PHOTO, etc.)
  * @param contentType - MIME type of the file
- * @returns Evidence ID from finalize response
- * @throws Error if upload or finalize fails after retries
+ * @param options - Progress reporting and capture metadata
+ * @returns The finalize request for the uploaded object
+ * @throws Error if the file is invalid or the upload fails after retries
+ * @throws Error('UPLOAD_WAIT_TIMEOUT') if the upload gate held it too long
  */
-export async function uploadEvidence(
+export async function uploadEvidenceFile(
   incidentId: string,
   fileUri: string,
   kind: EvidenceKind,
-  contentType: string
-): Promise<string> {
-  // Step 1: Validate file and get metadata
+  contentType: string,
+  options: UploadEvidenceOptions = {}
+): Promise<FinalizeRequest> {
+  // Validate file and get metadata
   const fileInfo = await validateFile(fileUri);
-  const fileSize = (fileInfo as any).size || 0;
-  const fileHash = await sha256File(fileUri);
+  const fileSize = fileInfo.exists ? fileInfo.size : 0;
 
-  // Step 2: Get presigned URL
-  const { url: presignedUrl, key } = await presignEvidence(incidentId, contentType);
-  
-  // Step 3: Read file as blob
-  const fileBlob = await fetch(fileUri).then(res => res.blob());
-  
-  // Step 4: Upload to S3
-  await uploadToS3(presignedUrl, fileBlob, contentType);
-  
-  // Step 5: Finalize with retry logic (up to 2 retries)
-  const finalizeResult = await finalizeWithRetry(
-    {
-      incidentId,
-      kind,
-      key,
-      size: fileSize,
-      sha256: fileHash,
-    },
-    2
+  // Wait for a suitable connection before spending data on the upload
+  if (uploadGate && !options.duress) {
+    await waitAtUploadGate(uploadGate, fileSize);
+  }
+
+  // Encrypt, upload and hash the file part by part
+  const encryption = await prepareEvidenceEncryption(incidentId);
+  const onProgress: UploadProgress | undefined = options.onProgress
+    ? (uploaded, total) => options.onProgress?.(total > 0 ? uploaded / total : 1)
+    : undefined;
+  const uploaded = await uploadFileResumable(
+    fileUri,
+    fileSize,
+    { incidentId, kind, contentType },
+    { onProgress, encryption, auth: options.auth }
   );
-  
-  return finalizeResult.id;
+
+  return {
+    incidentId,
+    kind,
+    key: uploaded.key,
+    size: uploaded.size,
+    sha256: uploaded.sha256,
+    ...(uploaded.encryption && {
+      encIv: uploaded.encryption.iv,
+      encKey: uploaded.encryption.wrappedKey,
+      encSegmentSize: PART_SIZE_BYTES,
+    }),
+    ...options.capture,
+  };
 }
 
 /**
- * Finalize evidence with exponential backoff retry logic
- * @param input - Finalize request payload
- * @param maxRetries - Maximum number of retry attempts (default: 2)
- * @param attempt - Current attempt number (internal use)
- * @returns Finalize response with evidence ID
- * @throws Error if all retries are exhausted
+ * Complete evidence upload flow
+ * Uploads the file (see uploadEvidenceFile), then finalizes it through the outbox.
+ * For evidence that must survive the app being killed, use queueEvidence instead.
+ * @param incidentId - The incident ID associated with the evidence
+ * @param fileUri - Local file URI to upload
+ * @param kind - Evidence kind (VIDEO, AUDIO, PHOTO, etc.)
+ * @param contentType - MIME type of the file
+ * @param options - Progress reporting and capture metadata
+ * @returns Evidence ID from finalize response, or null if the finalize was queued in the outbox
+ * @throws Error if upload fails after retries or the server rejects the finalize
  */
-async function finalizeWithRetry(
-  input: FinalizeRequest,
-  maxRetries: number = 2,
-  attempt: number = 0
-): Promise<FinalizeResponse> {
-  try {
-    return await finalizeEvidence(input);
-  } catch (error) {
-    if (attempt < maxRetries) {
-      // Exponential backoff: 1s, 2s, 4s
-      const delayMs = Math.pow(2, attempt) * 1000;
-      await new Promise(resolve => setTimeout(resolve, delayMs));
-      return finalizeWithRetry(input, maxRetries, attempt + 1);
-    }
-    throw error;
-  }
+export async function uploadEvidence(
+  incidentId: string,
+  fileUri: string,
+  kind: EvidenceKind,
+  contentType: string,
+  options: UploadEvidenceOptions = {}
+): Promise<string | null> {
+  const request = await uploadEvidenceFile(incidentId, fileUri, kind, contentType, options);
+
+  // Finalize (retried under the critical policy, then replayed from the outbox)
+  const finalizeResult = await queueEvidenceFinalize(request);
+
+  // Queued finalizes live in the outbox now, so the upload itself is done
+  await clearUploadState(fileUri);
+
+  return finalizeResult?.id ?? null;
 }
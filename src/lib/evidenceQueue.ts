@@ -0,0 +1,467 @@
+/**
+ * Persistent evidence queue
+ * Recorded evidence is moved into app storage and queued before any upload starts,
+ * so neither a failed upload nor the app being killed orphans it. Queued files are
+ * uploaded in the foreground and by a background task, and each file is deleted only
+ * once the server has confirmed its finalize. Local disk use is capped by evicting the
+ * oldest queued files. Duress evidence keeps uploading after its session is signed out,
+ * under the incident's saved credentials.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import {
+  EvidenceCapture,
+  EvidenceKind,
+  EvidenceSegment,
+  finalizeEvidence,
+  FinalizeRequest,
+  sha256File,
+  uploadEvidenceFile,
+} from './evidence';
+import { clearUploadState, getPendingUploads } from './upload';
+import { incidentRequestOptions, IncidentRequestOptions } from './interceptors';
+import { isRejected } from './outbox';
+import { computeBackoffDelay, RETRY_POLICIES, RetryPolicy } from './retry';
+import * as storage from './storage';
+import { loadEnvironment } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('evidenceQueue');
+
+/**
+ * Background task that uploads queued evidence
+ */
+export const EVIDENCE_UPLOAD_TASK = 'transrify-evidence-upload';
+
+/**
+ * Most local disk space queued evidence may use (500 MB)
+ */
+export const MAX_QUEUE_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Backoff between attempts at a queued file (30 seconds, doubling up to 30 minutes)
+ */
+const ATTEMPT_POLICY: RetryPolicy = {
+  ...RETRY_POLICIES.critical,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 30 * 60 * 1000,
+  jitterMs: 5000,
+};
+
+/**
+ * Shortest wait before a scheduled attempt
+ */
+const MIN_ATTEMPT_DELAY_MS = 1000;
+
+/**
+ * Minimum minutes between background runs (the OS may wait longer)
+ */
+const BACKGROUND_INTERVAL_MINUTES = 15;
+
+const QUEUE_FILE = `${FileSystem.documentDirectory ?? ''}evidence-queue.json`;
+const EVIDENCE_DIR = `${FileSystem.documentDirectory ?? ''}evidence/`;
+
+/**
+ * A queued evidence file
+ */
+export interface EvidenceQueueEntry {
+  id: string;
+  /** Profile whose session uploads the file (duress evidence: until that session ends) */
+  profileId: string | null;
+  fileUri: string;
+  incidentId: string;
+  kind: EvidenceKind;
+  contentType: string;
+  size: number;
+  /** Hash of the file as recorded */
+  sha256: string;
+  segment?: EvidenceSegment;
+  /** Capture time and location sent with the finalize */
+  capture?: EvidenceCapture;
+  /** Evidence of a duress incident, sent on any connection */
+  duress?: boolean;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Evidence to queue
+ */
+export interface EvidenceQueueRequest {
+  incidentId: string;
+  fileUri: string;
+  kind: EvidenceKind;
+  contentType: string;
+  /** Set for segments of a rolling recording */
+  segment?: EvidenceSegment;
+  /** Capture time and location sent with the finalize */
+  capture?: EvidenceCapture;
+  /** Set for evidence of a duress incident, which skips the upload gate */
+  duress?: boolean;
+}
+
+let lock: Promise<unknown> = Promise.resolve();
+let processing: Promise<number> | null = null;
+let attemptTimer: ReturnType<typeof setTimeout> | null = null;
+const inFlight = new Set<string>();
+
+/**
+ * Serialize read-modify-write cycles on the queue file
+ */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read the queue, oldest first
+ */
+export async function getEvidenceQueue(): Promise<EvidenceQueueEntry[]> {
+  try {
+    const info = await FileSystem.getInfoAsync(QUEUE_FILE);
+    if (!info.exists) {
+      return [];
+    }
+    const parsed = JSON.parse(await FileSystem.readAsStringAsync(QUEUE_FILE));
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (entry): entry is EvidenceQueueEntry =>
+            !!entry && typeof entry.id === 'string' && typeof entry.fileUri === 'string'
+        )
+      : [];
+  } catch (error) {
+    log.error('Failed to read evidence queue', error);
+    return [];
+  }
+}
+
+async function updateQueue(
+  change: (entries: EvidenceQueueEntry[]) => EvidenceQueueEntry[]
+): Promise<void> {
+  await withLock(async () => {
+    const entries = change(await getEvidenceQueue());
+    await FileSystem.writeAsStringAsync(QUEUE_FILE, JSON.stringify(entries));
+  });
+}
+
+/**
+ * Delete a queued file and forget it
+ */
+async function removeEntry(entry: EvidenceQueueEntry): Promise<void> {
+  await updateQueue((entries) => entries.filter((e) => e.id !== entry.id));
+  await clearUploadState(entry.fileUri);
+  await FileSystem.deleteAsync(entry.fileUri, { idempotent: true }).catch((error) => {
+    log.warn('Failed to delete evidence file', error);
+  });
+}
+
+/**
+ * Entries to evict so the queue fits MAX_QUEUE_BYTES, oldest first. Duress evidence, uploads in
+ * progress and the newest entry are never evicted, so the queue may stay over the cap.
+ */
+function entriesOverCap(entries: EvidenceQueueEntry[]): EvidenceQueueEntry[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: EvidenceQueueEntry[] = [];
+  const candidates = entries.slice(0, -1).filter((entry) => !entry.duress && !inFlight.has(entry.id));
+  for (const entry of candidates) {
+    if (total <= MAX_QUEUE_BYTES) {
+      break;
+    }
+    evicted.push(entry);
+    total -= entry.size;
+  }
+  return evicted;
+}
+
+/**
+ * Add an entry, evicting the oldest evictable files if the queue would exceed MAX_QUEUE_BYTES
+ */
+async function addEntry(entry: EvidenceQueueEntry): Promise<void> {
+  let evicted: EvidenceQueueEntry[] = [];
+  await updateQueue((entries) => {
+    const next = [...entries.filter((e) => e.fileUri !== entry.fileUri), entry];
+    evicted = entriesOverCap(next);
+    return next.filter((e) => !evicted.includes(e));
+  });
+
+  for (const dropped of evicted) {
+    log.warn('Evidence queue over disk cap, dropping oldest file', { kind: dropped.kind, size: dropped.size });
+    await clearUploadState(dropped.fileUri);
+    await FileSystem.deleteAsync(dropped.fileUri, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Build a new entry, due right away
+ */
+function createEntry(
+  request: EvidenceQueueRequest,
+  file: { fileUri: string; size: number; sha256: string },
+  id: string = createEntryId(request.kind)
+): EvidenceQueueEntry {
+  const now = Date.now();
+  return {
+    id,
+    profileId: storage.getActiveProfileId(),
+    incidentId: request.incidentId,
+    kind: request.kind,
+    contentType: request.contentType,
+    ...(request.segment && { segment: request.segment }),
+    ...(request.capture && { capture: request.capture }),
+    ...(request.duress && { duress: true }),
+    ...file,
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+}
+
+function createEntryId(kind: EvidenceKind): string {
+  return `${kind.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Move a recording out of the cache directory, which the OS may clear
+ */
+async function retainFile(fileUri: string, id: string): Promise<string> {
+  if (fileUri.startsWith(EVIDENCE_DIR)) {
+    return fileUri;
+  }
+
+  const extension = fileUri.match(/\.[A-Za-z0-9]+$/)?.[0] ?? '';
+  const retainedUri = `${EVIDENCE_DIR}${id}${extension}`;
+  await FileSystem.makeDirectoryAsync(EVIDENCE_DIR, { intermediates: true });
+  await FileSystem.moveAsync({ from: fileUri, to: retainedUri });
+  return retainedUri;
+}
+
+/**
+ * Queue an evidence file for upload
+ * The file is moved into app storage, hashed and persisted before the first attempt,
+ * which starts right away.
+ *
+ * @returns The queued entry
+ * @throws Error if the file does not exist or is too large
+ */
+export async function queueEvidence(request: EvidenceQueueRequest): Promise<EvidenceQueueEntry> {
+  const id = createEntryId(request.kind);
+  const sha256 = await sha256File(request.fileUri);
+  const fileUri = await retainFile(request.fileUri, id);
+  const info = await FileSystem.getInfoAsync(fileUri);
+
+  const entry = createEntry(request, { fileUri, size: info.exists ? info.size : 0, sha256 }, id);
+  await addEntry(entry);
+  log.info('Evidence queued', { kind: entry.kind, size: entry.size });
+
+  void processEvidenceQueue().catch(() => undefined);
+  return entry;
+}
+
+/**
+ * Back off before the next attempt at an entry
+ */
+async function retryLater(entry: EvidenceQueueEntry, error: unknown): Promise<void> {
+  const attempts = entry.attempts + 1;
+  const delay = computeBackoffDelay(ATTEMPT_POLICY, attempts) + Math.random() * ATTEMPT_POLICY.jitterMs;
+  log.warn('Evidence not delivered, will retry', { kind: entry.kind, attempts, error });
+  await updateQueue((entries) =>
+    entries.map((e) => (e.id === entry.id ? { ...e, attempts, nextAttemptAt: Date.now() + delay } : e))
+  );
+}
+
+/**
+ * Entries that can be sent now, each with the incident credentials to send it under
+ * Duress evidence whose session is gone (sign-out, another profile) is sent under its
+ * incident's saved credentials (auth); anything else only under its own profile's
+ * stored session (auth null).
+ */
+async function sendableEntries(): Promise<{ entry: EvidenceQueueEntry; auth: IncidentRequestOptions | null }[]> {
+  const profileId = storage.getActiveProfileId();
+  const hasSession = !!(await storage.getSessionId());
+  const sendable: { entry: EvidenceQueueEntry; auth: IncidentRequestOptions | null }[] = [];
+  for (const entry of await getEvidenceQueue()) {
+    const auth = entry.duress ? await incidentRequestOptions(entry.incidentId) : null;
+    if (auth || (hasSession && entry.profileId === profileId)) {
+      sendable.push({ entry, auth });
+    }
+  }
+  return sendable;
+}
+
+/**
+ * Upload and finalize one entry, removing it once the server confirms
+ */
+async function deliver(entry: EvidenceQueueEntry, auth: IncidentRequestOptions | null): Promise<void> {
+  inFlight.add(entry.id);
+  try {
+    const info = await FileSystem.getInfoAsync(entry.fileUri);
+    if (!info.exists) {
+      log.warn('Queued evidence file is missing, dropping', { kind: entry.kind });
+      await removeEntry(entry);
+      return;
+    }
+
+    // Upload failures (including refusals such as an expired URL) are always retried
+    let request: FinalizeRequest;
+    try {
+      request = await uploadEvidenceFile(entry.incidentId, entry.fileUri, entry.kind, entry.contentType, {
+        capture: entry.capture,
+        duress: entry.duress,
+        auth,
+      });
+    } catch (error) {
+      await retryLater(entry, error);
+      return;
+    }
+
+    try {
+      await finalizeEvidence(
+        {
+          ...request,
+          contentSha256: entry.sha256,
+          ...(entry.segment && {
+            segmentIndex: entry.segment.index,
+            previousSha256: entry.segment.previousSha256,
+          }),
+        },
+        auth
+      );
+    } catch (error) {
+      if (!isRejected(error)) {
+        await retryLater(entry, error);
+        return;
+      }
+      log.error('Evidence finalize rejected, dropping', { kind: entry.kind });
+      await removeEntry(entry);
+      return;
+    }
+
+    log.info('Evidence delivered', { kind: entry.kind, attempts: entry.attempts + 1 });
+    await removeEntry(entry);
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+/**
+ * Arm a timer for the earliest queued attempt
+ */
+async function scheduleAttempt(): Promise<void> {
+  if (attemptTimer) {
+    clearTimeout(attemptTimer);
+    attemptTimer = null;
+  }
+
+  const entries = await sendableEntries();
+  if (entries.length === 0) {
+    return;
+  }
+
+  const nextAttemptAt = Math.min(...entries.map(({ entry }) => entry.nextAttemptAt));
+  attemptTimer = setTimeout(() => {
+    attemptTimer = null;
+    void processEvidenceQueue().catch(() => undefined);
+  }, Math.max(MIN_ATTEMPT_DELAY_MS, nextAttemptAt - Date.now()));
+}
+
+/**
+ * Upload the due entries that can be sent now, oldest first
+ * Other profiles' entries wait for their sign-in, and so does evidence queued while
+ * signed out, except duress evidence with saved incident credentials.
+ *
+ * @param options.force - Attempt entries still inside their backoff window
+ * @returns Number of the active profile's entries and duress entries still queued
+ */
+export function processEvidenceQueue(options: { force?: boolean } = {}): Promise<number> {
+  if (!processing) {
+    processing = processDue(options.force ?? false).finally(() => {
+      processing = null;
+      void scheduleAttempt().catch(() => undefined);
+    });
+  }
+  return processing;
+}
+
+async function processDue(force: boolean): Promise<number> {
+  const now = Date.now();
+  for (const { entry, auth } of await sendableEntries()) {
+    if (force || entry.nextAttemptAt <= now) {
+      await deliver(entry, auth);
+    }
+  }
+
+  const profileId = storage.getActiveProfileId();
+  return (await getEvidenceQueue()).filter((entry) => entry.duress || entry.profileId === profileId).length;
+}
+
+/**
+ * Queue uploads interrupted by a restart that were not started from the queue
+ * (e.g. evidence uploaded from a screen), then process the queue
+ * @returns Number of entries still queued
+ */
+export async function resumeEvidenceQueue(): Promise<number> {
+  const queued = new Set((await getEvidenceQueue()).map((entry) => entry.fileUri));
+
+  for (const upload of await getPendingUploads()) {
+    if (queued.has(upload.fileUri)) {
+      continue;
+    }
+    try {
+      const info = await FileSystem.getInfoAsync(upload.fileUri);
+      if (!info.exists) {
+        log.warn('Dropping upload for missing file', { kind: upload.target.kind });
+        await clearUploadState(upload.fileUri);
+        continue;
+      }
+      const sha256 = await sha256File(upload.fileUri);
+      await addEntry(
+        createEntry({ ...upload.target, fileUri: upload.fileUri }, { fileUri: upload.fileUri, size: info.size, sha256 })
+      );
+    } catch (error) {
+      log.warn('Failed to queue interrupted upload', error);
+    }
+  }
+
+  return processEvidenceQueue({ force: true });
+}
+
+/**
+ * Background run: the app may have been started just for this, so restore the
+ * environment and active profile before touching the queue
+ */
+TaskManager.defineTask(EVIDENCE_UPLOAD_TASK, async () => {
+  try {
+    await loadEnvironment();
+    await storage.loadActiveProfileId();
+    const remaining = await processEvidenceQueue({ force: true });
+    log.info('Background evidence upload finished', { remaining });
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    log.error('Background evidence upload failed', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Schedule the background upload task (safe to call on every launch)
+ */
+export async function registerEvidenceUploadTask(): Promise<void> {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      log.warn('Background tasks unavailable; evidence uploads only in the foreground');
+      return;
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(EVIDENCE_UPLOAD_TASK))) {
+      await BackgroundTask.registerTaskAsync(EVIDENCE_UPLOAD_TASK, {
+        minimumInterval: BACKGROUND_INTERVAL_MINUTES,
+      });
+    }
+  } catch (error) {
+    log.warn('Failed to register background evidence upload', error);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Feature flags and runtime tunables
+ *
+ * Every flag resolves from three layers, later layers winning:
+ * 1. Defaults in DEFAULT_FLAGS
+ * 2. Build-time EXPO_PUBLIC_* environment variables
+ * 3. Remote values from the tenant config (`features`), fetched at login and
+ *    cached per profile, so ops can change them without shipping a build
+ *
+ * Flags listed in BUILD_ONLY_FLAGS can never be changed remotely.
+ */
+
+import { createLogger } from './logger';
+
+const log = createLogger('flags');
+
+/**
+ * All feature flags and tunables with their types
+ */
+export interface FeatureFlags {
+  // NFC alert confirmation (requires a Development Build)
+  nfcEnabled: boolean;
+  // Bluetooth/Wi-Fi snapshots as NEARBY duress evidence (requires a Development Build)
+  nearbyEvidenceEnabled: boolean;
+  // Use MockAuthAdapter instead of the Transrify API
+  useMockAuth: boolean;
+  // Radius for nearby duress alerts, in meters
+  alertRadiusMeters: number;
+  // Polling interval when the alerts WebSocket is unavailable, in milliseconds
+  alertPollIntervalMs: number;
+  // Still photos per duress photo round, alternating back and front
+  duressPhotoCount: number;
+  // Time between duress photo rounds, in milliseconds
+  duressPhotoIntervalMs: number;
+}
+
+export type FeatureFlagName = keyof FeatureFlags;
+
+/**
+ * Values used when neither the build nor the tenant sets a flag
+ */
+export const DEFAULT_FLAGS: Readonly<FeatureFlags> = {
+  nfcEnabled: false,
+  nearbyEvidenceEnabled: false,
+  useMockAuth: false,
+  alertRadiusMeters: 1000,
+  alertPollIntervalMs: 15000,
+  duressPhotoCount: 2,
+  duressPhotoIntervalMs: 60000,
+};
+
+/**
+ * Accepted range for numeric flags; values outside it are ignored
+ */
+const NUMERIC_FLAG_RANGES: Partial<Record<FeatureFlagName, [number, number]>> = {
+  alertRadiusMeters: [100, 10000],
+  // Faster polling runs into API rate limits
+  alertPollIntervalMs: [5000, Number.MAX_SAFE_INTEGER],
+  // 0 turns duress photos off; every photo delays the next video segment
+  duressPhotoCount: [0, 10],
+  duressPhotoIntervalMs: [1000, 60 * 60 * 1000],
+};
+
+/**
+ * Check a numeric flag value against its range
+ */
+function isInRange(name: FeatureFlagName, value: number): boolean {
+  const [min, max] = NUMERIC_FLAG_RANGES[name] ?? [1, Number.MAX_SAFE_INTEGER];
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Flags that only the build may set; remote values for these are ignored
+ */
+const BUILD_ONLY_FLAGS: readonly FeatureFlagName[] = ['useMockAuth'];
+
+/**
+ * Parse a boolean environment variable ('true' / 'false')
+ */
+function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Parse an integer environment variable within the flag's range
+ */
+function parseNumberEnv(name: FeatureFlagName, value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return isInRange(name, parsed) ? parsed : undefined;
+}
+
+/**
+ * Read build-time overrides
+ * Each variable is referenced literally so Expo can inline it at build time.
+ */
+function readEnvFlags(): Partial<FeatureFlags> {
+  const env: Partial<Record<FeatureFlagName, boolean | number | undefined>> = {
+    nfcEnabled: parseBooleanEnv(process.env.EXPO_PUBLIC_NFC_ENABLED),
+    nearbyEvidenceEnabled: parseBooleanEnv(process.env.EXPO_PUBLIC_NEARBY_EVIDENCE_ENABLED),
+    useMockAuth: parseBooleanEnv(process.env.EXPO_PUBLIC_USE_MOCK_AUTH),
+    alertRadiusMeters: parseNumberEnv('alertRadiusMeters', process.env.EXPO_PUBLIC_ALERT_RADIUS_METERS),
+    alertPollIntervalMs: parseNumberEnv('alertPollIntervalMs', process.env.EXPO_PUBLIC_ALERT_POLL_INTERVAL_MS),
+    duressPhotoCount: parseNumberEnv('duressPhotoCount', process.env.EXPO_PUBLIC_DURESS_PHOTO_COUNT),
+    duressPhotoIntervalMs: parseNumberEnv('duressPhotoIntervalMs', process.env.EXPO_PUBLIC_DURESS_PHOTO_INTERVAL_MS),
+  };
+  return Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== undefined)
+  ) as Partial<FeatureFlags>;
+}
+
+/**
+ * Keep only known, remotely changeable flags whose values have the default's type
+ * Numbers must be within the flag's range.
+ *
+ * @param remote - Untrusted values from the tenant config
+ * @returns Valid overrides
+ */
+export function sanitizeRemoteFlags(remote: unknown): Partial<FeatureFlags> {
+  if (!remote || typeof remote !== 'object') {
+    return {};
+  }
+
+  const overrides: Partial<Record<FeatureFlagName, boolean | number>> = {};
+  for (const [name, value] of Object.entries(remote as Record<string, unknown>)) {
+    if (!(name in DEFAULT_FLAGS) || BUILD_ONLY_FLAGS.includes(name as FeatureFlagName)) {
+      continue;
+    }
+    const expected = typeof DEFAULT_FLAGS[name as FeatureFlagName];
+    const valid = expected === 'number'
+      ? typeof value === 'number' && isInRange(name as FeatureFlagName, value)
+      : typeof value === expected;
+    if (valid) {
+      overrides[name as FeatureFlagName] = value as boolean | number;
+    } else {
+      log.warn('Ignoring invalid remote flag', { name });
+    }
+  }
+  return overrides as Partial<FeatureFlags>;
+}
+
+const envFlags = readEnvFlags();
+let flags: FeatureFlags = { ...DEFAULT_FLAGS, ...envFlags };
+const listeners = new Set<(flags: FeatureFlags) => void>();
+
+/**
+ * Current value of every flag
+ */
+export function getFlags(): Readonly<FeatureFlags> {
+  return flags;
+}
+
+/**
+ * Current value of one flag
+ */
+export function getFlag<K extends FeatureFlagName>(name: K): FeatureFlags[K] {
+  return flags[name];
+}
+
+/**
+ * Replace the remote layer (e.g. with a freshly resolved or cached tenant config)
+ * Pass undefined to drop back to defaults and build values.
+ *
+ * @param remote - Tenant config `features`, untrusted
+ * @returns The merged flags
+ */
+export function setRemoteFlags(remote: unknown): Readonly<FeatureFlags> {
+  flags = { ...DEFAULT_FLAGS, ...envFlags, ...sanitizeRemoteFlags(remote) };
+  log.info('Feature flags updated', { ...flags });
+  listeners.forEach((listener) => listener(flags));
+  return flags;
+}
+
+/**
+ * Get notified whenever the flags change
+ * @returns Unsubscribe function
+ */
+export function subscribeFlags(listener: (flags: FeatureFlags) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Built-in API client interceptors
+ * Cross-cutting concerns (correlation IDs, tenant, session and auth headers, request logging)
+ * registered once at app start instead of being patched into individual endpoints.
+ */
+
+import { ApiInterceptor, ApiRequestInit, registerInterceptor } from './api';
+import * as storage from './storage';
+import { getEnvironment } from '../config';
+import { createLogger, logPath } from './logger';
+
+const log = createLogger('api');
+
+/**
+ * Header names sent on every request
+ */
+export const API_HEADERS = {
+  REQUEST_ID: 'X-Request-Id',
+  TENANT_KEY: 'X-Tenant-Key',
+  SESSION_ID: 'X-Session-Id',
+  AUTHORIZATION: 'Authorization',
+} as const;
+
+/**
+ * Generate a random RFC 4122 version 4 identifier for request correlation
+ */
+export function createRequestId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+/**
+ * Attach an X-Request-Id header, reused across retries of the same request
+ */
+export const requestIdInterceptor: ApiInterceptor = {
+  name: 'requestId',
+  onRequest: (context) => {
+    if (typeof context.meta.requestId !== 'string') {
+      context.meta.requestId = createRequestId();
+    }
+    context.init.headers[API_HEADERS.REQUEST_ID] = context.meta.requestId as string;
+  },
+};
+
+/**
+ * Attach the tenant key from SecureStore, falling back to the configured default
+ * A tenant key set by the caller is kept (e.g. revoking a session whose data is already cleared).
+ */
+export const tenantInterceptor: ApiInterceptor = {
+  name: 'tenant',
+  onRequest: async (context) => {
+    if (context.init.headers[API_HEADERS.TENANT_KEY]) {
+      return;
+    }
+    const tenantKey = (await storage.getTenantKey()) ?? getEnvironment().defaultTenantKey;
+    context.init.headers[API_HEADERS.TENANT_KEY] = tenantKey;
+  },
+};
+
+/**
+ * Attach the current session ID when one is stored, unless the caller set one
+ */
+export const sessionInterceptor: ApiInterceptor = {
+  name: 'session',
+  onRequest: async (context) => {
+    if (context.init.headers[API_HEADERS.SESSION_ID]) {
+      return;
+    }
+    const sessionId = await storage.getSessionId();
+    if (sessionId) {
+      context.init.headers[API_HEADERS.SESSION_ID] = sessionId;
+    }
+  },
+};
+
+/**
+ * Attach the stored access token as a bearer token, unless the caller set one
+ * A request the caller sent for another session (its own session ID header) never gets
+ * the stored session's token. Read on every attempt, so a request replayed after a
+ * silent refresh uses the new token.
+ */
+export const authTokenInterceptor: ApiInterceptor = {
+  name: 'authToken',
+  onRequest: async (context) => {
+    if (context.init.headers[API_HEADERS.AUTHORIZATION] || context.init.headers[API_HEADERS.SESSION_ID]) {
+      return;
+    }
+    const accessToken = await storage.getAccessToken();
+    if (accessToken) {
+      context.init.headers[API_HEADERS.AUTHORIZATION] = `Bearer ${accessToken}`;
+    }
+  },
+};
+
+/**
+ * Request options that send a request under an incident's saved credentials
+ */
+export type IncidentRequestOptions = Pick<ApiRequestInit, 'headers' | 'skipAuthRefresh'>;
+
+/**
+ * Options for a request on behalf of an incident whose session is no longer stored
+ * (signed out, or another profile signed in). No silent refresh is attempted: the
+ * stored refresh token, if any, belongs to another session.
+ * @returns Options, or null when the incident's session is the stored one or nothing was saved
+ */
+export async function incidentRequestOptions(incidentId: string): Promise<IncidentRequestOptions | null> {
+  const credentials = await storage.getIncidentCredentials(incidentId);
+  if (!credentials || credentials.sessionId === (await storage.getSessionId())) {
+    return null;
+  }
+
+  return {
+    headers: {
+      [API_HEADERS.SESSION_ID]: credentials.sessionId,
+      ...(credentials.accessToken && { [API_HEADERS.AUTHORIZATION]: `Bearer ${credentials.accessToken}` }),
+      ...(credentials.tenantKey && { [API_HEADERS.TENANT_KEY]: credentials.tenantKey }),
+    },
+    skipAuthRefresh: true,
+  };
+}
+
+/**
+ * Log requests, responses and failures
+ * Headers and bodies go through the logger's redaction rules
+ */
+export const loggingInterceptor: ApiInterceptor = {
+  name: 'logging',
+  onRequest: (context) => {
+    log.debug(`${context.init.method || 'GET'} ${logPath(context.path)}`, {
+      requestId: context.meta.requestId,
+      attempt: context.attempt,
+      headers: context.init.headers,
+      body: context.init.body,
+    });
+  },
+  onResponse: (context) => {
+    log.debug(`${context.response.status} ${logPath(context.path)}`, {
+      requestId: context.meta.requestId,
+      durationMs: context.durationMs,
+    });
+  },
+  onError: (error, context) => {
+    log.warn('Request failed', {
+      path: logPath(context.path),
+      status: error.status,
+      code: error.code,
+      requestId: context.meta.requestId,
+      attempt: context.attempt,
+    });
+  },
+};
+
+/**
+ * Register the default interceptor chain
+ * Logging is registered last so it sees the fully decorated request on the way out
+ * and the raw outcome first on the way back. Safe to call more than once.
+ */
+export function installApiInterceptors(): void {
+  registerInterceptor(requestIdInterceptor);
+  registerInterceptor(tenantInterceptor);
+  registerInterceptor(sessionInterceptor);
+  registerInterceptor(authTokenInterceptor);
+  registerInterceptor(loggingInterceptor);
+}
@@ -0,0 +1,231 @@
+/**
+ * Structured logger
+ * Leveled, namespaced logging with redaction of secrets and location precision.
+ * Every record passes through the redaction rules before it reaches a sink, so
+ * PINs, tenant keys, session IDs and precise coordinates never reach the console
+ * or any crash-reporting sink.
+ */
+
+/**
+ * Log levels in increasing severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * A single redacted log entry
+ */
+export interface LogRecord {
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data: unknown[];
+  timestamp: string;
+}
+
+/**
+ * Destination for log records
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Redaction rule applied to every object key that matches (case-insensitive)
+ */
+export interface RedactionRule {
+  keys: string[];
+  redact: (value: unknown) => unknown;
+}
+
+/**
+ * Decimal places kept for coordinates (2 places is roughly 1 km)
+ */
+export const GEO_LOG_PRECISION = 2;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Keep only the last 4 characters of an identifier
+ */
+function maskTail(value: unknown): unknown {
+  if (typeof value !== 'string' || value.length === 0) {
+    return value;
+  }
+  return value.length <= 4 ? REDACTED : `…${value.slice(-4)}`;
+}
+
+/**
+ * Round a coordinate to GEO_LOG_PRECISION decimal places
+ */
+function coarsenCoordinate(value: unknown): unknown {
+  if (typeof value !== 'number') {
+    return value;
+  }
+  const factor = Math.pow(10, GEO_LOG_PRECISION);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Default redaction rule set
+ * - secrets (PIN, tenant key, tokens) are removed entirely
+ * - session identifiers keep their last 4 characters for correlation
+ * - coordinates are coarsened to about 1 km
+ */
+export const REDACTION_RULES: RedactionRule[] = [
+  {
+    keys: ['pin', 'tenantKey', 'x-tenant-key', 'accessToken', 'refreshToken', 'token', 'authorization'],
+    redact: () => REDACTED,
+  },
+  {
+    keys: ['sessionId', 'x-session-id'],
+    redact: maskTail,
+  },
+  {
+    keys: ['lat', 'lng', 'latitude', 'longitude'],
+    redact: coarsenCoordinate,
+  },
+];
+
+/**
+ * API path safe for logging: the query string is dropped, since it can carry session
+ * IDs and precise coordinates that key-based redaction never sees
+ * @param path - Requested path, e.g. '/v1/alerts/nearby?lat=…&lng=…'
+ * @returns Path without its query, e.g. '/v1/alerts/nearby'
+ */
+export function logPath(path: string): string {
+  const index = path.indexOf('?');
+  return index === -1 ? path : path.slice(0, index);
+}
+
+const ruleByKey = new Map<string, RedactionRule>(
+  REDACTION_RULES.flatMap((rule) => rule.keys.map((key) => [key.toLowerCase(), rule] as const))
+);
+
+/**
+ * Apply the redaction rules to a value
+ * Objects and arrays are copied recursively; JSON strings (e.g. request bodies) are parsed first.
+ * @param value - Value to redact
+ * @returns Redacted copy safe for logging
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (depth > 8) {
+    return '[Truncated]';
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return redact(JSON.parse(trimmed), depth);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+  if (value instanceof Error) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => {
+        const rule = ruleByKey.get(key.toLowerCase());
+        return [key, rule ? rule.redact(v) : redact(v, depth + 1)];
+      })
+    );
+  }
+  return value;
+}
+
+/**
+ * Write records to the console using the matching console method
+ */
+export const consoleSink: LogSink = (record) => {
+  const prefix = `[${record.namespace}] ${record.message}`;
+  switch (record.level) {
+    case 'error':
+      console.error(prefix, ...record.data);
+      break;
+    case 'warn':
+      console.warn(prefix, ...record.data);
+      break;
+    default:
+      console.log(prefix, ...record.data);
+  }
+};
+
+/**
+ * Release-mode sink: drops debug output and forwards everything else to the console
+ */
+export const releaseSink: LogSink = (record) => {
+  if (record.level === 'debug') {
+    return;
+  }
+  consoleSink(record);
+};
+
+let activeSink: LogSink = typeof __DEV__ !== 'undefined' && __DEV__ ? consoleSink : releaseSink;
+let minLevel: LogLevel = 'debug';
+
+/**
+ * Replace the active sink (e.g. to forward to crash reporting or capture in tests)
+ */
+export function setLogSink(sink: LogSink): void {
+  activeSink = sink;
+}
+
+/**
+ * Drop records below the given level before they reach the sink
+ */
+export function setMinLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+/**
+ * Namespaced logger
+ */
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+/**
+ * Create a logger for a module
+ * @param namespace - Module name shown in every record (e.g., 'api', 'LoginScreen')
+ *
+ * @example
+ * ```typescript
+ * const log = createLogger('auth');
+ * log.info('Login request sent', { customerRef, sessionId });
+ * ```
+ */
+export function createLogger(namespace: string): Logger {
+  const write = (level: LogLevel, message: string, data: unknown[]) => {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[minLevel]) {
+      return;
+    }
+    activeSink({
+      level,
+      namespace,
+      message,
+      data: data.map((item) => redact(item)),
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  return {
+    debug: (message, ...data) => write('debug', message, data),
+    info: (message, ...data) => write('info', message, data),
+    warn: (message, ...data) => write('warn', message, data),
+    error: (message, ...data) => write('error', message, data),
+  };
+}
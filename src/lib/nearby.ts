@@ -0,0 +1,259 @@
+/**
+ * Nearby environment snapshots (NEARBY evidence)
+ *
+ * During duress, scans for nearby Bluetooth LE advertisers and Wi-Fi networks and
+ * queues what was seen for upload as a JSON document, giving investigators proximity context
+ * about who or what was near the device.
+ *
+ * Identifiers (device IDs, names, BSSIDs, SSIDs) are hashed with the incident ID
+ * before they leave the device: a known device can be matched against the snapshot,
+ * but the snapshot cannot be used to track devices across incidents.
+ *
+ * The scanners are native modules that need a Development Build, so the collector
+ * is behind the nearbyEvidenceEnabled flag; without them a source is reported as
+ * unavailable. Permissions are only checked, never requested, so nothing appears on
+ * screen during duress.
+ * Both scans are Android only: iOS offers no API for Wi-Fi scanning, and on iOS the
+ * Bluetooth manager cannot be created (not even to check authorization) without
+ * risking the system's Bluetooth permission or power alert.
+ */
+
+import { Permission, PermissionsAndroid, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { BleManager, State } from 'react-native-ble-plx';
+import WifiManager from 'react-native-wifi-reborn';
+import { sha256String } from './evidence';
+import { queueEvidence } from './evidenceQueue';
+import { getFlag } from './flags';
+import { getCurrentLocation } from './geo';
+import { createLogger } from './logger';
+
+const log = createLogger('nearby');
+
+/**
+ * How long to listen for Bluetooth advertisements (10 seconds)
+ */
+export const NEARBY_SCAN_MS = 10 * 1000;
+
+/**
+ * A Bluetooth LE advertiser seen during the scan
+ */
+export interface NearbyBleDevice {
+  /** Hashed device MAC address */
+  id: string;
+  /** Hashed advertised name, if any */
+  name: string | null;
+  rssi: number | null;
+  /** ISO 8601 time the device was first seen */
+  seenAt: string;
+}
+
+/**
+ * A Wi-Fi network from the scan results
+ */
+export interface NearbyWifiNetwork {
+  /** Hashed access point MAC address */
+  bssid: string;
+  /** Hashed network name, if broadcast */
+  ssid: string | null;
+  rssi: number;
+  frequency: number;
+}
+
+/**
+ * Snapshot uploaded as NEARBY evidence
+ * A source that could not be scanned has available set to false, so an empty list
+ * means nothing was in range.
+ */
+export interface NearbySnapshot {
+  version: 1;
+  incidentId: string;
+  /** ISO 8601 time the scan started */
+  capturedAt: string;
+  platform: string;
+  scanMs: number;
+  ble: { available: boolean; devices: NearbyBleDevice[] };
+  wifi: { available: boolean; networks: NearbyWifiNetwork[] };
+}
+
+interface SeenBleDevice {
+  id: string;
+  name: string | null;
+  rssi: number | null;
+  seenAt: number;
+}
+
+/**
+ * Hash an identifier with the incident ID
+ */
+function hashIdentifier(incidentId: string, value: string): Promise<string> {
+  return sha256String(`${incidentId}:${value}`);
+}
+
+/**
+ * Check Android runtime permissions without asking for them
+ */
+async function hasAndroidPermissions(permissions: Permission[]): Promise<boolean> {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+  const results = await Promise.all(permissions.map((permission) => PermissionsAndroid.check(permission)));
+  return results.every(Boolean);
+}
+
+/**
+ * Listen for Bluetooth LE advertisements (Android only)
+ * @returns Devices seen, or null if Bluetooth cannot be scanned
+ */
+async function scanBle(durationMs: number): Promise<SeenBleDevice[] | null> {
+  // Creating a BleManager on iOS may show the Bluetooth permission or power alert
+  if (Platform.OS !== 'android') {
+    return null;
+  }
+  const bluetoothPermissions = Platform.OS === 'android' && Number(Platform.Version) >= 31
+    ? [PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN]
+    : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+  if (!(await hasAndroidPermissions(bluetoothPermissions))) {
+    log.warn('Bluetooth scan permission not granted');
+    return null;
+  }
+
+  const manager = new BleManager();
+  try {
+    const state = await manager.state();
+    if (state !== State.PoweredOn) {
+      log.warn('Bluetooth unavailable', { state });
+      return null;
+    }
+
+    const devices = new Map<string, SeenBleDevice>();
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, durationMs);
+      manager.startDeviceScan(null, { allowDuplicates: false }, (error, device) => {
+        if (error) {
+          log.warn('Bluetooth scan failed', error);
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        if (device && !devices.has(device.id)) {
+          devices.set(device.id, {
+            id: device.id,
+            name: device.localName ?? device.name ?? null,
+            rssi: device.rssi ?? null,
+            seenAt: Date.now(),
+          });
+        }
+      });
+    });
+    await manager.stopDeviceScan();
+    return [...devices.values()];
+  } finally {
+    await manager.destroy();
+  }
+}
+
+/**
+ * Read the Wi-Fi networks in range (Android only)
+ * @returns Scan results, or null if Wi-Fi cannot be scanned
+ */
+async function scanWifi() {
+  if (Platform.OS !== 'android') {
+    return null;
+  }
+  if (!(await hasAndroidPermissions([PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION]))) {
+    log.warn('Wi-Fi scan permission not granted');
+    return null;
+  }
+
+  // Android throttles scans; fall back to the last results when a new scan is refused
+  return WifiManager.reScanAndLoadWifiList().catch(() => WifiManager.loadWifiList());
+}
+
+/**
+ * Scan the device's surroundings
+ * Each source is scanned independently; one failing does not affect the other.
+ *
+ * @param incidentId - Incident the snapshot belongs to; also salts the hashes
+ * @returns Snapshot with hashed identifiers
+ */
+export async function scanNearby(incidentId: string): Promise<NearbySnapshot> {
+  const capturedAt = new Date().toISOString();
+
+  const [ble, wifi] = await Promise.all([
+    scanBle(NEARBY_SCAN_MS).catch((error) => {
+      log.warn('Bluetooth scan unavailable', error);
+      return null;
+    }),
+    scanWifi().catch((error) => {
+      log.warn('Wi-Fi scan unavailable', error);
+      return null;
+    }),
+  ]);
+
+  const devices = await Promise.all(
+    (ble ?? []).map(async (device) => ({
+      id: await hashIdentifier(incidentId, device.id),
+      name: device.name ? await hashIdentifier(incidentId, device.name) : null,
+      rssi: device.rssi,
+      seenAt: new Date(device.seenAt).toISOString(),
+    }))
+  );
+  const networks = await Promise.all(
+    (wifi ?? []).map(async (network) => ({
+      bssid: await hashIdentifier(incidentId, network.BSSID.toLowerCase()),
+      ssid: network.SSID ? await hashIdentifier(incidentId, network.SSID) : null,
+      rssi: network.level,
+      frequency: network.frequency,
+    }))
+  );
+
+  return {
+    version: 1,
+    incidentId,
+    capturedAt,
+    platform: Platform.OS,
+    scanMs: NEARBY_SCAN_MS,
+    ble: { available: ble !== null, devices },
+    wifi: { available: wifi !== null, networks },
+  };
+}
+
+/**
+ * Scan the surroundings and queue the snapshot for upload as NEARBY evidence
+ * Never throws: failures are logged without revealing duress state to the user.
+ *
+ * @param incidentId - Incident ID for evidence linkage
+ * @returns Queue entry ID, or null if disabled or failed
+ */
+export async function captureNearbyEvidence(incidentId: string): Promise<string | null> {
+  if (!getFlag('nearbyEvidenceEnabled')) {
+    return null;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}nearby-${Date.now()}.json`;
+  try {
+    const snapshot = await scanNearby(incidentId);
+    log.info('Nearby snapshot taken', {
+      ble: snapshot.ble.devices.length,
+      wifi: snapshot.wifi.networks.length,
+    });
+
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(snapshot));
+    const geo = await getCurrentLocation().catch(() => undefined);
+    const entry = await queueEvidence({
+      incidentId,
+      fileUri,
+      kind: 'NEARBY',
+      contentType: 'application/json',
+      capture: { capturedAt: snapshot.capturedAt, ...(geo && { geo }) },
+      duress: true,
+    });
+    return entry.id;
+  } catch (error) {
+    log.error('Failed to capture nearby evidence', error);
+    // The queue owns the file once it is queued
+    await FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => undefined);
+    return null;
+  }
+}
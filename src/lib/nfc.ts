@@ -4,15 +4,23 @@
  * This module provides NFC functionality stubs that are compatible with Expo Go.
  * NFC features require a Development Build and will not work in Expo Go.
  * 
- * The module is feature-flagged via EXPO_PUBLIC_NFC_ENABLED environment variable.
- * When disabled (default), all NFC functions will throw descriptive errors.
+ * The module is feature-flagged via the nfcEnabled flag (EXPO_PUBLIC_NFC_ENABLED or
+ * the tenant's remote config). When disabled (default), all NFC functions will throw
+ * descriptive errors.
  */
 
+import { getFlag, subscribeFlags } from './flags';
+
 /**
- * Check if NFC is enabled via environment configuration
+ * Check if NFC is enabled via the nfcEnabled feature flag
  * NFC requires a Development Build and cannot run in Expo Go
  */
-export const isNfcAvailable = process.env.EXPO_PUBLIC_NFC_ENABLED === 'true';
+export let isNfcAvailable = getFlag('nfcEnabled');
+
+// Follow remote flag changes
+subscribeFlags((flags) => {
+  isNfcAvailable = flags.nfcEnabled;
+});
 
 /**
  * Error message for NFC operations in Expo Go
@@ -20,7 +28,7 @@ export const isNfcAvailable = process.env.EXPO_PUBLIC_NFC_ENABLED === 'true';
 const NFC_UNAVAILABLE_ERROR = 
   'NFC functionality requires a Development Build and is not available in Expo Go. ' +
   'To use NFC features, create a Development Build with expo-nfc or react-native-nfc-manager. ' +
-  'Set EXPO_PUBLIC_NFC_ENABLED=true in your environment configuration after building.';
+  'Set EXPO_PUBLIC_NFC_ENABLED=true or enable nfcEnabled in the tenant config after building.';
 
 /**
  * Start NFC reader mode to detect nearby NFC tags
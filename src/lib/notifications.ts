@@ -6,6 +6,9 @@
 import * as Notifications from 'expo-notifications';
 import * as Haptics from 'expo-haptics';
 import { Platform } from 'react-native';
+import { createLogger } from './logger';
+
+const log = createLogger('notifications');
 
 /**
  * Configure default notification behavior
@@ -46,7 +49,7 @@ export async function getPushToken(): Promise<string | null> {
     const token = await Notifications.getExpoPushTokenAsync();
     return token.data;
   } catch (error) {
-    console.warn('Failed to get push token:', error);
+    log.warn('Failed to get push token', error);
     return null;
   }
 }
@@ -78,7 +81,7 @@ export async function triggerAlertHaptic(): Promise<void> {
   try {
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
   } catch (error) {
-    console.warn('Haptic feedback unavailable:', error);
+    log.warn('Haptic feedback unavailable', error);
   }
 }
 
@@ -0,0 +1,321 @@
+/**
+ * Outbox for critical requests
+ * Duress alerts, alert acknowledgments and evidence finalization are written to
+ * a file in app storage before they are sent and replayed with backoff until the server accepts
+ * them, across app restarts. Every attempt carries the entry's idempotency key, so
+ * however often an entry is replayed the server acts on it once.
+ * Entries that belong to an incident are replayed under the incident's saved credentials
+ * once its session is gone, so a duress alert queued offline is still sent after sign-out
+ * or a profile switch.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { api } from './api';
+import { ApiError } from './errors';
+import { incidentRequestOptions, IncidentRequestOptions } from './interceptors';
+import { computeBackoffDelay, RETRY_POLICIES, RetryPolicy, RetryPolicyName } from './retry';
+import * as storage from './storage';
+import { createLogger } from './logger';
+import { OutboxEntry, OutboxKind } from '../types';
+
+const log = createLogger('outbox');
+
+/**
+ * Maximum queued entries per profile; when full, the oldest non-duress entry is dropped
+ */
+const MAX_OUTBOX_ENTRIES = 20;
+
+/**
+ * Backoff between replays of a queued entry (5 seconds, doubling up to 5 minutes)
+ */
+const REPLAY_POLICY: RetryPolicy = {
+  ...RETRY_POLICIES.critical,
+  baseDelayMs: 5000,
+  maxDelayMs: 5 * 60 * 1000,
+  jitterMs: 1000,
+};
+
+/**
+ * Shortest wait before a scheduled replay
+ */
+const MIN_REPLAY_DELAY_MS = 1000;
+
+const OUTBOX_FILE = `${FileSystem.documentDirectory ?? ''}outbox.json`;
+
+/**
+ * A request to deliver through the outbox
+ */
+export interface OutboxRequest {
+  kind: OutboxKind;
+  path: string;
+  body: unknown;
+  /** Stable across replays; a request already queued under this key is not queued again */
+  idempotencyKey: string;
+  /** Retry policy for the immediate attempt; replays rely on the outbox backoff instead */
+  retry: RetryPolicyName;
+  /** Incident the request belongs to (see OutboxEntry.incidentId) */
+  incidentId?: string;
+}
+
+let lock: Promise<unknown> = Promise.resolve();
+let flushing: Promise<number> | null = null;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+const inFlight = new Set<string>();
+
+/**
+ * Serialize read-modify-write cycles on the outbox file
+ */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read every profile's queued entries, oldest first
+ */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const info = await FileSystem.getInfoAsync(OUTBOX_FILE);
+    if (!info.exists) {
+      return [];
+    }
+    const parsed = JSON.parse(await FileSystem.readAsStringAsync(OUTBOX_FILE));
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (entry): entry is OutboxEntry =>
+            !!entry &&
+            typeof entry.key === 'string' &&
+            typeof entry.path === 'string' &&
+            typeof entry.body === 'string'
+        )
+      : [];
+  } catch (error) {
+    log.error('Failed to read outbox', error);
+    return [];
+  }
+}
+
+/**
+ * Queued entries of the active profile, the only ones its session may send
+ */
+async function ownEntries(): Promise<OutboxEntry[]> {
+  const profileId = storage.getActiveProfileId();
+  return (await getOutbox()).filter((entry) => entry.profileId === profileId);
+}
+
+/**
+ * Queued entries that can be sent now, with the credentials to send them under
+ * An incident's entries go out under its saved credentials once its session is gone;
+ * the rest need their profile's stored session.
+ */
+async function sendableEntries(): Promise<{ entry: OutboxEntry; auth: IncidentRequestOptions | null }[]> {
+  const profileId = storage.getActiveProfileId();
+  const hasSession = !!(await storage.getSessionId());
+  const sendable: { entry: OutboxEntry; auth: IncidentRequestOptions | null }[] = [];
+  for (const entry of await getOutbox()) {
+    const auth = entry.incidentId ? await incidentRequestOptions(entry.incidentId) : null;
+    if (auth || (hasSession && entry.profileId === profileId)) {
+      sendable.push({ entry, auth });
+    }
+  }
+  return sendable;
+}
+
+async function updateOutbox(change: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+  await withLock(async () => {
+    const entries = change(await getOutbox());
+    await FileSystem.writeAsStringAsync(OUTBOX_FILE, JSON.stringify(entries));
+  });
+}
+
+/**
+ * Statuses that refuse the credentials rather than the request; a replay under a
+ * refreshed or new session can still succeed
+ */
+const AUTH_STATUSES = [401, 403];
+
+/**
+ * Whether the server refused the request itself, so replaying it cannot succeed
+ * Network errors, 5xx, 408 and 429 are transient and keep the entry queued, as do
+ * 401 and 403.
+ */
+export function isRejected(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    !REPLAY_POLICY.retryOnStatus.includes(error.status) &&
+    !AUTH_STATUSES.includes(error.status)
+  );
+}
+
+/**
+ * Enforce MAX_OUTBOX_ENTRIES for a profile, keeping duress alerts for as long as possible
+ */
+function trimOutbox(entries: OutboxEntry[], profileId: string | null): OutboxEntry[] {
+  const next = [...entries];
+  const own = () => next.filter((entry) => entry.profileId === profileId);
+  while (own().length > MAX_OUTBOX_ENTRIES) {
+    const dropped = own().find((entry) => entry.kind !== 'DURESS_ALERT') ?? own()[0];
+    next.splice(next.indexOf(dropped), 1);
+    log.warn('Outbox full, dropping oldest entry', { kind: dropped.kind });
+  }
+  return next;
+}
+
+/**
+ * Remove a delivered or rejected entry, or schedule the next replay of a failed one
+ */
+async function settle(entry: OutboxEntry, error?: unknown): Promise<void> {
+  try {
+    await updateOutbox((entries) =>
+      error === undefined || isRejected(error)
+        ? entries.filter((e) => e.key !== entry.key)
+        : entries.map((e) => {
+            if (e.key !== entry.key) return e;
+            const attempts = e.attempts + 1;
+            const delay = computeBackoffDelay(REPLAY_POLICY, attempts) + Math.random() * REPLAY_POLICY.jitterMs;
+            return { ...e, attempts, nextAttemptAt: Date.now() + delay };
+          })
+    );
+  } catch (storageError) {
+    log.error('Failed to update outbox', storageError);
+  }
+}
+
+/**
+ * Send one entry and record the outcome
+ * @returns The response, or null if the entry is still queued
+ * @throws ApiError if the server rejected the entry (it is dropped)
+ */
+async function deliver<T>(
+  entry: OutboxEntry,
+  retry: RetryPolicyName,
+  auth: IncidentRequestOptions | null
+): Promise<T | null> {
+  inFlight.add(entry.key);
+  try {
+    const response = await api<T>(entry.path, {
+      method: 'POST',
+      body: entry.body,
+      retry,
+      idempotencyKey: entry.key,
+      ...auth,
+    });
+    log.info('Outbox entry delivered', { kind: entry.kind, attempts: entry.attempts + 1 });
+    await settle(entry);
+    return response;
+  } catch (error) {
+    await settle(entry, error);
+    if (isRejected(error)) {
+      log.warn('Outbox entry rejected, dropping', { kind: entry.kind, status: (error as ApiError).status });
+      throw error;
+    }
+    log.warn('Outbox entry not delivered, will retry', { kind: entry.kind, attempts: entry.attempts + 1 });
+    return null;
+  } finally {
+    inFlight.delete(entry.key);
+  }
+}
+
+/**
+ * Arm a timer for the earliest queued replay
+ */
+async function scheduleReplay(): Promise<void> {
+  if (replayTimer) {
+    clearTimeout(replayTimer);
+    replayTimer = null;
+  }
+
+  // Entries that wait for a session are flushed by the next sign-in
+  const entries = await sendableEntries();
+  if (entries.length === 0) {
+    return;
+  }
+
+  // Entries still in flight are due but skipped, so never spin on a zero delay
+  const nextAttemptAt = Math.min(...entries.map(({ entry }) => entry.nextAttemptAt));
+  replayTimer = setTimeout(() => {
+    replayTimer = null;
+    void flushOutbox();
+  }, Math.max(MIN_REPLAY_DELAY_MS, nextAttemptAt - Date.now()));
+}
+
+/**
+ * Queue a request and try to send it right away
+ * The entry is persisted before the first attempt, so it is replayed even if the
+ * app is killed mid-request.
+ *
+ * @returns The response if delivered now, or null if queued for replay
+ * @throws ApiError if the server rejected the request, which is then not replayed
+ */
+export async function enqueue<T>(request: OutboxRequest): Promise<T | null> {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    key: request.idempotencyKey,
+    profileId: storage.getActiveProfileId(),
+    ...(request.incidentId && { incidentId: request.incidentId }),
+    kind: request.kind,
+    path: request.path,
+    body: JSON.stringify(request.body),
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+
+  let duplicate = false;
+  try {
+    await updateOutbox((entries) => {
+      duplicate = entries.some((e) => e.key === entry.key);
+      return duplicate ? entries : trimOutbox([...entries, entry], entry.profileId);
+    });
+  } catch (error) {
+    // Still send now; only the replay is lost
+    log.error('Failed to persist outbox entry', error);
+  }
+
+  if (duplicate || inFlight.has(entry.key)) {
+    log.debug('Outbox entry already queued', { kind: entry.kind });
+    return null;
+  }
+
+  try {
+    const auth = entry.incidentId ? await incidentRequestOptions(entry.incidentId) : null;
+    return await deliver<T>(entry, request.retry, auth);
+  } finally {
+    void scheduleReplay().catch(() => undefined);
+  }
+}
+
+/**
+ * Replay the queued entries that can be sent now, oldest first
+ * The active profile's entries need a stored session: without one the requests would
+ * be refused, so they wait for their profile's next sign-in. An incident's entries are
+ * replayed under its saved credentials whatever the current session.
+ *
+ * @param options.force - Replay entries still inside their backoff window (app start,
+ *   connectivity regained)
+ * @returns Number of the active profile's entries still queued
+ */
+export function flushOutbox(options: { force?: boolean } = {}): Promise<number> {
+  if (!flushing) {
+    flushing = replayDue(options.force ?? false).finally(() => {
+      flushing = null;
+      void scheduleReplay().catch(() => undefined);
+    });
+  }
+  return flushing;
+}
+
+async function replayDue(force: boolean): Promise<number> {
+  const now = Date.now();
+  for (const { entry, auth } of await sendableEntries()) {
+    if (!inFlight.has(entry.key) && (force || entry.nextAttemptAt <= now)) {
+      // Rejections are logged and dropped by deliver
+      await deliver(entry, 'none', auth).catch(() => undefined);
+    }
+  }
+
+  return (await ownEntries()).length;
+}
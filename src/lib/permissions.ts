@@ -14,6 +14,9 @@ import * as Location from 'expo-location';
 import * as Notifications from 'expo-notifications';
 import { Platform, Alert } from 'react-native';
 import * as storage from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('permissions');
 
 // Storage keys for permission status
 const PERMISSION_KEYS = {
@@ -52,7 +55,7 @@ async function markLocationPermissionRequested(): Promise<void> {
   try {
     await storage.setItem(PERMISSION_KEYS.LOCATION_REQUESTED, 'true');
   } catch (error) {
-    console.warn('Failed to mark location permission as requested:', error);
+    log.warn('Failed to mark location permission as requested', error);
   }
 }
 
@@ -63,7 +66,7 @@ async function markNotificationPermissionRequested(): Promise<void> {
   try {
     await storage.setItem(PERMISSION_KEYS.NOTIFICATION_REQUESTED, 'true');
   } catch (error) {
-    console.warn('Failed to mark notification permission as requested:', error);
+    log.warn('Failed to mark notification permission as requested', error);
   }
 }
 
@@ -113,14 +116,14 @@ export async function requestLocationPermission(): Promise<boolean> {
     
     // Handle permission result
     if (status === 'granted') {
-      console.log('✅ Location permission granted');
+      log.info('Location permission granted');
       return true;
     } else {
-      console.warn('⚠️ Location permission denied - alert features will be limited');
+      log.warn('Location permission denied, alert features will be limited');
       return false;
     }
   } catch (error) {
-    console.error('Failed to request location permission:', error);
+    log.error('Failed to request location permission', error);
     // Mark as requested even on error to avoid repeated prompts
     await markLocationPermissionRequested();
     return false;
@@ -179,7 +182,7 @@ export async function requestNotificationPermission(): Promise<boolean> {
     
     // Handle permission result
     if (status === 'granted') {
-      console.log('✅ Notification permission granted');
+      log.info('Notification permission granted');
       
       // Configure Android notification channel
       if (Platform.OS === 'android') {
@@ -188,11 +191,11 @@ export async function requestNotificationPermission(): Promise<boolean> {
       
       return true;
     } else {
-      console.warn('⚠️ Notification permission denied - background alerts will not work');
+      log.warn('Notification permission denied, background alerts will not work');
       return false;
     }
   } catch (error) {
-    console.error('Failed to request notification permission:', error);
+    log.error('Failed to request notification permission', error);
     // Mark as requested even on error to avoid repeated prompts
     await markNotificationPermissionRequested();
     return false;
@@ -216,7 +219,7 @@ async function configureAndroidNotificationChannel(): Promise<void> {
       description: 'Critical alerts for nearby duress situations',
     });
   } catch (error) {
-    console.warn('Failed to configure Android notification channel:', error);
+    log.warn('Failed to configure Android notification channel', error);
   }
 }
 
@@ -254,7 +257,7 @@ export async function checkAlertPermissions(): Promise<boolean> {
     
     return locationStatus === 'granted' && notificationStatus === 'granted';
   } catch (error) {
-    console.error('Failed to check alert permissions:', error);
+    log.error('Failed to check alert permissions', error);
     return false;
   }
 }
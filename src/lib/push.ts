@@ -5,6 +5,9 @@
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import { createLogger } from './logger';
+
+const log = createLogger('push');
 
 /**
  * Register for push notifications
@@ -25,7 +28,7 @@ export async function registerForPushNotifications(): Promise<boolean> {
 
     // Handle permission denial gracefully
     if (finalStatus !== 'granted') {
-      console.warn('Push notification permissions denied');
+      log.warn('Push notification permissions denied');
       return false;
     }
 
@@ -46,7 +49,7 @@ export async function registerForPushNotifications(): Promise<boolean> {
 
     return true;
   } catch (error) {
-    console.error('Failed to register for push notifications:', error);
+    log.error('Failed to register for push notifications', error);
     return false;
   }
 }
@@ -61,7 +64,7 @@ export async function getPushTokenAsync(): Promise<string | null> {
     const tokenData = await Notifications.getExpoPushTokenAsync();
     return tokenData.data;
   } catch (error) {
-    console.warn('Failed to get push token:', error);
+    log.warn('Failed to get push token', error);
     return null;
   }
 }
@@ -0,0 +1,278 @@
+/**
+ * Retry policy engine
+ * Decides whether a failed request may be retried and how long to wait before the next attempt.
+ * Used by the API client and by evidence uploads so every call shares one set of rules.
+ */
+
+import { ApiError } from './errors';
+
+/**
+ * Backoff curve used between attempts
+ */
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
+
+/**
+ * Declarative retry policy
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 = never retry) */
+  maxAttempts: number;
+  /** Backoff curve applied to baseDelayMs */
+  backoff: BackoffStrategy;
+  /** Delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including Retry-After */
+  maxDelayMs: number;
+  /** Random jitter added to each computed delay (0 to jitterMs) */
+  jitterMs: number;
+  /** HTTP statuses that may be retried */
+  retryOnStatus: readonly number[];
+  /** Retry on NETWORK_ERROR and TIMEOUT_ERROR (no response received) */
+  retryOnNetworkError: boolean;
+  /** Use the server's Retry-After header instead of the backoff curve when present */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Named policies that callers opt into declaratively
+ * - none: never retry
+ * - rateLimit: one jittered retry on 429 only (default for the API client)
+ * - standard: transient failures on reads and idempotent writes
+ * - critical: aggressive retries for duress alerts and evidence
+ */
+export const RETRY_POLICIES = {
+  none: {
+    maxAttempts: 1,
+    backoff: 'fixed',
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitterMs: 0,
+    retryOnStatus: [],
+    retryOnNetworkError: false,
+    respectRetryAfter: false,
+  },
+  rateLimit: {
+    maxAttempts: 2,
+    backoff: 'fixed',
+    baseDelayMs: 800,
+    maxDelayMs: 5000,
+    jitterMs: 400,
+    retryOnStatus: [429],
+    retryOnNetworkError: false,
+    respectRetryAfter: true,
+  },
+  standard: {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    jitterMs: 250,
+    retryOnStatus: [408, 429, 502, 503, 504],
+    retryOnNetworkError: true,
+    respectRetryAfter: true,
+  },
+  critical: {
+    maxAttempts: 5,
+    backoff: 'exponential',
+    baseDelayMs: 1000,
+    maxDelayMs: 15000,
+    jitterMs: 500,
+    retryOnStatus: [408, 429, 500, 502, 503, 504],
+    retryOnNetworkError: true,
+    respectRetryAfter: true,
+  },
+} as const satisfies Record<string, RetryPolicy>;
+
+export type RetryPolicyName = keyof typeof RETRY_POLICIES;
+
+/**
+ * Retry option accepted by callers
+ * - true / undefined: default policy (rateLimit)
+ * - false: no retries
+ * - a policy name or a full policy object
+ */
+export type RetryOption = boolean | RetryPolicyName | RetryPolicy;
+
+/**
+ * Context for a retried operation
+ */
+export interface RetryContext {
+  /** Whether repeating the operation is safe (GET, PUT, or a request carrying an idempotency key) */
+  idempotent: boolean;
+  /** Abort signal that cancels pending backoff waits */
+  signal?: AbortSignal;
+  /** Called before each retry with the delay that will be applied */
+  onRetry?: (error: ApiError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * HTTP methods that are safe to repeat without an idempotency key
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Generate a unique idempotency key for a single logical operation
+ * Reuse the same key across retries so the server can deduplicate them
+ * @param prefix - Operation name (e.g., 'duress-alert')
+ */
+export function createIdempotencyKey(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Resolve a retry option into a concrete policy
+ */
+export function resolveRetryPolicy(option?: RetryOption): RetryPolicy {
+  if (option === undefined || option === true) {
+    return RETRY_POLICIES.rateLimit;
+  }
+  if (option === false) {
+    return RETRY_POLICIES.none;
+  }
+  if (typeof option === 'string') {
+    return RETRY_POLICIES[option];
+  }
+  return option;
+}
+
+/**
+ * Check whether an HTTP method is idempotent by definition
+ */
+export function isIdempotentMethod(method?: string): boolean {
+  return IDEMPOTENT_METHODS.includes((method ?? 'GET').toUpperCase());
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the backoff delay (without jitter) after a given number of failed attempts
+ * @param attempt - Number of attempts made so far (1-based)
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  let delay: number;
+  switch (policy.backoff) {
+    case 'exponential':
+      delay = policy.baseDelayMs * Math.pow(2, attempt - 1);
+      break;
+    case 'linear':
+      delay = policy.baseDelayMs * attempt;
+      break;
+    default:
+      delay = policy.baseDelayMs;
+  }
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Decide whether an error may be retried and how long to wait
+ * @param attempt - Number of attempts made so far (1-based)
+ * @returns Delay in milliseconds, or null if the error must not be retried
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  error: unknown,
+  attempt: number,
+  idempotent: boolean
+): number | null {
+  if (attempt >= policy.maxAttempts || !(error instanceof ApiError)) {
+    return null;
+  }
+
+  if (error.code === 'REQUEST_CANCELLED') {
+    return null;
+  }
+
+  if (error.status === 0) {
+    // No response: the server may or may not have processed the request
+    if (!policy.retryOnNetworkError || !idempotent) {
+      return null;
+    }
+  } else if (!policy.retryOnStatus.includes(error.status)) {
+    return null;
+  } else if (error.status !== 429 && !idempotent) {
+    // 429 means the request was rejected before processing, so it is always safe to repeat
+    return null;
+  }
+
+  if (policy.respectRetryAfter && error.retryAfterMs !== undefined) {
+    // Give up rather than block the caller for longer than the policy allows
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const jitter = Math.random() * policy.jitterMs;
+  return Math.min(computeBackoffDelay(policy, attempt) + jitter, policy.maxDelayMs);
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+function waitForRetry(delayMs: number, lastError: ApiError, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancelled = () => new ApiError({ status: 0, code: 'REQUEST_CANCELLED', path: lastError.path });
+
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Run an operation under a retry policy
+ * @param operation - Operation to run; receives the 1-based attempt number
+ * @param option - Retry option or policy
+ * @param context - Idempotency, cancellation and retry hooks
+ * @returns Result of the first successful attempt
+ * @throws The last error when retries are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  option: RetryOption | undefined,
+  context: RetryContext
+): Promise<T> {
+  const policy = resolveRetryPolicy(option);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const delay = getRetryDelay(policy, error, attempt, context.idempotent);
+      if (delay === null) {
+        throw error;
+      }
+
+      context.onRetry?.(error as ApiError, attempt, delay);
+      await waitForRetry(delay, error as ApiError, context.signal);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Incremental SHA-256
+ * expo-crypto only hashes whole buffers, so large files would have to be read into
+ * memory at once. This hasher takes the data in chunks, and its state can be
+ * exported and restored so a hash survives an app restart mid-upload.
+ */
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Serializable hasher state (JSON-safe)
+ */
+export interface Sha256State {
+  h: number[];
+  /** Bytes not yet forming a full 64-byte block */
+  pending: number[];
+  /** Total bytes hashed so far */
+  length: number;
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+export class Sha256 {
+  private h = new Uint32Array(INITIAL_STATE);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private length = 0;
+  private w = new Uint32Array(64);
+
+  /**
+   * Restore a hasher from exportState()
+   */
+  static fromState(state: Sha256State): Sha256 {
+    const hasher = new Sha256();
+    hasher.h = new Uint32Array(state.h);
+    hasher.block.set(state.pending);
+    hasher.blockLength = state.pending.length;
+    hasher.length = state.length;
+    return hasher;
+  }
+
+  /**
+   * Add data to the hash
+   */
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.length += data.length;
+
+    while (offset < data.length) {
+      const take = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+
+      if (this.blockLength === 64) {
+        this.compress(this.block);
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Snapshot the state so hashing can continue later, e.g. after a restart
+   */
+  exportState(): Sha256State {
+    return {
+      h: Array.from(this.h),
+      pending: Array.from(this.block.subarray(0, this.blockLength)),
+      length: this.length,
+    };
+  }
+
+  /**
+   * Finish the hash; the hasher must not be updated afterwards
+   * @returns Lowercase hex digest
+   */
+  digest(): string {
+    const bitsHigh = Math.floor(this.length / 0x20000000);
+    const bitsLow = (this.length % 0x20000000) * 8;
+
+    const padding = new Uint8Array((this.blockLength < 56 ? 56 : 120) - this.blockLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, bitsHigh);
+    view.setUint32(padding.length - 4, bitsLow);
+
+    const length = this.length;
+    this.update(padding);
+    this.length = length;
+
+    return Array.from(this.h)
+      .map((word) => word.toString(16).padStart(8, '0'))
+      .join('');
+  }
+
+  private compress(block: Uint8Array): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      w[i] = (block[i * 4] << 24) | (block[i * 4 + 1] << 16) | (block[i * 4 + 2] << 8) | block[i * 4 + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    this.h[0] += a;
+    this.h[1] += b;
+    this.h[2] += c;
+    this.h[3] += d;
+    this.h[4] += e;
+    this.h[5] += f;
+    this.h[6] += g;
+    this.h[7] += h;
+  }
+}
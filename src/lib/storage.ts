@@ -1,4 +1,16 @@
 import * as SecureStore from 'expo-secure-store';
+import { createLogger } from './logger';
+import {
+  AuthTokens,
+  IncidentCredentials,
+  IncidentEncryption,
+  Profile,
+  RevocationCredentials,
+  SessionMode,
+  TenantConfig,
+} from '../types';
+
+const log = createLogger('storage');
 
 /**
  * Storage keys for SecureStore
@@ -9,34 +21,185 @@ const STORAGE_KEYS = {
   SESSION_MODE: 'transrify_session_mode',
   TENANT_KEY: 'transrify_tenant_key',
   INCIDENT_ID: 'transrify_incident_id',
+  PENDING_REVOCATIONS: 'transrify_pending_revocations',
+  REVOCATION_CREDENTIALS: 'transrify_revocation_credentials',
+  ACCESS_TOKEN: 'transrify_access_token',
+  REFRESH_TOKEN: 'transrify_refresh_token',
+  TOKEN_EXPIRES_AT: 'transrify_token_expires_at',
+  DURESS_ESCALATED: 'transrify_duress_escalated',
+  TENANT_CONFIG: 'transrify_tenant_config',
+  BIOMETRIC_ENABLED: 'transrify_biometric_enabled',
+  PROFILES: 'transrify_profiles',
+  ACTIVE_PROFILE: 'transrify_active_profile',
+  ENVIRONMENT: 'transrify_environment',
+  EVIDENCE_KEYS: 'transrify_evidence_keys',
+  INCIDENT_CREDENTIALS: 'transrify_incident_credentials',
+  INCIDENT_CREDENTIAL_IDS: 'transrify_incident_credential_ids',
+  INCIDENT_ENCRYPTION: 'transrify_incident_encryption',
 } as const;
 
+/**
+ * Keys holding session, token and incident state; namespaced per profile
+ */
+const PROFILE_SCOPED_KEYS = [
+  STORAGE_KEYS.SESSION_ID,
+  STORAGE_KEYS.CUSTOMER_REF,
+  STORAGE_KEYS.SESSION_MODE,
+  STORAGE_KEYS.TENANT_KEY,
+  STORAGE_KEYS.INCIDENT_ID,
+  STORAGE_KEYS.PENDING_REVOCATIONS,
+  STORAGE_KEYS.ACCESS_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.TOKEN_EXPIRES_AT,
+  STORAGE_KEYS.DURESS_ESCALATED,
+  STORAGE_KEYS.TENANT_CONFIG,
+  STORAGE_KEYS.EVIDENCE_KEYS,
+] as const;
+
+/**
+ * Profile keys left behind when the profile is deleted: its queued evidence still
+ * needs them to finish uploading
+ */
+const KEPT_ON_PROFILE_DELETE: readonly string[] = [STORAGE_KEYS.EVIDENCE_KEYS];
+
+/**
+ * Profile whose namespace the session storage functions read and write.
+ * null uses the un-namespaced keys (installs from before profiles existed).
+ */
+let activeProfileId: string | null = null;
+
+/**
+ * Namespace a session key for a profile
+ */
+function scopedKey(key: string, profileId: string | null = activeProfileId): string {
+  return profileId ? `${key}.${profileId}` : key;
+}
+
+/**
+ * Active profile functions
+ * Switching the active profile switches every session storage function to that
+ * profile's keys, so one tenant's session and incident state is never visible to another.
+ */
+export function getActiveProfileId(): string | null {
+  return activeProfileId;
+}
+
+export async function setActiveProfileId(profileId: string | null): Promise<void> {
+  try {
+    if (profileId) {
+      await SecureStore.setItemAsync(STORAGE_KEYS.ACTIVE_PROFILE, profileId);
+    } else {
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.ACTIVE_PROFILE);
+    }
+    activeProfileId = profileId;
+  } catch (error) {
+    log.error('Failed to store active profile', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Restore the active profile persisted by setActiveProfileId (call on app start)
+ * @returns Active profile ID, or null when none is stored
+ */
+export async function loadActiveProfileId(): Promise<string | null> {
+  try {
+    activeProfileId = await SecureStore.getItemAsync(STORAGE_KEYS.ACTIVE_PROFILE);
+  } catch (error) {
+    log.error('Failed to retrieve active profile', error);
+    activeProfileId = null;
+  }
+  return activeProfileId;
+}
+
+/**
+ * Saved profile storage functions
+ * Profiles hold tenant key and customer reference only, never a PIN.
+ */
+export async function getProfiles(): Promise<Profile[]> {
+  try {
+    const value = await SecureStore.getItemAsync(STORAGE_KEYS.PROFILES);
+    const parsed = value ? JSON.parse(value) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (profile): profile is Profile =>
+            typeof profile?.id === 'string' &&
+            typeof profile?.tenantKey === 'string' &&
+            typeof profile?.customerRef === 'string'
+        )
+      : [];
+  } catch (error) {
+    log.error('Failed to retrieve profiles', error);
+    return [];
+  }
+}
+
+/**
+ * Add a profile, or update the saved profile with the same ID
+ */
+export async function saveProfile(profile: Profile): Promise<void> {
+  const profiles = await getProfiles();
+  const { id, tenantKey, customerRef, tenantName } = profile;
+  const next = [{ id, tenantKey, customerRef, tenantName }, ...profiles.filter((saved) => saved.id !== id)];
+  try {
+    await SecureStore.setItemAsync(STORAGE_KEYS.PROFILES, JSON.stringify(next));
+  } catch (error) {
+    log.error('Failed to store profiles', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Remove a saved profile together with its session state
+ * Evidence keys are kept (KEPT_ON_PROFILE_DELETE).
+ */
+export async function deleteProfile(profileId: string): Promise<void> {
+  const profiles = await getProfiles();
+  try {
+    await Promise.all([
+      SecureStore.setItemAsync(
+        STORAGE_KEYS.PROFILES,
+        JSON.stringify(profiles.filter((profile) => profile.id !== profileId))
+      ),
+      ...PROFILE_SCOPED_KEYS.filter((key) => !KEPT_ON_PROFILE_DELETE.includes(key)).map((key) =>
+        SecureStore.deleteItemAsync(scopedKey(key, profileId))
+      ),
+    ]);
+  } catch (error) {
+    log.error('Failed to delete profile', error);
+    throw new Error('STORAGE_ERROR');
+  }
+  if (activeProfileId === profileId) {
+    await setActiveProfileId(null);
+  }
+}
+
 /**
  * Session ID storage functions
  */
 export async function setSessionId(sessionId: string): Promise<void> {
   try {
-    await SecureStore.setItemAsync(STORAGE_KEYS.SESSION_ID, sessionId);
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.SESSION_ID), sessionId);
   } catch (error) {
-    console.error('Failed to store session ID:', error);
+    log.error('Failed to store session ID', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 export async function getSessionId(): Promise<string | null> {
   try {
-    return await SecureStore.getItemAsync(STORAGE_KEYS.SESSION_ID);
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.SESSION_ID));
   } catch (error) {
-    console.error('Failed to retrieve session ID:', error);
+    log.error('Failed to retrieve session ID', error);
     return null;
   }
 }
 
 export async function deleteSessionId(): Promise<void> {
   try {
-    await SecureStore.deleteItemAsync(STORAGE_KEYS.SESSION_ID);
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.SESSION_ID));
   } catch (error) {
-    console.error('Failed to delete session ID:', error);
+    log.error('Failed to delete session ID', error);
     throw new Error('STORAGE_ERROR');
   }
 }
@@ -46,27 +209,27 @@ export async function deleteSessionId(): Promise<void> {
  */
 export async function setCustomerRef(customerRef: string): Promise<void> {
   try {
-    await SecureStore.setItemAsync(STORAGE_KEYS.CUSTOMER_REF, customerRef);
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.CUSTOMER_REF), customerRef);
   } catch (error) {
-    console.error('Failed to store customer reference:', error);
+    log.error('Failed to store customer reference', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 export async function getCustomerRef(): Promise<string | null> {
   try {
-    return await SecureStore.getItemAsync(STORAGE_KEYS.CUSTOMER_REF);
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.CUSTOMER_REF));
   } catch (error) {
-    console.error('Failed to retrieve customer reference:', error);
+    log.error('Failed to retrieve customer reference', error);
     return null;
   }
 }
 
 export async function deleteCustomerRef(): Promise<void> {
   try {
-    await SecureStore.deleteItemAsync(STORAGE_KEYS.CUSTOMER_REF);
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.CUSTOMER_REF));
   } catch (error) {
-    console.error('Failed to delete customer reference:', error);
+    log.error('Failed to delete customer reference', error);
     throw new Error('STORAGE_ERROR');
   }
 }
@@ -74,93 +237,470 @@ export async function deleteCustomerRef(): Promise<void> {
 /**
  * Session mode storage functions
  */
-export async function setSessionMode(mode: 'NORMAL' | 'DURESS'): Promise<void> {
+export async function setSessionMode(mode: SessionMode): Promise<void> {
   try {
-    await SecureStore.setItemAsync(STORAGE_KEYS.SESSION_MODE, mode);
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.SESSION_MODE), mode);
   } catch (error) {
-    console.error('Failed to store session mode:', error);
+    log.error('Failed to store session mode', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 export async function getSessionMode(): Promise<string | null> {
   try {
-    return await SecureStore.getItemAsync(STORAGE_KEYS.SESSION_MODE);
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.SESSION_MODE));
   } catch (error) {
-    console.error('Failed to retrieve session mode:', error);
+    log.error('Failed to retrieve session mode', error);
     return null;
   }
 }
 
 export async function deleteSessionMode(): Promise<void> {
   try {
-    await SecureStore.deleteItemAsync(STORAGE_KEYS.SESSION_MODE);
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.SESSION_MODE));
+  } catch (error) {
+    log.error('Failed to delete session mode', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Mid-session duress escalation flag
+ * Set when a NORMAL session was escalated to DURESS after sign-in, so the UI can
+ * keep looking like a NORMAL session across restarts.
+ */
+export async function setDuressEscalated(): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.DURESS_ESCALATED), 'true');
+  } catch (error) {
+    log.error('Failed to store duress escalation', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getDuressEscalated(): Promise<boolean> {
+  try {
+    return (await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.DURESS_ESCALATED))) === 'true';
   } catch (error) {
-    console.error('Failed to delete session mode:', error);
+    log.error('Failed to retrieve duress escalation', error);
+    return false;
+  }
+}
+
+/**
+ * Biometric unlock preference
+ * A device setting, so it is not removed by clearAll; without a stored session
+ * there is nothing for biometrics to restore.
+ */
+export async function setBiometricEnabled(enabled: boolean): Promise<void> {
+  try {
+    if (enabled) {
+      await SecureStore.setItemAsync(STORAGE_KEYS.BIOMETRIC_ENABLED, 'true');
+    } else {
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.BIOMETRIC_ENABLED);
+    }
+  } catch (error) {
+    log.error('Failed to store biometric preference', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
+export async function getBiometricEnabled(): Promise<boolean> {
+  try {
+    return (await SecureStore.getItemAsync(STORAGE_KEYS.BIOMETRIC_ENABLED)) === 'true';
+  } catch (error) {
+    log.error('Failed to retrieve biometric preference', error);
+    return false;
+  }
+}
+
+/**
+ * Developer environment selection (device-level, kept across sign-outs)
+ */
+export async function setSelectedEnvironment(name: string | null): Promise<void> {
+  try {
+    if (name) {
+      await SecureStore.setItemAsync(STORAGE_KEYS.ENVIRONMENT, name);
+    } else {
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.ENVIRONMENT);
+    }
+  } catch (error) {
+    log.error('Failed to store environment selection', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getSelectedEnvironment(): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(STORAGE_KEYS.ENVIRONMENT);
+  } catch (error) {
+    log.error('Failed to retrieve environment selection', error);
+    return null;
+  }
+}
+
 /**
  * Tenant key storage functions
  */
 export async function setTenantKey(tenantKey: string): Promise<void> {
   try {
-    await SecureStore.setItemAsync(STORAGE_KEYS.TENANT_KEY, tenantKey);
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.TENANT_KEY), tenantKey);
   } catch (error) {
-    console.error('Failed to store tenant key:', error);
+    log.error('Failed to store tenant key', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 export async function getTenantKey(): Promise<string | null> {
   try {
-    return await SecureStore.getItemAsync(STORAGE_KEYS.TENANT_KEY);
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.TENANT_KEY));
   } catch (error) {
-    console.error('Failed to retrieve tenant key:', error);
+    log.error('Failed to retrieve tenant key', error);
     return null;
   }
 }
 
 export async function deleteTenantKey(): Promise<void> {
   try {
-    await SecureStore.deleteItemAsync(STORAGE_KEYS.TENANT_KEY);
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.TENANT_KEY));
+  } catch (error) {
+    log.error('Failed to delete tenant key', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Tenant config storage functions
+ * Cached branding for the active profile. Not removed by clearAll so the login
+ * screen keeps the tenant's branding after sign-out.
+ */
+export async function setTenantConfig(config: TenantConfig): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.TENANT_CONFIG), JSON.stringify(config));
   } catch (error) {
-    console.error('Failed to delete tenant key:', error);
+    log.error('Failed to store tenant config', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
+export async function getTenantConfig(): Promise<TenantConfig | null> {
+  try {
+    const value = await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.TENANT_CONFIG));
+    return value ? (JSON.parse(value) as TenantConfig) : null;
+  } catch (error) {
+    log.error('Failed to retrieve tenant config', error);
+    return null;
+  }
+}
+
 /**
  * Incident ID storage functions (for duress evidence linkage)
  */
 export async function setIncidentId(incidentId: string): Promise<void> {
   try {
-    await SecureStore.setItemAsync(STORAGE_KEYS.INCIDENT_ID, incidentId);
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.INCIDENT_ID), incidentId);
   } catch (error) {
-    console.error('Failed to store incident ID:', error);
+    log.error('Failed to store incident ID', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 export async function getIncidentId(): Promise<string | null> {
   try {
-    return await SecureStore.getItemAsync(STORAGE_KEYS.INCIDENT_ID);
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.INCIDENT_ID));
   } catch (error) {
-    console.error('Failed to retrieve incident ID:', error);
+    log.error('Failed to retrieve incident ID', error);
     return null;
   }
 }
 
 export async function deleteIncidentId(): Promise<void> {
   try {
-    await SecureStore.deleteItemAsync(STORAGE_KEYS.INCIDENT_ID);
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.INCIDENT_ID));
+  } catch (error) {
+    log.error('Failed to delete incident ID', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Access/refresh token storage functions
+ */
+export async function setAuthTokens(tokens: AuthTokens): Promise<void> {
+  try {
+    await Promise.all([
+      SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.ACCESS_TOKEN), tokens.accessToken),
+      SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.REFRESH_TOKEN), tokens.refreshToken),
+      SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.TOKEN_EXPIRES_AT), String(tokens.expiresAt)),
+    ]);
+  } catch (error) {
+    log.error('Failed to store auth tokens', error);
+    throw new Error('STORAGE_ERROR');
+  }
+  await syncIncidentCredentials(tokens.accessToken);
+}
+
+export async function getAccessToken(): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.ACCESS_TOKEN));
+  } catch (error) {
+    log.error('Failed to retrieve access token', error);
+    return null;
+  }
+}
+
+export async function getAuthTokens(): Promise<AuthTokens | null> {
+  try {
+    const [accessToken, refreshToken, expiresAt] = await Promise.all([
+      SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.ACCESS_TOKEN)),
+      SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.REFRESH_TOKEN)),
+      SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.TOKEN_EXPIRES_AT)),
+    ]);
+    if (!accessToken || !refreshToken) {
+      return null;
+    }
+    return { accessToken, refreshToken, expiresAt: Number(expiresAt) || 0 };
+  } catch (error) {
+    log.error('Failed to retrieve auth tokens', error);
+    return null;
+  }
+}
+
+export async function deleteAuthTokens(): Promise<void> {
+  try {
+    await Promise.all([
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.ACCESS_TOKEN)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.REFRESH_TOKEN)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.TOKEN_EXPIRES_AT)),
+    ]);
+  } catch (error) {
+    log.error('Failed to delete auth tokens', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Pending session revocation storage functions
+ * Session IDs whose server-side logout could not be confirmed. Deliberately
+ * not removed by clearAll so they survive the logout that queued them.
+ */
+export async function setPendingRevocations(sessionIds: string[]): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(scopedKey(STORAGE_KEYS.PENDING_REVOCATIONS), JSON.stringify(sessionIds));
+  } catch (error) {
+    log.error('Failed to store pending revocations', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getPendingRevocations(): Promise<string[]> {
+  try {
+    const value = await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.PENDING_REVOCATIONS));
+    const parsed = value ? JSON.parse(value) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch (error) {
+    log.error('Failed to retrieve pending revocations', error);
+    return [];
+  }
+}
+
+export async function deletePendingRevocations(): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.PENDING_REVOCATIONS));
+  } catch (error) {
+    log.error('Failed to delete pending revocations', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * SecureStore key of one queued revocation's credentials (keys allow only [A-Za-z0-9._-])
+ */
+function revocationCredentialsKey(sessionId: string): string {
+  return `${STORAGE_KEYS.REVOCATION_CREDENTIALS}.${sessionId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+/**
+ * Revocation credential storage functions
+ * The access token and tenant key a pending revocation is sent with, stored one session
+ * per key like incident credentials. Not namespaced per profile (session IDs are unique)
+ * and not removed by clearAll.
+ */
+export async function setRevocationCredentials(sessionId: string, credentials: RevocationCredentials): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(revocationCredentialsKey(sessionId), JSON.stringify(credentials));
+  } catch (error) {
+    log.error('Failed to store revocation credentials', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getRevocationCredentials(sessionId: string): Promise<RevocationCredentials | null> {
+  try {
+    const value = await SecureStore.getItemAsync(revocationCredentialsKey(sessionId));
+    const parsed = value ? JSON.parse(value) : null;
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch (error) {
+    log.error('Failed to retrieve revocation credentials', error);
+    return null;
+  }
+}
+
+export async function deleteRevocationCredentials(sessionId: string): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(revocationCredentialsKey(sessionId));
+  } catch (error) {
+    log.error('Failed to delete revocation credentials', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+/**
+ * Most recent incidents whose evidence keys are kept (SecureStore values should stay small)
+ */
+const MAX_EVIDENCE_KEYS = 10;
+
+/**
+ * Evidence key storage functions
+ * Raw per-incident evidence keys (base64), kept so an interrupted upload can resume
+ * with the same key. Survives sign-out like pending revocations.
+ */
+async function getEvidenceKeys(): Promise<Record<string, string>> {
+  const value = await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.EVIDENCE_KEYS));
+  const parsed = value ? JSON.parse(value) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+}
+
+export async function setEvidenceKey(incidentId: string, key: string): Promise<void> {
+  try {
+    const keys = await getEvidenceKeys();
+    delete keys[incidentId];
+    // Insertion order is age order: drop the oldest incidents beyond the limit
+    const kept = Object.entries(keys).slice(-(MAX_EVIDENCE_KEYS - 1));
+    kept.push([incidentId, key]);
+    await SecureStore.setItemAsync(
+      scopedKey(STORAGE_KEYS.EVIDENCE_KEYS),
+      JSON.stringify(Object.fromEntries(kept))
+    );
   } catch (error) {
-    console.error('Failed to delete incident ID:', error);
+    log.error('Failed to store evidence key', error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
+export async function getEvidenceKey(incidentId: string): Promise<string | null> {
+  try {
+    const key = (await getEvidenceKeys())[incidentId];
+    return typeof key === 'string' ? key : null;
+  } catch (error) {
+    log.error('Failed to retrieve evidence key', error);
+    return null;
+  }
+}
+
+/**
+ * Most recent incidents whose credentials are kept
+ */
+const MAX_INCIDENT_CREDENTIALS = 5;
+
+/**
+ * SecureStore key of one incident's credentials (keys allow only [A-Za-z0-9._-])
+ */
+function incidentCredentialsKey(incidentId: string): string {
+  return `${STORAGE_KEYS.INCIDENT_CREDENTIALS}.${incidentId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+/**
+ * SecureStore key of one incident's evidence encryption
+ */
+function incidentEncryptionKey(incidentId: string): string {
+  return `${STORAGE_KEYS.INCIDENT_ENCRYPTION}.${incidentId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+async function getIncidentCredentialIds(): Promise<string[]> {
+  const value = await SecureStore.getItemAsync(STORAGE_KEYS.INCIDENT_CREDENTIAL_IDS);
+  const parsed = value ? JSON.parse(value) : [];
+  return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * Incident credential storage functions
+ * The credentials of the session an incident was raised in, kept so its evidence and
+ * location trail are still delivered after that session is signed out. Not namespaced
+ * per profile, survive sign-out and profile removal, and are stored one incident per
+ * key (access tokens are too large to share a SecureStore value).
+ */
+export async function setIncidentCredentials(incidentId: string, credentials: IncidentCredentials): Promise<void> {
+  try {
+    const ids = (await getIncidentCredentialIds()).filter((id) => id !== incidentId);
+    ids.push(incidentId);
+    const dropped = ids.splice(0, Math.max(0, ids.length - MAX_INCIDENT_CREDENTIALS));
+    await SecureStore.setItemAsync(incidentCredentialsKey(incidentId), JSON.stringify(credentials));
+    await SecureStore.setItemAsync(STORAGE_KEYS.INCIDENT_CREDENTIAL_IDS, JSON.stringify(ids));
+    await Promise.all(
+      dropped.flatMap((id) => [
+        SecureStore.deleteItemAsync(incidentCredentialsKey(id)),
+        SecureStore.deleteItemAsync(incidentEncryptionKey(id)),
+      ])
+    );
+  } catch (error) {
+    log.error('Failed to store incident credentials', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getIncidentCredentials(incidentId: string): Promise<IncidentCredentials | null> {
+  try {
+    const value = await SecureStore.getItemAsync(incidentCredentialsKey(incidentId));
+    const parsed = value ? JSON.parse(value) : null;
+    return parsed && typeof parsed.sessionId === 'string' ? parsed : null;
+  } catch (error) {
+    log.error('Failed to retrieve incident credentials', error);
+    return null;
+  }
+}
+
+/**
+ * Incident encryption storage functions
+ * The tenant public key and evidence key an incident's evidence is sealed with, kept
+ * beside its credentials (and dropped with them) so evidence sent after a profile
+ * switch is still sealed for the incident's own tenant.
+ */
+export async function setIncidentEncryption(incidentId: string, encryption: IncidentEncryption): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(incidentEncryptionKey(incidentId), JSON.stringify(encryption));
+  } catch (error) {
+    log.error('Failed to store incident encryption', error);
+    throw new Error('STORAGE_ERROR');
+  }
+}
+
+export async function getIncidentEncryption(incidentId: string): Promise<IncidentEncryption | null> {
+  try {
+    const value = await SecureStore.getItemAsync(incidentEncryptionKey(incidentId));
+    const parsed = value ? JSON.parse(value) : null;
+    return parsed && typeof parsed === 'object' && 'evidencePublicKey' in parsed ? parsed : null;
+  } catch (error) {
+    log.error('Failed to retrieve incident encryption', error);
+    return null;
+  }
+}
+
+/**
+ * Give the stored session's incident credentials a refreshed access token
+ */
+async function syncIncidentCredentials(accessToken: string): Promise<void> {
+  try {
+    const incidentId = await SecureStore.getItemAsync(scopedKey(STORAGE_KEYS.INCIDENT_ID));
+    const saved = incidentId ? await getIncidentCredentials(incidentId) : null;
+    if (incidentId && saved && saved.sessionId === (await getSessionId())) {
+      await SecureStore.setItemAsync(incidentCredentialsKey(incidentId), JSON.stringify({ ...saved, accessToken }));
+    }
+  } catch (error) {
+    log.error('Failed to update incident credentials', error);
+  }
+}
+
 /**
  * Generic storage functions for any key-value pair
  */
@@ -168,7 +708,7 @@ export async function setItem(key: string, value: string): Promise<void> {
   try {
     await SecureStore.setItemAsync(key, value);
   } catch (error) {
-    console.error(`Failed to store item with key ${key}:`, error);
+    log.error(`Failed to store item with key ${key}`, error);
     throw new Error('STORAGE_ERROR');
   }
 }
@@ -177,7 +717,7 @@ export async function getItem(key: string): Promise<string | null> {
   try {
     return await SecureStore.getItemAsync(key);
   } catch (error) {
-    console.error(`Failed to retrieve item with key ${key}:`, error);
+    log.error(`Failed to retrieve item with key ${key}`, error);
     return null;
   }
 }
@@ -186,24 +726,29 @@ export async function deleteItem(key: string): Promise<void> {
   try {
     await SecureStore.deleteItemAsync(key);
   } catch (error) {
-    console.error(`Failed to delete item with key ${key}:`, error);
+    log.error(`Failed to delete item with key ${key}`, error);
     throw new Error('STORAGE_ERROR');
   }
 }
 
 /**
- * Clear all stored data
+ * Clear the active profile's session data
+ * Saved profiles, the active profile and device preferences are kept.
  */
 export async function clearAll(): Promise<void> {
   try {
     await Promise.all([
-      SecureStore.deleteItemAsync(STORAGE_KEYS.SESSION_ID),
-      SecureStore.deleteItemAsync(STORAGE_KEYS.CUSTOMER_REF),
-      SecureStore.deleteItemAsync(STORAGE_KEYS.SESSION_MODE),
-      SecureStore.deleteItemAsync(STORAGE_KEYS.TENANT_KEY),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.SESSION_ID)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.CUSTOMER_REF)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.SESSION_MODE)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.TENANT_KEY)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.ACCESS_TOKEN)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.REFRESH_TOKEN)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.TOKEN_EXPIRES_AT)),
+      SecureStore.deleteItemAsync(scopedKey(STORAGE_KEYS.DURESS_ESCALATED)),
     ]);
   } catch (error) {
-    console.error('Failed to clear all storage:', error);
+    log.error('Failed to clear all storage', error);
     throw new Error('STORAGE_ERROR');
   }
 }
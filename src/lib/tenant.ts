@@ -0,0 +1,69 @@
+/**
+ * Tenant discovery
+ * Resolves a tenant code (typed or scanned from a QR code) to the tenant's
+ * configuration before sign-in: canonical tenant key, branding and feature flags.
+ */
+
+import { api } from './api';
+import { isApiError } from './errors';
+import { createLogger } from './logger';
+import { TenantConfig } from '../types';
+
+const log = createLogger('tenant');
+
+/**
+ * Tenant codes: letters, digits, underscore and dash
+ */
+const TENANT_CODE_PATTERN = /^[A-Za-z0-9_-]{3,100}$/;
+
+/**
+ * Extract the tenant code from user input or QR code contents
+ * Accepts a bare code or a link whose last path segment is the code
+ * (e.g. transrify://tenant/ACME or https://transrify.app/t/ACME).
+ *
+ * @param raw - Typed text or scanned QR payload
+ * @returns Tenant code, or null when the input holds no valid code
+ */
+export function parseTenantCode(raw: string): string | null {
+  const trimmed = raw.trim();
+  const candidate = trimmed.includes('/')
+    ? trimmed.split(/[?#]/)[0].split('/').filter(Boolean).pop() ?? ''
+    : trimmed;
+  return TENANT_CODE_PATTERN.test(candidate) ? candidate : null;
+}
+
+/**
+ * Fetch the configuration for a tenant code
+ * @param code - Tenant key or short code
+ * @returns Validated tenant configuration
+ * @throws Error('TENANT_NOT_FOUND') when the server does not know the code,
+ *   Error('INVALID_TENANT_KEY') when the response is unusable, ApiError otherwise
+ */
+export async function fetchTenantConfig(code: string): Promise<TenantConfig> {
+  let config: TenantConfig;
+  try {
+    config = await api<TenantConfig>(`/v1/tenants/${encodeURIComponent(code)}/config`, {
+      retry: 'standard',
+      skipAuthRefresh: true,
+    });
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) {
+      throw new Error('TENANT_NOT_FOUND');
+    }
+    throw error;
+  }
+
+  if (!config || typeof config.tenantKey !== 'string' || typeof config.displayName !== 'string') {
+    log.warn('Tenant config response missing required fields');
+    throw new Error('INVALID_TENANT_KEY');
+  }
+
+  return {
+    tenantKey: config.tenantKey,
+    displayName: config.displayName,
+    logoUrl: typeof config.logoUrl === 'string' ? config.logoUrl : undefined,
+    colors: config.colors && typeof config.colors === 'object' ? config.colors : undefined,
+    features: config.features && typeof config.features === 'object' ? config.features : undefined,
+    evidencePublicKey: typeof config.evidencePublicKey === 'string' ? config.evidencePublicKey : undefined,
+  };
+}
@@ -31,6 +31,34 @@ export const colors = {
   borderError: '#FF5252',     // Error state borders
 } as const;
 
+// Theme color names, with values that tenant branding may replace
+export type ThemeColors = { -readonly [K in keyof typeof colors]: string };
+
+/**
+ * Apply tenant color overrides to the default palette
+ * Unknown color names and values that are not hex colors are ignored.
+ * The focus border follows the brand primary unless set explicitly.
+ *
+ * @param overrides - Color overrides keyed by theme color name
+ * @returns Complete palette
+ */
+export function applyBrandColors(overrides?: Record<string, string>): ThemeColors {
+  const palette: ThemeColors = { ...colors };
+  if (!overrides) {
+    return palette;
+  }
+
+  for (const [name, value] of Object.entries(overrides)) {
+    if (name in palette && /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+      palette[name as keyof ThemeColors] = value;
+    }
+  }
+  if (palette.primary !== colors.primary && palette.borderFocus === colors.borderFocus) {
+    palette.borderFocus = palette.primary;
+  }
+  return palette;
+}
+
 // Spacing Scale
 export const spacing = {
   xs: 4,
@@ -0,0 +1,231 @@
+/**
+ * Duress incident timeline (TEXT evidence)
+ * An append-only record of what happened during a duress incident: sign-in, verdict,
+ * alert, location fixes, recording start and stop, screens visited and actions tried.
+ *
+ * Events are kept in a file until uploaded, so they survive the app being killed.
+ * Every TIMELINE_UPLOAD_MS the new events are queued as one TEXT chunk. Chunks are
+ * segments of one chain: each names the previous chunk's hash, so every upload extends
+ * the timeline and none replaces an earlier one.
+ *
+ * Recording an event while no incident is active does nothing, so callers need not
+ * know whether the session is under duress.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { queueEvidence } from './evidenceQueue';
+import { createLogger } from './logger';
+
+const log = createLogger('timeline');
+
+/**
+ * How often new events are uploaded (1 minute)
+ */
+export const TIMELINE_UPLOAD_MS = 60 * 1000;
+
+const TIMELINE_FILE = `${FileSystem.documentDirectory ?? ''}incident-timeline.json`;
+
+export type TimelineEventType =
+  | 'LOGIN'
+  | 'VERDICT'
+  | 'ALERT'
+  | 'LOCATION'
+  | 'RECORDING'
+  | 'SCREEN'
+  | 'ACTION'
+  | 'ENDED';
+
+/**
+ * One entry in the timeline
+ */
+export interface TimelineEvent {
+  /** Position in the whole timeline, across chunks */
+  seq: number;
+  /** ISO 8601 time the event happened */
+  at: string;
+  type: TimelineEventType;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Contents of one uploaded chunk
+ */
+export interface TimelineChunk {
+  version: 1;
+  incidentId: string;
+  index: number;
+  /** Content hash of the previous chunk; null for the first */
+  previousSha256: string | null;
+  events: TimelineEvent[];
+}
+
+/**
+ * Persisted timeline: events not yet uploaded and the position in the chunk chain
+ */
+interface TimelineState {
+  incidentId: string;
+  nextSeq: number;
+  pending: TimelineEvent[];
+  chunkIndex: number;
+  previousSha256: string | null;
+}
+
+let timeline: TimelineState | null = null;
+let uploadTimer: ReturnType<typeof setInterval> | null = null;
+let lock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serialize changes to the timeline and its file
+ */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+async function loadTimeline(): Promise<TimelineState | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(TIMELINE_FILE);
+    if (!info.exists) {
+      return null;
+    }
+    const parsed = JSON.parse(await FileSystem.readAsStringAsync(TIMELINE_FILE));
+    return parsed && typeof parsed.incidentId === 'string' && Array.isArray(parsed.pending) ? parsed : null;
+  } catch (error) {
+    log.error('Failed to read incident timeline', error);
+    return null;
+  }
+}
+
+async function saveTimeline(state: TimelineState): Promise<void> {
+  try {
+    await FileSystem.writeAsStringAsync(TIMELINE_FILE, JSON.stringify(state));
+  } catch (error) {
+    log.error('Failed to save incident timeline', error);
+  }
+}
+
+function clearUploadTimer(): void {
+  if (uploadTimer) {
+    clearInterval(uploadTimer);
+    uploadTimer = null;
+  }
+}
+
+/**
+ * Queue the pending events as the next chunk
+ * On failure the events stay pending and go with the next chunk.
+ */
+async function uploadPending(state: TimelineState): Promise<void> {
+  if (state.pending.length === 0) {
+    return;
+  }
+
+  const chunk: TimelineChunk = {
+    version: 1,
+    incidentId: state.incidentId,
+    index: state.chunkIndex,
+    previousSha256: state.previousSha256,
+    events: state.pending,
+  };
+  const fileUri = `${FileSystem.cacheDirectory}timeline-${state.incidentId}-${chunk.index}.json`;
+
+  try {
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(chunk));
+    const entry = await queueEvidence({
+      incidentId: state.incidentId,
+      fileUri,
+      kind: 'TEXT',
+      contentType: 'application/json',
+      segment: { index: chunk.index, previousSha256: chunk.previousSha256 },
+      duress: true,
+    });
+    state.pending = [];
+    state.chunkIndex = chunk.index + 1;
+    state.previousSha256 = entry.sha256;
+    await saveTimeline(state);
+    log.info('Timeline chunk queued', { index: chunk.index, events: chunk.events.length });
+  } catch (error) {
+    log.error('Failed to queue timeline chunk', { index: chunk.index, error });
+  }
+}
+
+/**
+ * Start (or, after a restart, resume) the timeline for an incident
+ * A timeline left over from a different incident is uploaded first.
+ *
+ * @param incidentId - Incident the timeline belongs to
+ */
+export async function startIncidentTimeline(incidentId: string): Promise<void> {
+  await withLock(async () => {
+    const saved = timeline ?? (await loadTimeline());
+    if (saved && saved.incidentId !== incidentId) {
+      await uploadPending(saved);
+    }
+
+    timeline = saved?.incidentId === incidentId
+      ? saved
+      : { incidentId, nextSeq: 0, pending: [], chunkIndex: 0, previousSha256: null };
+    await saveTimeline(timeline);
+  });
+
+  clearUploadTimer();
+  uploadTimer = setInterval(() => {
+    void flushIncidentTimeline();
+  }, TIMELINE_UPLOAD_MS);
+  log.info('Incident timeline started', { incidentId });
+}
+
+/**
+ * Append an event to the active timeline
+ * Does nothing when no incident is active.
+ *
+ * @param type - What happened
+ * @param data - Details; never include PINs or other secrets
+ * @param at - When it happened (epoch ms), if not now
+ */
+export function recordTimelineEvent(
+  type: TimelineEventType,
+  data?: Record<string, unknown>,
+  at: number = Date.now()
+): Promise<void> {
+  return withLock(async () => {
+    if (!timeline) {
+      return;
+    }
+    timeline.pending.push({ seq: timeline.nextSeq, at: new Date(at).toISOString(), type, ...(data && { data }) });
+    timeline.nextSeq += 1;
+    await saveTimeline(timeline);
+  });
+}
+
+/**
+ * Queue the events recorded since the last upload
+ */
+export function flushIncidentTimeline(): Promise<void> {
+  return withLock(async () => {
+    if (timeline) {
+      await uploadPending(timeline);
+    }
+  });
+}
+
+/**
+ * Record the end of the incident, upload the rest of the timeline and stop
+ */
+export async function stopIncidentTimeline(): Promise<void> {
+  clearUploadTimer();
+  await recordTimelineEvent('ENDED');
+  await withLock(async () => {
+    if (!timeline) {
+      return;
+    }
+    await uploadPending(timeline);
+    if (timeline.pending.length === 0) {
+      await FileSystem.deleteAsync(TIMELINE_FILE, { idempotent: true }).catch(() => undefined);
+    }
+    log.info('Incident timeline stopped', { incidentId: timeline.incidentId });
+    timeline = null;
+  });
+}
+
@@ -0,0 +1,472 @@
+/**
+ * Resumable evidence upload
+ * Files are read and hashed one part at a time, so memory use is bounded by
+ * PART_SIZE_BYTES however long the recording is. Files larger than one part go up as
+ * a multipart upload with a presigned URL per part. The upload ID, finished parts
+ * and hash state are persisted after every part, so an interrupted upload continues
+ * where it stopped, including after an app restart.
+ *
+ * With encryption, each part is sealed as one segment (see lib/encryption), so the
+ * uploaded object, its size and its hash are those of the ciphertext.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { api } from './api';
+import { ApiError } from './errors';
+import { createIdempotencyKey, withRetry } from './retry';
+import { Sha256, Sha256State } from './sha256';
+import { EvidenceEncryption, sealSegment, sealedSize } from './encryption';
+import type { IncidentRequestOptions } from './interceptors';
+import { createLogger } from './logger';
+import type { EvidenceKind } from './evidence';
+
+const log = createLogger('upload');
+
+/**
+ * Size of each uploaded part (5 MB, the S3 minimum for all but the last part)
+ */
+export const PART_SIZE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Where an upload goes and what it is
+ */
+export interface UploadTarget {
+  incidentId: string;
+  kind: EvidenceKind;
+  contentType: string;
+}
+
+/**
+ * Encryption of an uploaded object, as recorded with the evidence
+ */
+export interface UploadEncryption {
+  keyId: string;
+  iv: string;
+  wrappedKey: string;
+}
+
+/**
+ * A fully uploaded object, ready to finalize
+ */
+export interface UploadedObject {
+  key: string;
+  /** Bytes stored, including encryption overhead */
+  size: number;
+  /** Hash of the stored bytes */
+  sha256: string;
+  encryption: UploadEncryption | null;
+}
+
+/**
+ * Options for uploadFileResumable
+ */
+export interface UploadOptions {
+  onProgress?: UploadProgress;
+  /** Seal the file before it leaves the device */
+  encryption?: EvidenceEncryption | null;
+  /** Send the API calls under an incident's saved credentials (see incidentRequestOptions) */
+  auth?: IncidentRequestOptions | null;
+}
+
+/**
+ * Called after each part with the bytes uploaded so far
+ */
+export type UploadProgress = (uploadedBytes: number, totalBytes: number) => void;
+
+/**
+ * Persisted progress of one file's upload
+ */
+export interface UploadState {
+  fileUri: string;
+  target: UploadTarget;
+  /** Size of the local file */
+  size: number;
+  encryption: UploadEncryption | null;
+  /** S3 key, once the upload has started */
+  key: string | null;
+  /** Multipart upload ID; null for single-part uploads */
+  uploadId: string | null;
+  parts: { partNumber: number; etag: string }[];
+  /** Bytes of the local file uploaded so far */
+  offset: number;
+  /** Hash of the bytes stored so far */
+  hash: Sha256State;
+  /** Hex digest, set once the object is complete */
+  sha256: string | null;
+}
+
+/**
+ * Response from presign endpoint
+ */
+interface PresignResponse {
+  url: string;  // Presigned PUT URL (5 min expiry)
+  key: string;  // S3 object key
+}
+
+/**
+ * Response from the multipart start endpoint
+ */
+interface StartMultipartResponse {
+  uploadId: string;
+  key: string;
+}
+
+const STATE_FILE = `${FileSystem.documentDirectory ?? ''}evidence-uploads.json`;
+
+let lock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serialize read-modify-write cycles on the state file
+ */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+async function readStates(): Promise<Record<string, UploadState>> {
+  try {
+    const info = await FileSystem.getInfoAsync(STATE_FILE);
+    if (!info.exists) {
+      return {};
+    }
+    const parsed = JSON.parse(await FileSystem.readAsStringAsync(STATE_FILE));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    log.error('Failed to read upload state', error);
+    return {};
+  }
+}
+
+async function updateStates(
+  change: (states: Record<string, UploadState>) => void
+): Promise<void> {
+  await withLock(async () => {
+    const states = await readStates();
+    change(states);
+    await FileSystem.writeAsStringAsync(STATE_FILE, JSON.stringify(states));
+  });
+}
+
+/**
+ * Persist progress; a failure only costs the ability to resume
+ */
+async function saveState(state: UploadState): Promise<void> {
+  try {
+    await updateStates((states) => {
+      states[state.fileUri] = state;
+    });
+  } catch (error) {
+    log.warn('Failed to persist upload state', error);
+  }
+}
+
+/**
+ * Uploads that were started and not yet cleared
+ */
+export async function getPendingUploads(): Promise<UploadState[]> {
+  return Object.values(await readStates());
+}
+
+/**
+ * Forget a file's upload once its evidence is finalized (or abandoned)
+ */
+export async function clearUploadState(fileUri: string): Promise<void> {
+  try {
+    await updateStates((states) => {
+      delete states[fileUri];
+    });
+  } catch (error) {
+    log.warn('Failed to clear upload state', error);
+  }
+}
+
+/**
+ * Decode base64 into bytes
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Read part of a file without loading the rest
+ */
+export async function readFileChunk(fileUri: string, position: number, length: number): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(fileUri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return base64ToBytes(base64);
+}
+
+/**
+ * Compute the SHA-256 of a file, one part at a time
+ * @returns Hex-encoded SHA-256 hash
+ */
+export async function hashFile(fileUri: string, size: number): Promise<string> {
+  const hasher = new Sha256();
+  for (let offset = 0; offset < size; offset += PART_SIZE_BYTES) {
+    hasher.update(await readFileChunk(fileUri, offset, Math.min(PART_SIZE_BYTES, size - offset)));
+  }
+  return hasher.digest();
+}
+
+/**
+ * Request a presigned URL for uploading evidence to S3
+ * @param incidentId - The incident ID associated with the evidence
+ * @param contentType - MIME type of the file (e.g., 'video/mp4', 'audio/mp3', 'image/jpeg')
+ * @param auth - Incident credentials to send in place of the stored session
+ * @returns Presigned URL and S3 key
+ */
+export async function presignEvidence(
+  incidentId: string,
+  contentType: string,
+  auth?: IncidentRequestOptions | null
+): Promise<PresignResponse> {
+  return api<PresignResponse>('/v1/evidence/presign', {
+    method: 'POST',
+    body: JSON.stringify({ incidentId, contentType }),
+    retry: 'standard',
+    idempotencyKey: createIdempotencyKey('presign'),
+    ...auth,
+  });
+}
+
+/**
+ * PUT data to a presigned URL
+ * PUT is idempotent, so transient failures are retried under the standard policy
+ * @returns The ETag of the stored object or part, if the server sent one
+ * @throws ApiError if upload fails after retries
+ */
+export async function putToPresignedUrl(
+  presignedUrl: string,
+  body: Blob | Uint8Array,
+  contentType: string
+): Promise<string | null> {
+  // Strip the signature query string so it never ends up in errors or logs
+  const path = presignedUrl.split('?')[0];
+
+  return withRetry(
+    async () => {
+      let response: Response;
+      try {
+        response = await fetch(presignedUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': contentType,
+          },
+          body: body as BodyInit,
+        });
+      } catch (error) {
+        throw new ApiError({
+          status: 0,
+          code: 'NETWORK_ERROR',
+          path,
+          message: error instanceof Error ? error.message : undefined,
+        });
+      }
+
+      if (!response.ok) {
+        throw new ApiError({
+          status: response.status,
+          path,
+          message: `S3 upload failed: ${response.status}`,
+        });
+      }
+
+      return response.headers.get('ETag');
+    },
+    'standard',
+    { idempotent: true }
+  );
+}
+
+/**
+ * Read one part of the file as it will be stored
+ */
+async function readPart(state: UploadState, rawKey: string | null, index: number): Promise<{ plainLength: number; data: Uint8Array }> {
+  const position = index * PART_SIZE_BYTES;
+  const plain = await readFileChunk(state.fileUri, position, Math.min(PART_SIZE_BYTES, state.size - position));
+  if (!state.encryption || !rawKey) {
+    return { plainLength: plain.length, data: plain };
+  }
+  return { plainLength: plain.length, data: sealSegment({ key: rawKey, iv: state.encryption.iv }, index, plain) };
+}
+
+/**
+ * Size of the stored object
+ */
+function objectSize(state: UploadState): number {
+  return state.encryption ? sealedSize(state.size, PART_SIZE_BYTES) : state.size;
+}
+
+/**
+ * Upload a file that fits in one part with a single presigned PUT
+ */
+async function uploadSinglePart(
+  state: UploadState,
+  rawKey: string | null,
+  { onProgress, auth }: UploadOptions
+): Promise<UploadState> {
+  const { data } = await readPart(state, rawKey, 0);
+  const presigned = await presignEvidence(state.target.incidentId, state.target.contentType, auth);
+  await putToPresignedUrl(presigned.url, data, state.target.contentType);
+  onProgress?.(state.size, state.size);
+
+  const hasher = new Sha256().update(data);
+  return { ...state, key: presigned.key, offset: state.size, hash: hasher.exportState(), sha256: hasher.digest() };
+}
+
+/**
+ * Upload the remaining parts of a multipart upload, persisting after each one
+ */
+async function uploadMultipart(
+  state: UploadState,
+  rawKey: string | null,
+  { onProgress, auth }: UploadOptions
+): Promise<UploadState> {
+  let current = state;
+
+  if (!current.uploadId || !current.key) {
+    const started = await api<StartMultipartResponse>('/v1/evidence/multipart/start', {
+      method: 'POST',
+      body: JSON.stringify({
+        incidentId: current.target.incidentId,
+        contentType: current.target.contentType,
+        size: objectSize(current),
+      }),
+      retry: 'standard',
+      idempotencyKey: createIdempotencyKey('multipart-start'),
+      ...auth,
+    });
+    current = { ...current, uploadId: started.uploadId, key: started.key };
+    await saveState(current);
+  }
+
+  const hasher = Sha256.fromState(current.hash);
+  while (current.offset < current.size) {
+    const partNumber = current.parts.length + 1;
+    const { plainLength, data } = await readPart(current, rawKey, partNumber - 1);
+
+    const { url } = await api<{ url: string }>('/v1/evidence/multipart/part', {
+      method: 'POST',
+      body: JSON.stringify({ key: current.key, uploadId: current.uploadId, partNumber }),
+      retry: 'standard',
+      idempotencyKey: `part-${current.uploadId}-${partNumber}`,
+      ...auth,
+    });
+    const etag = await putToPresignedUrl(url, data, current.target.contentType);
+    if (!etag) {
+      throw new ApiError({ status: 0, code: 'UNKNOWN_ERROR', path: url.split('?')[0], message: 'Missing part ETag' });
+    }
+
+    hasher.update(data);
+    current = {
+      ...current,
+      parts: [...current.parts, { partNumber, etag }],
+      offset: current.offset + plainLength,
+      hash: hasher.exportState(),
+    };
+    await saveState(current);
+    onProgress?.(current.offset, current.size);
+  }
+
+  await api<void>('/v1/evidence/multipart/complete', {
+    method: 'POST',
+    body: JSON.stringify({ key: current.key, uploadId: current.uploadId, parts: current.parts }),
+    retry: 'critical',
+    idempotencyKey: `complete-${current.uploadId}`,
+    ...auth,
+  });
+
+  return { ...current, sha256: hasher.digest() };
+}
+
+/**
+ * Whether a saved upload was made with the same encryption key (or none)
+ */
+function sameEncryption(saved: UploadEncryption | null | undefined, encryption: EvidenceEncryption | null): boolean {
+  return (saved ?? null) === null ? encryption === null : saved?.keyId === encryption?.keyId;
+}
+
+/**
+ * Upload a file, resuming any earlier attempt for the same file
+ * The state is kept after completion so the caller can finalize even after a
+ * restart; call clearUploadState once the evidence is finalized.
+ *
+ * @param fileUri - Local file URI to upload
+ * @param size - File size in bytes
+ * @param target - Incident, kind and content type of the evidence
+ * @param options - Progress callback (called after each part), encryption and credentials
+ * @returns Key, size and SHA-256 of the uploaded object
+ * @throws ApiError if the upload fails after retries
+ */
+export async function uploadFileResumable(
+  fileUri: string,
+  size: number,
+  target: UploadTarget,
+  options: UploadOptions = {}
+): Promise<UploadedObject> {
+  const { onProgress } = options;
+  const encryption = options.encryption ?? null;
+  const saved = (await readStates())[fileUri];
+
+  // A resumed upload keeps its IV; a changed key means starting over
+  let state: UploadState =
+    saved && saved.size === size && sameEncryption(saved.encryption, encryption)
+      ? { ...saved, encryption: saved.encryption ?? null }
+      : {
+          fileUri,
+          target,
+          size,
+          encryption: encryption
+            ? { keyId: encryption.keyId, iv: encryption.iv, wrappedKey: encryption.wrappedKey }
+            : null,
+          key: null,
+          uploadId: null,
+          parts: [],
+          offset: 0,
+          hash: new Sha256().exportState(),
+          sha256: null,
+        };
+  const rawKey = encryption?.key ?? null;
+
+  if (state.sha256 && state.key) {
+    log.info('Upload already complete', { kind: target.kind });
+    onProgress?.(size, size);
+    return { key: state.key, size: objectSize(state), sha256: state.sha256, encryption: state.encryption };
+  }
+
+  if (state.offset > 0) {
+    log.info('Resuming upload', { kind: target.kind, offset: state.offset, size });
+    onProgress?.(state.offset, size);
+  }
+
+  if (size <= PART_SIZE_BYTES) {
+    state = await uploadSinglePart(state, rawKey, options);
+  } else {
+    try {
+      state = await uploadMultipart(state, rawKey, options);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404 && state.uploadId)) {
+        throw error;
+      }
+      // The server no longer knows the multipart upload (expired); start over
+      log.warn('Multipart upload expired, restarting', { kind: target.kind });
+      state = await uploadMultipart(
+        { ...state, key: null, uploadId: null, parts: [], offset: 0, hash: new Sha256().exportState() },
+        rawKey,
+        options
+      );
+    }
+  }
+
+  await saveState(state);
+  return { key: state.key!, size: objectSize(state), sha256: state.sha256!, encryption: state.encryption };
+}
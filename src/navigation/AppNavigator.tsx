@@ -1,12 +1,25 @@
 import React, { useEffect, useRef } from 'react';
 import { View, ActivityIndicator, StyleSheet, AppState, AppStateStatus } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { createNavigationContainerRef, NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { LoginScreen } from '../screens/LoginScreen';
 import { LandingScreen } from '../screens/LandingScreen';
+import { LockScreen } from '../screens/LockScreen';
 import { useAuthStore } from '../state/useAuthStore';
+import { IDLE_CHECK_INTERVAL_MS, useLockStore } from '../state/useLockStore';
+import { useTenantStore } from '../state/useTenantStore';
+import { useConnectivityStore } from '../state/useConnectivityStore';
 import { colors } from '../lib/theme';
-import { verifySession } from '../lib/sessions';
+import { authAdapter } from '../lib/auth';
+import { flushOutbox } from '../lib/outbox';
+import { ApiError } from '../lib/errors';
+import { setUploadGate } from '../lib/evidence';
+import { processEvidenceQueue, registerEvidenceUploadTask, resumeEvidenceQueue } from '../lib/evidenceQueue';
+import { recordTimelineEvent } from '../lib/timeline';
+import { loadEnvironment } from '../config';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('navigation');
 
 /**
  * Navigation type definitions
@@ -25,6 +38,18 @@ export type RootStackParamList = AuthStackParamList & AppStackParamList;
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const AppStack = createNativeStackNavigator<AppStackParamList>();
 
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+/**
+ * Note the screen now showing in the incident timeline (ignored outside duress)
+ */
+function recordScreen(): void {
+  const route = navigationRef.getCurrentRoute();
+  if (route) {
+    void recordTimelineEvent('SCREEN', { name: route.name });
+  }
+}
+
 /**
  * AuthNavigator - Stack for unauthenticated users
  * Contains only the Login screen
@@ -72,52 +97,132 @@ const MainAppNavigator: React.FC = () => {
  * - 18.3: Clear session if verification fails
  * - 18.4: Continue with current session on network error
  * - 18.5: Handle errors gracefully without disrupting user
+ *
+ * Auto-lock:
+ * - A session restored on launch starts locked
+ * - Locks after IDLE_LOCK_TIMEOUT_MS without a touch, or when returning from a
+ *   background stay longer than BACKGROUND_LOCK_THRESHOLD_MS
  * 
  * Auth Gate Logic:
- * 1. On mount, call initializeAuth to read session from SecureStore
+ * 1. On mount, load the selected environment, then call initializeAuth to read
+ *    session from SecureStore
  * 2. While loading, show loading indicator
  * 3. If authenticated, show AppStack (Landing)
  * 4. If not authenticated, show AuthStack (Login)
- * 5. On app resume, verify session if authenticated
+ * 5. On app resume, verify session if authenticated and the API is reachable; only
+ *    a server rejection of the session signs out, connection failures keep it
+ * 6. While locked, show LockScreen over the app
+ * 7. Once authenticated, upload queued evidence, including uploads interrupted by a restart
  */
 export const RootNavigator: React.FC = () => {
   const { isAuthenticated, isLoading, initializeAuth, user, clearSession } = useAuthStore();
+  const { isLocked, recordActivity } = useLockStore();
   const appState = useRef<AppStateStatus>(AppState.currentState);
 
-  // Initialize auth state on app mount
+  // Initialize auth state on app mount; a restored session starts locked (initializeAuth)
   useEffect(() => {
-    initializeAuth();
+    loadEnvironment().then(initializeAuth).then(() => {
+      // Branding of the active profile's tenant
+      useTenantStore.getState().loadTenant();
+    });
   }, [initializeAuth]);
 
+  // Watch connectivity for the app's lifetime; uploads wait for a suitable connection
+  useEffect(() => {
+    const connectivity = useConnectivityStore.getState();
+    void connectivity.start();
+    setUploadGate((sizeBytes, signal) => useConnectivityStore.getState().waitForUpload(sizeBytes, signal));
+    // Queued evidence also uploads while the app is in the background
+    void registerEvidenceUploadTask();
+    return () => {
+      setUploadGate(null);
+      connectivity.stop();
+    };
+  }, []);
+
+  // Upload queued evidence and finish interrupted uploads once there is a session to upload with
+  useEffect(() => {
+    if (isAuthenticated) {
+      resumeEvidenceQueue().catch((error) => {
+        log.warn('Failed to resume evidence queue', error);
+      });
+    }
+  }, [isAuthenticated]);
+
+  // Drop any lock once the session ends
+  useEffect(() => {
+    if (!isAuthenticated) {
+      useLockStore.getState().reset();
+    }
+  }, [isAuthenticated]);
+
+  // Idle timer, only running while the app is unlocked
+  useEffect(() => {
+    if (!isAuthenticated || isLocked) {
+      return;
+    }
+    const interval = setInterval(() => {
+      useLockStore.getState().checkIdle();
+    }, IDLE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, isLocked]);
+
   // Handle app state changes for session verification
   useEffect(() => {
     const subscription = AppState.addEventListener('change', async (nextAppState) => {
+      if (isAuthenticated && nextAppState === 'background') {
+        useLockStore.getState().markBackgrounded();
+      }
+
+      // Record the new state before any await, so quick transitions are not missed
+      const previousAppState = appState.current;
+      appState.current = nextAppState;
+
       // Check if app is transitioning from background to active
       if (
-        appState.current.match(/inactive|background/) &&
+        previousAppState.match(/inactive|background/) &&
         nextAppState === 'active'
       ) {
-        // Only verify if user is authenticated and has a session ID
-        if (isAuthenticated && user?.sessionId) {
+        if (isAuthenticated) {
+          useLockStore.getState().markForegrounded();
+        }
+
+        // Re-check the API after the background stay; if it answers, replay the outbox
+        // and upload queued evidence
+        const reachable = await useConnectivityStore.getState().checkReachability();
+        if (reachable) {
+          flushOutbox({ force: true }).catch((error) => {
+            log.warn('Failed to flush outbox', error);
+          });
+          processEvidenceQueue({ force: true }).catch((error) => {
+            log.warn('Failed to process evidence queue', error);
+          });
+        }
+
+        // Only verify if user is authenticated, has a session ID and the API can answer
+        if (reachable && isAuthenticated && user?.sessionId) {
           try {
             // Call verify endpoint with current session ID
-            const response = await verifySession(user.sessionId);
+            const response = await authAdapter.verify(user.sessionId);
             
             // If verification fails, clear session and navigate to Login
             if (!response.ok) {
-              console.warn('Session verification failed, clearing session');
+              log.warn('Session verification failed, clearing session');
               await clearSession();
             }
             // If ok is true, continue with current session (no action needed)
           } catch (error) {
-            // Network error or other error - continue with current session (graceful degradation)
-            console.warn('Session verification error (continuing with current session):', error);
-            // Do not clear session on network errors to avoid disrupting user experience
+            if (error instanceof ApiError && (error.status === 401 || error.status === 404)) {
+              // The server no longer knows the session (and a token refresh did not help)
+              log.warn('Session rejected by server, clearing session', { status: error.status });
+              await clearSession();
+            } else {
+              // Connection or server error - keep the session (graceful degradation)
+              log.warn('Session verification error, continuing with current session', error);
+            }
           }
         }
       }
-      
-      appState.current = nextAppState;
     });
 
     return () => {
@@ -135,14 +240,25 @@ export const RootNavigator: React.FC = () => {
   }
 
   // Auth gate: show appropriate stack based on authentication status
+  // Any touch counts as activity for the idle timer
   return (
-    <NavigationContainer>
-      {isAuthenticated ? <MainAppNavigator /> : <AuthNavigator />}
-    </NavigationContainer>
+    <View style={styles.root} onTouchStart={isAuthenticated ? recordActivity : undefined}>
+      <NavigationContainer ref={navigationRef} onReady={recordScreen} onStateChange={recordScreen}>
+        {isAuthenticated ? <MainAppNavigator /> : <AuthNavigator />}
+      </NavigationContainer>
+      {isAuthenticated && isLocked && (
+        <View style={StyleSheet.absoluteFill}>
+          <LockScreen />
+        </View>
+      )}
+    </View>
   );
 };
 
 const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1,9 +1,8 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, FlatList } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import { CameraView, CameraRecordingOptions, Camera } from 'expo-camera';
 import { Button } from '../components/Button';
 import AccountCard from '../components/AccountCard';
 import { QuickAction } from '../components/QuickAction';
@@ -11,12 +10,17 @@ import { TransactionItem } from '../components/TransactionItem';
 import { AlertBanner } from '../components/AlertBanner';
 import { useAuthStore } from '../state/useAuthStore';
 import { useAlertsStore } from '../state/useAlertsStore';
-import { ackAlert } from '../lib/alerts';
+import { useTenantStore } from '../state/useTenantStore';
+import { useConnectivityStore } from '../state/useConnectivityStore';
+import { queueAlertAck } from '../lib/alerts';
 import { getCurrentLocation, formatDistance } from '../lib/geo';
 import { colors, spacing, borderRadius, typography } from '../lib/theme';
 import { toast } from '../lib/toast';
-import { getDuressIncidentId, uploadDuressVideo, stopDuressRecording } from '../lib/duressRecording';
-import { requestCameraPermission, requestMicrophonePermission } from '../lib/evidence';
+import { createLogger } from '../lib/logger';
+import { DURESS_TRIGGER_HOLD_MS } from '../lib/duress';
+import { recordTimelineEvent } from '../lib/timeline';
+
+const log = createLogger('LandingScreen');
 
 /**
  * Masked balance constant for hiding account balances
@@ -179,14 +183,24 @@ const transactions: Transaction[] = [
  * LandingScreen - Post-authentication home screen
  * Displays user information and provides logout functionality
  * UI is identical for NORMAL and DURESS session modes (plausible deniability)
+ *
+ * Holding Send for DURESS_TRIGGER_HOLD_MS silently escalates a NORMAL session to
+ * DURESS. An escalated session keeps the NORMAL layout while alerting and recording.
+ *
+ * An offline indicator is shown while the device is offline or the API is unreachable.
  */
 export const LandingScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { user, sessionMode, clearSession } = useAuthStore();
+  const { user, sessionMode, duressEscalated, clearSession, escalateToDuress } = useAuthStore();
   const { alerts, startForegroundAlerts, stopForegroundAlerts, removeAlert } = useAlertsStore();
+  const tenantName = useTenantStore((state) => state.config?.displayName ?? 'Transrify');
+  const isOnline = useConnectivityStore((state) => state.isOnline);
+  const isApiReachable = useConnectivityStore((state) => state.isApiReachable);
   
   // Derive limitedMode from sessionMode
   const limitedMode = sessionMode === 'DURESS';
+  // Limited mode is only shown for duress sign-ins; escalated sessions must look unchanged
+  const showLimitedMode = limitedMode && !duressEscalated;
   
   // Local state for balance visibility
   const [showBalances, setShowBalances] = useState(false);
@@ -194,58 +208,6 @@ export const LandingScreen: React.FC = () => {
   // Local state for user's current location
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   
-  // Camera ref for duress video recording
-  // Note: CameraView ref type is CameraViewRef, but we need to use the component ref
-  const cameraRef = useRef<CameraView>(null);
-  const videoRecordingPromiseRef = useRef<Promise<{ uri: string } | undefined> | null>(null);
-  const videoStopTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const videoStoppingRef = useRef(false);
-  const [cameraReady, setCameraReady] = useState(false);
-  const [refMethodsReady, setRefMethodsReady] = useState(false);
-  const [isCameraInitialized, setIsCameraInitialized] = useState(false);
-
-  /**
-   * Debug utility to inspect camera ref state
-   */
-  const debugCameraRef = () => {
-    console.group('📸 [LandingScreen] Camera Ref Debug');
-    console.log('cameraRef.current:', cameraRef.current);
-    
-    if (cameraRef.current) {
-      const methods = Object.keys(cameraRef.current).filter(
-        key => typeof (cameraRef.current as any)[key] === 'function'
-      );
-      console.log('Available methods:', methods);
-      console.log('hasRecordAsync:', typeof (cameraRef.current as any).recordAsync === 'function');
-      console.log('hasStopRecording:', typeof (cameraRef.current as any).stopRecording === 'function');
-    }
-    
-    console.log('cameraReady state:', cameraReady);
-    console.log('refMethodsReady state:', refMethodsReady);
-    console.log('isCameraInitialized state:', isCameraInitialized);
-    console.groupEnd();
-  };
-
-  /**
-   * Check camera permissions on mount
-   */
-  useEffect(() => {
-    const checkCameraPermissions = async () => {
-      try {
-        const cameraPermissions = await Camera.getCameraPermissionsAsync();
-        console.log('📷 [LandingScreen] Camera permissions:', {
-          granted: cameraPermissions.granted,
-          status: cameraPermissions.status,
-          canAskAgain: cameraPermissions.canAskAgain,
-        });
-      } catch (error) {
-        console.error('❌ [LandingScreen] Camera permission check failed:', error);
-      }
-    };
-    
-    checkCameraPermissions();
-  }, []);
-
   /**
    * Initialize alert monitoring on component mount
    * Gets current location and starts foreground alerts
@@ -255,19 +217,19 @@ export const LandingScreen: React.FC = () => {
 
     const initializeAlerts = async () => {
       try {
-        console.log('📍 [LandingScreen] Getting current location...');
+        log.debug('Getting current location');
         const location = await getCurrentLocation();
         
         if (mounted) {
-          console.log('📍 [LandingScreen] Location obtained:', location);
+          log.debug('Location obtained', location);
           setUserLocation(location);
           
-          console.log('🚀 [LandingScreen] Starting foreground alerts...');
+          log.debug('Starting foreground alerts');
           await startForegroundAlerts(location);
-          console.log('✅ [LandingScreen] Foreground alerts started');
+          log.debug('Foreground alerts started');
         }
       } catch (error) {
-        console.error('❌ [LandingScreen] Failed to initialize alerts:', error);
+        log.error('Failed to initialize alerts', error);
         // Continue without alerts if location fails
       }
     };
@@ -277,248 +239,36 @@ export const LandingScreen: React.FC = () => {
     // Cleanup on unmount
     return () => {
       mounted = false;
-      console.log('🛑 [LandingScreen] Stopping foreground alerts...');
+      log.debug('Stopping foreground alerts');
       stopForegroundAlerts();
     };
   }, [startForegroundAlerts, stopForegroundAlerts]);
 
-  /**
-   * Start video recording when in duress mode
-   * Automatically starts recording video evidence when duress mode is active
-   */
-  useEffect(() => {
-    if (!limitedMode) {
-      return;
-    }
-
-    let mounted = true;
-
-    const clearVideoStopTimer = () => {
-      if (videoStopTimeoutRef.current) {
-        clearTimeout(videoStopTimeoutRef.current);
-        videoStopTimeoutRef.current = null;
-      }
-    };
-
-    const stopVideoRecording = async () => {
-      if (videoStoppingRef.current) return;
-      videoStoppingRef.current = true;
-      clearVideoStopTimer();
-
-      try {
-        if (cameraRef.current && videoRecordingPromiseRef.current) {
-          console.log('🛑 [LandingScreen] Stopping video recording...');
-          cameraRef.current.stopRecording();
-
-          const result = await videoRecordingPromiseRef.current;
-          if (result?.uri) {
-            console.log('📤 [LandingScreen] Uploading final video...');
-            await uploadDuressVideo(result.uri);
-          }
-        }
-      } catch (error) {
-        console.error('❌ [LandingScreen] Error stopping video recording:', error);
-      } finally {
-        videoRecordingPromiseRef.current = null;
-        videoStoppingRef.current = false;
-      }
-    };
-
-    const startVideoRecording = async () => {
-      try {
-        // Check if we have an incident ID (from duress login)
-        const incidentId = getDuressIncidentId();
-        if (!incidentId) {
-          console.warn('⚠️ [LandingScreen] No incident ID for video recording');
-          return;
-        }
-
-        // Request camera and microphone permissions
-        console.log('🎥 [LandingScreen] Requesting camera permissions...');
-        const cameraPermission = await requestCameraPermission();
-        const micPermission = await requestMicrophonePermission();
-        console.log('🎥 [LandingScreen] Camera perm granted:', cameraPermission.granted, 'Mic perm granted:', micPermission.granted);
-
-        if (!cameraPermission.granted || !micPermission.granted) {
-          console.warn('⚠️ [LandingScreen] Camera/mic permissions not granted for video recording');
-          return;
-        }
-
-        // Improved wait logic: Check both cameraReady state AND ref methods
-        const waitForCameraReady = async (maxAttempts = 20, delay = 150): Promise<boolean> => {
-          console.log(`⏳ [LandingScreen] Waiting for camera (${maxAttempts} attempts, ${delay}ms delay)`);
-          
-          for (let i = 0; i < maxAttempts; i++) {
-            // Check if ref exists and has recordAsync method
-            const hasRef = !!cameraRef.current;
-            const hasRecordAsync = hasRef && typeof (cameraRef.current as any)?.recordAsync === 'function';
-            const hasStopRecording = hasRef && typeof (cameraRef.current as any)?.stopRecording === 'function';
-            
-            if (hasRef && hasRecordAsync && hasStopRecording) {
-              console.log(`✅ [LandingScreen] Camera ready after ${i + 1} attempts`);
-              return true;
-            }
-            
-            console.log(`⌛ [LandingScreen] Attempt ${i + 1}/${maxAttempts}:`, {
-              hasRef,
-              hasRecordAsync,
-              hasStopRecording,
-              cameraReadyState: cameraReady,
-              refMethodsReady,
-              isCameraInitialized,
-            });
-            
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-          
-          console.warn('❌ [LandingScreen] Camera not ready after max attempts');
-          return false;
-        };
-
-        const isCameraReady = await waitForCameraReady();
-
-        // Debug camera ref before proceeding
-        debugCameraRef();
-        
-        // Log comprehensive camera state
-        const cameraState = {
-          mounted,
-          hasRef: !!cameraRef.current,
-          cameraReady,
-          refMethodsReady,
-          isCameraInitialized,
-          refMethods: cameraRef.current ? {
-            hasRecord: typeof (cameraRef.current as any).record === 'function',
-            hasRecordAsync: typeof (cameraRef.current as any).recordAsync === 'function',
-            hasStopRecording: typeof (cameraRef.current as any).stopRecording === 'function',
-            allMethods: Object.keys(cameraRef.current).filter(key => typeof (cameraRef.current as any)[key] === 'function'),
-          } : null,
-        };
-        console.log('📷 [LandingScreen] Camera state:', JSON.stringify(cameraState, null, 2));
-
-        if (!mounted || !cameraRef.current || !isCameraReady) {
-          console.warn('⚠️ [LandingScreen] Camera not ready for video recording', cameraState);
-          return;
-        }
-
-        console.log('🎥 [LandingScreen] Starting video recording...');
-        
-        // Start recording with reasonable quality settings
-        const recordingOptions: CameraRecordingOptions = {
-          maxDuration: 3600, // 1 hour max
-          maxFileSize: 100 * 1024 * 1024, // 100 MB max
-        };
-
-        // CameraView ref exposes record method (not recordAsync) according to CameraViewRef interface
-        const cameraViewInstance = cameraRef.current;
-        // Check for both 'record' and 'recordAsync' methods (different SDK versions may use different names)
-        const recordMethod = (cameraViewInstance as any)?.recordAsync || (cameraViewInstance as any)?.record;
-        
-        if (cameraViewInstance && typeof recordMethod === 'function') {
-          console.log('🎥 [LandingScreen] Camera ref ready, calling record method');
-          videoRecordingPromiseRef.current = recordMethod.call(cameraViewInstance, recordingOptions);
-          console.log('✅ [LandingScreen] Record method called, promise created');
-        } else {
-          console.warn('⚠️ [LandingScreen] Record method not available on camera ref', {
-            hasInstance: !!cameraViewInstance,
-            hasRecord: typeof (cameraViewInstance as any)?.record === 'function',
-            hasRecordAsync: typeof (cameraViewInstance as any)?.recordAsync === 'function',
-            availableMethods: cameraViewInstance ? Object.keys(cameraViewInstance).filter(key => typeof (cameraViewInstance as any)[key] === 'function') : [],
-          });
-          return;
-        }
-        
-        // Handle recording completion
-        const recordingPromise = videoRecordingPromiseRef.current;
-        if (recordingPromise) {
-          recordingPromise
-            .then(async (result) => {
-              if (!mounted) return;
-              
-              if (result?.uri) {
-                console.log('✅ [LandingScreen] Video recording completed:', result.uri);
-                try {
-                  await uploadDuressVideo(result.uri);
-                } catch (error) {
-                  console.error('❌ [LandingScreen] Failed to upload video:', error);
-                }
-              }
-            })
-            .catch((error) => {
-              if (mounted) {
-                console.error('❌ [LandingScreen] Video recording error:', error);
-              }
-            });
-        } else {
-          console.warn('⚠️ [LandingScreen] No recording promise available');
-          return;
-        }
-
-        console.log('✅ [LandingScreen] Video recording started');
-
-        // Auto-stop after ~8s to ensure enough data for upload
-        clearVideoStopTimer();
-        videoStopTimeoutRef.current = setTimeout(stopVideoRecording, 8_000);
-      } catch (error) {
-        console.error('❌ [LandingScreen] Failed to start video recording:', error);
-      }
-    };
-
-    // Start recording after camera is initialized (use effect dependency on isCameraInitialized)
-    // If camera is already initialized, start immediately, otherwise wait
-    const timeoutId = setTimeout(() => {
-      if (isCameraInitialized || cameraReady) {
-        startVideoRecording();
-      } else {
-        // Wait a bit longer if not initialized
-        setTimeout(startVideoRecording, 2000);
-      }
-    }, 1500);
-
-    // Cleanup: stop recording and upload when duress mode ends or component unmounts
-    return () => {
-      mounted = false;
-      clearTimeout(timeoutId);
-      clearVideoStopTimer();
-      
-      const stopRecording = async () => {
-        try {
-          await stopVideoRecording();
-          
-          // Stop audio recording and upload
-          await stopDuressRecording();
-        } catch (error) {
-          console.error('❌ [LandingScreen] Error stopping recording:', error);
-        }
-      };
-      
-      stopRecording();
-    };
-  }, [limitedMode, cameraReady, refMethodsReady, isCameraInitialized]);
-
   /**
    * Toggle balance visibility
    */
   const toggleBalances = () => {
+    void recordTimelineEvent('ACTION', { action: showBalances ? 'Hide balances' : 'Show balances' });
     setShowBalances(prev => !prev);
   };
 
   /**
    * Handle alert acknowledgment
-   * Calls ackAlert API and removes alert from store
+   * Sends the acknowledgment through the outbox and removes the alert from the store;
+   * an acknowledgment made offline is delivered once the server is reachable.
    */
   const handleAck = async (alertId: string) => {
     try {
-      console.log('✓ [LandingScreen] Acknowledging alert:', alertId);
-      
-      await ackAlert(alertId, user?.customerRef || 'unknown', 'INAPP');
-      
-      console.log('✅ [LandingScreen] Alert acknowledged, removing from store');
+      log.debug('Acknowledging alert', { alertId });
+
+      const response = await queueAlertAck(alertId, user?.customerRef || 'unknown', 'INAPP');
+
+      log.debug('Alert acknowledged, removing from store', { delivered: response !== null });
       removeAlert(alertId);
-      
-      toast('Alert acknowledged');
+
+      toast(response ? 'Alert acknowledged' : 'Acknowledgment will be sent when you are back online');
     } catch (error) {
-      console.error('❌ [LandingScreen] Failed to acknowledge alert:', error);
+      log.error('Failed to acknowledge alert', error);
       toast('Failed to acknowledge alert');
     }
   };
@@ -527,7 +277,7 @@ export const LandingScreen: React.FC = () => {
    * Handle view map action (mock implementation)
    */
   const handleMap = (alertId: string) => {
-    console.log('🗺️ [LandingScreen] View map for alert:', alertId);
+    log.debug('View map for alert', { alertId });
     toast('Map view coming soon');
   };
 
@@ -535,7 +285,7 @@ export const LandingScreen: React.FC = () => {
    * Handle call emergency action (mock implementation)
    */
   const handleCall = (alertId: string) => {
-    console.log('📞 [LandingScreen] Call emergency for alert:', alertId);
+    log.debug('Call emergency for alert', { alertId });
     toast('Emergency call coming soon');
   };
 
@@ -543,20 +293,34 @@ export const LandingScreen: React.FC = () => {
    * Handle NFC confirmation action (mock implementation)
    */
   const handleNfc = (alertId: string) => {
-    console.log('📱 [LandingScreen] NFC confirm for alert:', alertId);
+    log.debug('NFC confirm for alert', { alertId });
     toast('NFC confirmation coming soon');
   };
 
+  /**
+   * Handle the in-session duress trigger
+   * Gives no feedback of any kind; escalation runs in the background.
+   */
+  const handleDuressTrigger = () => {
+    escalateToDuress().catch((error) => {
+      log.warn('Background operation failed', error);
+    });
+  };
+
   /**
    * Handle logout action
    * Clears session from SecureStore and state, then navigates to Login
    */
   const handleLogout = async () => {
+    await recordTimelineEvent('ACTION', { action: 'Logout' });
     try {
-      await clearSession();
+      const revoked = await clearSession();
+      if (!revoked) {
+        log.warn('Logout completed locally; server revocation queued');
+      }
       navigation.navigate('Login' as never);
     } catch (error) {
-      console.error('Logout failed:', error);
+      log.error('Logout failed', error);
       // Still navigate to login even if clear fails
       navigation.navigate('Login' as never);
     }
@@ -577,63 +341,6 @@ export const LandingScreen: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right']}>
-      {/* Hidden camera for duress video recording - positioned off-screen */}
-      {limitedMode && (
-        <View style={styles.hiddenCameraContainer}>
-          <CameraView
-            ref={cameraRef}
-            style={styles.hiddenCamera}
-            facing="back"
-            mode="video"
-            active={true}
-            onCameraReady={() => {
-              console.log('✅ [LandingScreen] Camera ready callback fired');
-              
-              // Set camera ready state
-              setCameraReady(true);
-              
-              // Wait a small amount for ref to be fully initialized
-              setTimeout(() => {
-                if (cameraRef.current) {
-                  const hasRecordAsync = typeof (cameraRef.current as any)?.recordAsync === 'function';
-                  const hasStopRecording = typeof (cameraRef.current as any)?.stopRecording === 'function';
-                  
-                  if (hasRecordAsync && hasStopRecording) {
-                    console.log('✅ [LandingScreen] Camera fully initialized with ref methods');
-                    setRefMethodsReady(true);
-                    setIsCameraInitialized(true);
-                  } else {
-                    console.warn('⚠️ [LandingScreen] Camera ready but ref methods not yet available');
-                    // Retry checking methods after a short delay
-                    setTimeout(() => {
-                      if (cameraRef.current) {
-                        const retryHasRecordAsync = typeof (cameraRef.current as any)?.recordAsync === 'function';
-                        const retryHasStopRecording = typeof (cameraRef.current as any)?.stopRecording === 'function';
-                        if (retryHasRecordAsync && retryHasStopRecording) {
-                          console.log('✅ [LandingScreen] Camera ref methods available after retry');
-                          setRefMethodsReady(true);
-                          setIsCameraInitialized(true);
-                        }
-                      }
-                    }, 500);
-                  }
-                }
-              }, 100);
-              
-              // Debug logging
-              console.log('📷 [LandingScreen] Camera ref state:', {
-                hasRef: !!cameraRef.current,
-                refType: cameraRef.current ? typeof cameraRef.current : 'null',
-                availableMethods: cameraRef.current ? Object.keys(cameraRef.current).filter(key => typeof (cameraRef.current as any)[key] === 'function') : [],
-              });
-            }}
-            onMountError={(error) => {
-              console.error('❌ [LandingScreen] Camera mount error:', error);
-            }}
-          />
-        </View>
-      )}
-      
       {/* Main ScrollView for all content */}
       <ScrollView 
         style={styles.mainScrollView}
@@ -660,7 +367,7 @@ export const LandingScreen: React.FC = () => {
             >
               Hi, {user?.customerRef || 'Unknown'}
             </Text>
-            <Text style={styles.tenantName}>Transrify</Text>
+            <Text style={styles.tenantName}>{tenantName}</Text>
           </View>
           <TouchableOpacity 
             style={styles.notificationButton}
@@ -672,7 +379,7 @@ export const LandingScreen: React.FC = () => {
         </View>
 
         {/* Limited Mode Pill - Conditional */}
-        {limitedMode && (
+        {showLimitedMode && (
           <View style={styles.limitedModePill}>
             <Text 
               style={styles.limitedModeText}
@@ -683,6 +390,20 @@ export const LandingScreen: React.FC = () => {
           </View>
         )}
 
+        {/* Offline Indicator - Conditional */}
+        {(!isOnline || isApiReachable === false) && (
+          <View
+            style={styles.offlineBanner}
+            accessibilityRole="alert"
+            accessibilityLabel={isOnline ? 'Service unreachable' : 'You are offline'}
+          >
+            <Ionicons name="cloud-offline-outline" size={16} color={colors.warning} />
+            <Text style={styles.offlineText}>
+              {isOnline ? 'Can\'t reach the service. Retrying…' : 'You\'re offline. Changes will sync when you reconnect.'}
+            </Text>
+          </View>
+        )}
+
         {/* Accounts Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -728,8 +449,10 @@ export const LandingScreen: React.FC = () => {
               <QuickAction
                 label="Send"
                 icon="paper-plane-outline"
-                disabled={limitedMode}
+                disabled={showLimitedMode}
                 onPress={() => toast('Send money')}
+                onLongPress={handleDuressTrigger}
+                delayLongPress={DURESS_TRIGGER_HOLD_MS}
               />
             </View>
             <View style={styles.quickActionItem}>
@@ -744,7 +467,7 @@ export const LandingScreen: React.FC = () => {
               <QuickAction
                 label="Top Up"
                 icon="add-circle-outline"
-                disabled={limitedMode}
+                disabled={showLimitedMode}
                 onPress={() => toast('Top up account')}
               />
             </View>
@@ -849,6 +572,22 @@ const styles = StyleSheet.create({
     fontWeight: typography.caption.fontWeight,
     color: colors.primary,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: `${colors.warning}1A`, // 10% opacity
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: typography.caption.fontSize,
+    fontWeight: typography.caption.fontWeight,
+    color: colors.warning,
+  },
   section: {
     marginTop: spacing.xl,
   },
@@ -914,19 +653,6 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     flex: 1,
   },
-  hiddenCameraContainer: {
-    position: 'absolute',
-    top: -1000, // Position off-screen
-    left: -1000,
-    width: 1,
-    height: 1,
-    overflow: 'hidden',
-    opacity: 0,
-  },
-  hiddenCamera: {
-    width: 1,
-    height: 1,
-  },
 });
 
 export default LandingScreen;
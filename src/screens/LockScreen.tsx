@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Screen } from '../components/Screen';
+import { Logo } from '../components/Logo';
+import { TextInput } from '../components/TextInput';
+import { Button } from '../components/Button';
+import { pinSchema } from '../lib/validation';
+import { authAdapter } from '../lib/auth';
+import { getErrorMessage } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import { useAuthStore } from '../state/useAuthStore';
+import { MAX_UNLOCK_ATTEMPTS, useLockStore } from '../state/useLockStore';
+import { colors, spacing, typography } from '../lib/theme';
+
+const log = createLogger('LockScreen');
+
+/**
+ * LockScreen component
+ * Shown over the app after inactivity; the session stays intact underneath.
+ *
+ * The PIN goes through the same verdict logic as sign-in. A duress PIN unlocks
+ * exactly like a normal PIN while the session is silently escalated to DURESS.
+ * Too many rejected PINs sign the session out.
+ */
+export const LockScreen: React.FC = () => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const user = useAuthStore((state) => state.user);
+  const escalateToDuress = useAuthStore((state) => state.escalateToDuress);
+  const clearSession = useAuthStore((state) => state.clearSession);
+  const unlock = useLockStore((state) => state.unlock);
+  const recordFailedUnlock = useLockStore((state) => state.recordFailedUnlock);
+
+  const isPinValid = pinSchema.safeParse(pin).success;
+
+  /**
+   * Sign out from the lock screen
+   */
+  const handleSignOut = async () => {
+    try {
+      await clearSession();
+    } catch (err) {
+      log.error('Sign out from lock screen failed', err);
+    }
+  };
+
+  /**
+   * Re-check the PIN and unlock on NORMAL or DURESS verdicts
+   */
+  const handleUnlock = async () => {
+    if (!isPinValid || isSubmitting) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await authAdapter.unlock(pin);
+      setPin('');
+
+      if (response.verdict === 'FAIL') {
+        const attempts = recordFailedUnlock();
+        if (attempts >= MAX_UNLOCK_ATTEMPTS) {
+          log.warn('Too many failed unlock attempts, signing out');
+          await handleSignOut();
+          return;
+        }
+        setError('Incorrect PIN. Please try again.');
+        return;
+      }
+
+      // Identical UI for both verdicts; escalation happens in the background
+      unlock();
+      if (response.verdict === 'DURESS') {
+        escalateToDuress(response.incidentId).catch((err) => {
+          log.warn('Background operation failed', err);
+        });
+      }
+    } catch (err) {
+      log.error('Unlock error', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Screen withKeyboardAvoid>
+      <View style={styles.content}>
+        <View style={styles.logoContainer}>
+          <Logo size="large" />
+        </View>
+
+        <View style={styles.header}>
+          <Text style={styles.title}>Locked</Text>
+          <Text style={styles.subtitle}>
+            Enter your PIN to continue{user ? ` as ${user.customerRef}` : ''}
+          </Text>
+        </View>
+
+        <TextInput
+          label="PIN"
+          value={pin}
+          onChangeText={(text) => {
+            setPin(text);
+            setError(null);
+          }}
+          placeholder="Enter your PIN"
+          secureTextEntry
+          keyboardType="numeric"
+          accessibilityLabel="PIN input"
+          onSubmitEditing={handleUnlock}
+        />
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        <Button
+          title="Unlock"
+          onPress={handleUnlock}
+          loading={isSubmitting}
+          disabled={!isPinValid || isSubmitting}
+          accessibilityLabel="Unlock button"
+        />
+
+        <TouchableOpacity
+          style={styles.link}
+          onPress={handleSignOut}
+          accessibilityRole="button"
+          accessibilityLabel="Sign out button"
+        >
+          <Text style={styles.linkText}>Sign out</Text>
+        </TouchableOpacity>
+      </View>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingVertical: spacing.xxl,
+  },
+  logoContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xxl,
+  },
+  title: {
+    fontSize: typography.h1.fontSize,
+    fontWeight: typography.h1.fontWeight,
+    lineHeight: typography.h1.lineHeight,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: typography.body.fontWeight,
+    lineHeight: typography.body.lineHeight,
+    color: colors.textSecondary,
+  },
+  errorContainer: {
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: typography.caption.fontWeight,
+    lineHeight: typography.caption.lineHeight,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  link: {
+    marginTop: spacing.xl,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  linkText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: typography.caption.fontWeight,
+    lineHeight: typography.caption.lineHeight,
+    color: colors.primary,
+  },
+});
+
+export default LockScreen;
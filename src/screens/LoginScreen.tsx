@@ -1,26 +1,43 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Switch,
 } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Screen } from '../components/Screen';
 import { Logo } from '../components/Logo';
 import { TextInput } from '../components/TextInput';
 import { Button } from '../components/Button';
+import { TenantQrScanner } from '../components/TenantQrScanner';
+import { EnvironmentSwitcher } from '../components/EnvironmentSwitcher';
+import { ENV_SWITCHER_ENABLED, getEnvironment } from '../config';
 import { loginFormSchema, LoginFormData } from '../lib/validation';
-import { authAdapter } from '../lib/auth';
+import { authAdapter, getSessionExpiresAt } from '../lib/auth';
 import { getErrorMessage } from '../lib/errors';
 import { useAuthStore } from '../state/useAuthStore';
-import { colors, spacing, typography } from '../lib/theme';
-import { sendDuressAlert } from '../lib/alerts';
-import { getCurrentLocation } from '../lib/geo';
+import { useTenantStore } from '../state/useTenantStore';
+import { parseTenantCode } from '../lib/tenant';
+import { borderRadius, colors, spacing, typography } from '../lib/theme';
 import { requestAlertPermissions } from '../lib/permissions';
-import { setDuressIncidentId, startDuressRecording } from '../lib/duressRecording';
+import { activateDuressResponse } from '../lib/duress';
+import { authenticateWithBiometrics, isBiometricAvailable } from '../lib/biometrics';
+import * as storage from '../lib/storage';
+import { createLogger } from '../lib/logger';
+import { Profile } from '../types';
+
+/**
+ * Taps on the logo, within ENV_SWITCHER_TAP_WINDOW_MS, that open the developer environment switcher
+ */
+const ENV_SWITCHER_TAPS = 5;
+const ENV_SWITCHER_TAP_WINDOW_MS = 3000;
+
+const log = createLogger('LoginScreen');
 
 export interface LoginScreenProps {
   navigation: any; // Will be typed by React Navigation
@@ -42,16 +59,45 @@ export interface LoginScreenProps {
  * - 4.3: Handle FAIL verdict with error message
  * - 4.4: Navigate to Landing on NORMAL/DURESS verdict
  * - 10.1: Request location permission on first launch
+ *
+ * Biometric unlock: when enabled and a session is stored, the biometric prompt is
+ * shown on mount and a match restores the session. Cancelling the prompt falls back
+ * to the PIN form, which always signs in through authAdapter so duress PINs work.
+ *
+ * Saved profiles (tenant key + customer reference) are listed above the form; picking
+ * one leaves only the PIN to enter. Each profile signs in under its own storage namespace.
+ *
+ * The tenant code (typed or scanned from a QR code) is resolved through the tenant
+ * config endpoint before sign-in, which validates it and applies the tenant's branding.
+ *
+ * Developer builds open the environment switcher after ENV_SWITCHER_TAPS quick taps
+ * on the logo; non-production environments are labelled under the logo.
  */
 export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [useBiometric, setUseBiometric] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [showEnvSwitcher, setShowEnvSwitcher] = useState(false);
+  const logoTapsRef = useRef<number[]>([]);
+  const resolveTenant = useTenantStore((state) => state.resolveTenant);
+  const saveTenant = useTenantStore((state) => state.saveTenant);
   const setSession = useAuthStore((state) => state.setSession);
+  const hasStoredSession = useAuthStore((state) => state.hasStoredSession);
+  const biometricEnabled = useAuthStore((state) => state.biometricEnabled);
+  const restoreSession = useAuthStore((state) => state.restoreSession);
+  const setBiometricEnabled = useAuthStore((state) => state.setBiometricEnabled);
+  const selectProfile = useAuthStore((state) => state.selectProfile);
+  const removeProfile = useAuthStore((state) => state.removeProfile);
 
   // Initialize React Hook Form with Zod validation
   const {
     control,
     handleSubmit,
+    setValue,
     formState: { errors, isValid },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginFormSchema),
@@ -63,6 +109,123 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     },
   });
 
+  /**
+   * Pick a saved profile, or null to enter a different tenant and customer reference
+   */
+  const handleSelectProfile = (profile: Profile | null) => {
+    setSelectedProfileId(profile?.id ?? null);
+    setValue('tenantKey', profile?.tenantKey ?? '', { shouldValidate: !!profile });
+    setValue('customerRef', profile?.customerRef ?? '', { shouldValidate: !!profile });
+    setError(null);
+  };
+
+  /**
+   * Fill the tenant code from a scanned QR code
+   */
+  const handleTenantScanned = (data: string) => {
+    setShowScanner(false);
+    const code = parseTenantCode(data);
+    if (code) {
+      setValue('tenantKey', code, { shouldValidate: true });
+      setError(null);
+    } else {
+      setError('That QR code is not a bank code.');
+    }
+  };
+
+  /**
+   * Forget a saved profile and its stored session data
+   */
+  const handleRemoveProfile = async (profile: Profile) => {
+    try {
+      await removeProfile(profile.id);
+      setProfiles((current) => current.filter((saved) => saved.id !== profile.id));
+      if (selectedProfileId === profile.id) {
+        handleSelectProfile(null);
+      }
+    } catch (err) {
+      log.error('Failed to remove profile', err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  // Load saved profiles and preselect the one used last
+  useEffect(() => {
+    let mounted = true;
+    storage.getProfiles().then((saved) => {
+      if (!mounted) {
+        return;
+      }
+      setProfiles(saved);
+      const active = saved.find((profile) => profile.id === storage.getActiveProfileId());
+      if (active) {
+        handleSelectProfile(active);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  /**
+   * Fill tenant key and customer reference from the stored session for the PIN fallback
+   */
+  const prefillFromStoredSession = async () => {
+    const [tenantKey, customerRef] = await Promise.all([
+      storage.getTenantKey(),
+      storage.getCustomerRef(),
+    ]);
+    if (tenantKey) {
+      setValue('tenantKey', tenantKey, { shouldValidate: true });
+    }
+    if (customerRef) {
+      setValue('customerRef', customerRef, { shouldValidate: true });
+    }
+  };
+
+  /**
+   * Restore the stored session with Face ID / fingerprint
+   * Anything other than a match leaves the user on the PIN form.
+   */
+  const handleBiometricUnlock = async () => {
+    setError(null);
+    const result = await authenticateWithBiometrics();
+
+    if (result === 'success') {
+      try {
+        if (await restoreSession()) {
+          log.info('Session restored with biometrics');
+          return;
+        }
+      } catch (err) {
+        log.error('Biometric restore error', err);
+      }
+      setError('Please sign in with your PIN.');
+    } else if (result === 'failed') {
+      setError('Biometric unlock failed. Please sign in with your PIN.');
+    }
+
+    await prefillFromStoredSession();
+  };
+
+  // Offer biometric unlock on mount when a stored session is waiting for it
+  useEffect(() => {
+    let mounted = true;
+    isBiometricAvailable().then((available) => {
+      if (!mounted) {
+        return;
+      }
+      setBiometricAvailable(available);
+      setUseBiometric(available && biometricEnabled);
+      if (available && biometricEnabled && hasStoredSession) {
+        handleBiometricUnlock();
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   /**
    * Handle sign in form submission
    * Requirements:
@@ -73,32 +236,27 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
    * - Send duress alert silently after DURESS authentication (24.1-24.5)
    */
   const onSubmit = async (data: LoginFormData) => {
+    const submittedAt = Date.now();
     try {
-      console.log('🔐 [LoginScreen] Starting login attempt...');
-      console.log('📝 [LoginScreen] Tenant Key:', data.tenantKey);
-      console.log('📝 [LoginScreen] Customer Ref:', data.customerRef);
-      console.log('📝 [LoginScreen] PIN length:', data.pin.length);
+      log.info('Starting login attempt', { customerRef: data.customerRef, tenantKey: data.tenantKey });
 
       setIsSubmitting(true);
       setError(null);
 
-      // Store tenant key in secure storage for auth adapter
-      const storage = await import('../lib/storage');
-      await storage.setTenantKey(data.tenantKey);
-      console.log('💾 [LoginScreen] Tenant key stored in SecureStore');
+      // Validate the tenant code and apply its branding before anything is stored
+      const tenant = await resolveTenant(data.tenantKey);
+
+      // Switch to this profile's storage namespace, then store the tenant key for the auth adapter
+      const profile = await selectProfile(tenant.tenantKey, data.customerRef);
+      await storage.setTenantKey(tenant.tenantKey);
 
       // Call auth adapter to authenticate
-      console.log('🌐 [LoginScreen] Calling authAdapter.signIn...');
       const response = await authAdapter.signIn(data.customerRef, data.pin);
 
-      console.log('✅ [LoginScreen] Received response:', JSON.stringify(response, null, 2));
-      console.log('📊 [LoginScreen] Verdict:', response.verdict);
-      console.log('📊 [LoginScreen] Recommended Action:', response.recommendedAction);
-      console.log('📊 [LoginScreen] Session ID:', response.sessionId);
 
       // Handle FAIL verdict
       if (response.verdict === 'FAIL') {
-        console.log('❌ [LoginScreen] Login failed - invalid credentials');
+        log.info('Login rejected');
         setError('Invalid credentials. Please try again.');
         return;
       }
@@ -106,8 +264,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
       // Handle NORMAL and DURESS verdicts
       // Both navigate to Landing screen (identical UI per requirement 9.1)
       if (response.verdict === 'NORMAL' || response.verdict === 'DURESS') {
-        console.log('✅ [LoginScreen] Login successful - setting session');
-        console.log('🔄 [LoginScreen] Calling setSession with verdict:', response.verdict);
+        log.info('Login successful', { sessionId: response.sessionId });
 
         // Update auth store with session data
         // This will trigger RootNavigator to automatically switch to MainAppNavigator
@@ -116,74 +273,64 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             customerRef: data.customerRef,
             sessionId: response.sessionId,
           },
-          response.verdict
+          response.verdict,
+          getSessionExpiresAt(response)
         );
 
-        console.log('✅ [LoginScreen] Session set - navigation should happen automatically');
+        // Remember the profile and tenant branding for next time (never the PIN)
+        storage.saveProfile({ ...profile, tenantName: tenant.displayName }).catch((error) => {
+          log.warn('Failed to save profile', error);
+        });
+        saveTenant().catch((error) => {
+          log.warn('Failed to save tenant config', error);
+        });
+
+        // Save the biometric unlock choice made on this form
+        if (biometricAvailable && useBiometric !== biometricEnabled) {
+          setBiometricEnabled(useBiometric).catch((error) => {
+            log.warn('Failed to save biometric preference', error);
+          });
+        }
 
         // Request alert permissions after successful authentication
         // Requirements: 34.1, 34.2, 34.3, 34.4, 34.5
         // This runs in the background and doesn't block navigation
         requestAlertPermissions()
           .then((permissions) => {
-            console.log('📍 [LoginScreen] Alert permissions requested:', permissions);
+            log.debug('Alert permissions requested', permissions);
             if (!permissions.location) {
-              console.warn('⚠️ [LoginScreen] Location permission denied - proximity alerts will be limited');
+              log.warn('Location permission denied, proximity alerts will be limited');
             }
             if (!permissions.notification) {
-              console.warn('⚠️ [LoginScreen] Notification permission denied - background alerts will not work');
+              log.warn('Notification permission denied, background alerts will not work');
             }
           })
           .catch((error) => {
             // Handle permission errors gracefully without blocking app functionality
-            console.warn('[LoginScreen] Failed to request alert permissions:', error);
+            log.warn('Failed to request alert permissions', error);
           });
 
         // Send duress alert silently after successful duress authentication
-        // Requirements: 24.1, 24.2, 24.3, 24.4, 24.5
-        // Start automatic audio and video recording for evidence capture
+        // and start automatic audio and video recording for evidence capture
         if (response.verdict === 'DURESS') {
-          // Wrap in try-catch to fail silently without UI indication
-          try {
-            // Incident ID from login response (required for evidence linkage)
-            const incidentId = response.incidentId || response.sessionId;
-
-            // Prime duress recording state with incidentId so Landing can use it
-            setDuressIncidentId(incidentId);
-
-            // Get current location for duress alert
-            const geo = await getCurrentLocation();
-            
-            // Send duress alert with session ID, geo, and device info
-            const alertResponse = await sendDuressAlert(response.sessionId, geo);
-            
-            // Start automatic recording immediately after alert is sent
-            // Use alertId as incidentId for evidence
-            await startDuressRecording(incidentId);
-            
-            // Log success without revealing duress state to user
-            console.warn('[LoginScreen] Background operation completed');
-          } catch (error) {
-            // Log errors without revealing duress state
-            // Use console.warn to avoid alarming developers while maintaining silence to users
-            console.warn('[LoginScreen] Background operation failed:', error);
-          }
+          // Incident ID from login response (required for evidence linkage)
+          await activateDuressResponse(response.sessionId, response.incidentId || response.sessionId, {
+            trigger: 'LOGIN',
+            loginAt: submittedAt,
+          });
         }
 
         // Navigation happens automatically via auth gate in RootNavigator
         // Do not call navigation.navigate() manually
       }
     } catch (err) {
-      console.error('❌ [LoginScreen] Login error:', err);
-      console.error('❌ [LoginScreen] Error details:', JSON.stringify(err, null, 2));
+      log.error('Login error', err);
 
       // Map error to user-friendly message
       const errorMessage = getErrorMessage(err);
-      console.log('📝 [LoginScreen] User-friendly error message:', errorMessage);
       setError(errorMessage);
     } finally {
       setIsSubmitting(false);
-      console.log('🏁 [LoginScreen] Login attempt completed');
     }
   };
 
@@ -197,6 +344,22 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     }
   };
 
+  /**
+   * Count quick logo taps; enough of them opens the environment switcher
+   */
+  const handleLogoPress = () => {
+    const now = Date.now();
+    const taps = [...logoTapsRef.current.filter((t) => now - t < ENV_SWITCHER_TAP_WINDOW_MS), now];
+    if (taps.length >= ENV_SWITCHER_TAPS) {
+      logoTapsRef.current = [];
+      setShowEnvSwitcher(true);
+    } else {
+      logoTapsRef.current = taps;
+    }
+  };
+
+  const environment = getEnvironment();
+
   return (
     <Screen withKeyboardAvoid>
       <ScrollView
@@ -205,9 +368,18 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         showsVerticalScrollIndicator={false}
       >
         {/* Logo */}
-        <View style={styles.logoContainer}>
+        <TouchableOpacity
+          style={styles.logoContainer}
+          onPress={handleLogoPress}
+          disabled={!ENV_SWITCHER_ENABLED}
+          activeOpacity={1}
+          accessible={false}
+        >
           <Logo size="large" />
-        </View>
+          {environment.name !== 'production' && (
+            <Text style={styles.environmentLabel}>{environment.label}</Text>
+          )}
+        </TouchableOpacity>
 
         {/* Header */}
         <View style={styles.header}>
@@ -215,51 +387,105 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
           <Text style={styles.subtitle}>Sign in to continue</Text>
         </View>
 
+        {/* Saved Profiles */}
+        {profiles.length > 0 && (
+          <View style={styles.profiles}>
+            {profiles.map((profile) => {
+              const isSelected = profile.id === selectedProfileId;
+              return (
+                <View key={profile.id} style={[styles.profileRow, isSelected && styles.profileRowSelected]}>
+                  <TouchableOpacity
+                    style={styles.profileButton}
+                    onPress={() => handleSelectProfile(profile)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isSelected }}
+                    accessibilityLabel={`Sign in as ${profile.customerRef}`}
+                  >
+                    <Text style={styles.profileName}>{profile.customerRef}</Text>
+                    <Text style={styles.profileTenant}>
+                      {profile.tenantName ?? `Tenant …${profile.tenantKey.slice(-4)}`}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveProfile(profile)}
+                    style={styles.profileRemove}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove profile ${profile.customerRef}`}
+                  >
+                    <Ionicons name="close" size={20} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+            <TouchableOpacity
+              style={styles.link}
+              onPress={() => handleSelectProfile(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Use another account"
+            >
+              <Text style={styles.linkText}>Use another account</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Form */}
         <View style={styles.form}>
-          {/* Tenant Key Input */}
-          <Controller
-            control={control}
-            name="tenantKey"
-            render={({ field: { onChange, onBlur, value } }) => (
-              <TextInput
-                label="Tenant Key"
-                value={value}
-                onChangeText={(text) => {
-                  onChange(text);
-                  handleInputChange();
-                }}
-                onBlur={onBlur}
-                placeholder="Enter your tenant key"
-                error={errors.tenantKey?.message}
-                accessibilityLabel="Tenant key input"
-                autoCapitalize="none"
-                autoCorrect={false}
+          {/* Tenant Key and Customer Reference are filled in by a selected profile */}
+          {!selectedProfileId && (
+            <>
+              {/* Tenant Key Input */}
+              <Controller
+                control={control}
+                name="tenantKey"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    label="Bank Code"
+                    value={value}
+                    onChangeText={(text) => {
+                      onChange(text);
+                      handleInputChange();
+                    }}
+                    onBlur={onBlur}
+                    placeholder="Enter or scan your bank code"
+                    error={errors.tenantKey?.message}
+                    accessibilityLabel="Tenant key input"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                )}
               />
-            )}
-          />
+              <TouchableOpacity
+                style={styles.scanLink}
+                onPress={() => setShowScanner(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Scan bank QR code"
+              >
+                <Text style={styles.linkText}>Scan QR code</Text>
+              </TouchableOpacity>
 
-          {/* Customer Reference Input */}
-          <Controller
-            control={control}
-            name="customerRef"
-            render={({ field: { onChange, onBlur, value } }) => (
-              <TextInput
-                label="Customer Reference"
-                value={value}
-                onChangeText={(text) => {
-                  onChange(text);
-                  handleInputChange();
-                }}
-                onBlur={onBlur}
-                placeholder="Enter your customer reference"
-                error={errors.customerRef?.message}
-                accessibilityLabel="Customer reference input"
-                autoCapitalize="none"
-                autoCorrect={false}
+              {/* Customer Reference Input */}
+              <Controller
+                control={control}
+                name="customerRef"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <TextInput
+                    label="Customer Reference"
+                    value={value}
+                    onChangeText={(text) => {
+                      onChange(text);
+                      handleInputChange();
+                    }}
+                    onBlur={onBlur}
+                    placeholder="Enter your customer reference"
+                    error={errors.customerRef?.message}
+                    accessibilityLabel="Customer reference input"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                )}
               />
-            )}
-          />
+            </>
+          )}
 
           {/* PIN Input */}
           <Controller
@@ -283,6 +509,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             )}
           />
 
+          {/* Biometric Unlock Preference */}
+          {biometricAvailable && (
+            <View style={styles.biometricRow}>
+              <Text style={styles.biometricLabel}>Use biometric unlock</Text>
+              <Switch
+                value={useBiometric}
+                onValueChange={setUseBiometric}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                accessibilityLabel="Use biometric unlock"
+              />
+            </View>
+          )}
+
           {/* Error Message Display */}
           {error && (
             <View style={styles.errorContainer}>
@@ -299,6 +538,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             accessibilityLabel="Sign in button"
           />
 
+          {/* Biometric Unlock - only when a stored session can be restored */}
+          {biometricAvailable && biometricEnabled && hasStoredSession && (
+            <View style={styles.biometricButton}>
+              <Button
+                title="Unlock with biometrics"
+                onPress={handleBiometricUnlock}
+                variant="secondary"
+                disabled={isSubmitting}
+                accessibilityLabel="Unlock with biometrics button"
+              />
+            </View>
+          )}
+
           {/* Disabled Placeholder Links */}
           <View style={styles.linksContainer}>
             <TouchableOpacity disabled style={styles.link}>
@@ -310,6 +562,16 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
           </View>
         </View>
       </ScrollView>
+
+      <TenantQrScanner
+        visible={showScanner}
+        onScanned={handleTenantScanned}
+        onClose={() => setShowScanner(false)}
+      />
+
+      {ENV_SWITCHER_ENABLED && (
+        <EnvironmentSwitcher visible={showEnvSwitcher} onClose={() => setShowEnvSwitcher(false)} />
+      )}
     </Screen>
   );
 };
@@ -324,6 +586,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: spacing.xxl,
   },
+  environmentLabel: {
+    ...typography.caption,
+    color: colors.warning,
+    marginTop: spacing.sm,
+  },
   header: {
     alignItems: 'center',
     marginBottom: spacing.xxl,
@@ -344,6 +611,21 @@ const styles = StyleSheet.create({
   form: {
     width: '100%',
   },
+  biometricRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.lg,
+  },
+  biometricLabel: {
+    fontSize: typography.body.fontSize,
+    fontWeight: typography.body.fontWeight,
+    lineHeight: typography.body.lineHeight,
+    color: colors.textSecondary,
+  },
+  biometricButton: {
+    marginTop: spacing.md,
+  },
   errorContainer: {
     marginBottom: spacing.lg,
   },
@@ -362,6 +644,52 @@ const styles = StyleSheet.create({
   link: {
     paddingVertical: spacing.sm,
   },
+  profiles: {
+    marginBottom: spacing.xl,
+    gap: spacing.sm,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  profileRowSelected: {
+    borderColor: colors.borderFocus,
+  },
+  profileButton: {
+    flex: 1,
+    padding: spacing.md,
+  },
+  profileName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: typography.body.fontWeight,
+    lineHeight: typography.body.lineHeight,
+    color: colors.textPrimary,
+  },
+  profileTenant: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: typography.caption.fontWeight,
+    lineHeight: typography.caption.lineHeight,
+    color: colors.textSecondary,
+  },
+  scanLink: {
+    alignSelf: 'flex-end',
+    marginTop: -spacing.sm,
+    marginBottom: spacing.lg,
+    paddingVertical: spacing.xs,
+  },
+  profileRemove: {
+    padding: spacing.md,
+  },
+  linkText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: typography.caption.fontWeight,
+    lineHeight: typography.caption.lineHeight,
+    color: colors.primary,
+  },
   linkTextDisabled: {
     fontSize: typography.caption.fontSize,
     fontWeight: typography.caption.fontWeight,
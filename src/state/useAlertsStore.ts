@@ -6,6 +6,10 @@ import {
   WebSocketMessage,
 } from '../lib/alerts';
 import { calculateDistance, getCurrentLocation } from '../lib/geo';
+import { createLogger } from '../lib/logger';
+import { getFlag } from '../lib/flags';
+
+const log = createLogger('alerts');
 
 /**
  * Alert state interface
@@ -16,6 +20,10 @@ export interface AlertsState {
   subscribed: boolean;
   wsConnection: WebSocket | null;
   pollingInterval: NodeJS.Timeout | null;
+  // Location polled for; kept while polling is paused so it can resume
+  pollingLocation: { lat: number; lng: number } | null;
+  // Polling is paused while the API cannot be reached
+  pollingPaused: boolean;
   alertDebounceMap: Map<string, number>;
 }
 
@@ -27,8 +35,10 @@ interface AlertsActions {
   removeAlert: (alertId: string) => void;
   startForegroundAlerts: (userLocation: { lat: number; lng: number }) => Promise<void>;
   stopForegroundAlerts: () => void;
-  connectWebSocket: (userLocation: { lat: number; lng: number }) => void;
+  connectWebSocket: (userLocation: { lat: number; lng: number }) => Promise<void>;
   disconnectWebSocket: () => void;
+  pausePolling: () => void;
+  resumePolling: () => void;
 }
 
 /**
@@ -36,22 +46,6 @@ interface AlertsActions {
  */
 type AlertsStore = AlertsState & AlertsActions;
 
-/**
- * Default alert radius in meters (1 km)
- */
-const ALERT_RADIUS_METERS = parseInt(
-  process.env.EXPO_PUBLIC_ALERT_RADIUS_METERS || '1000',
-  10
-);
-
-/**
- * Default polling interval in milliseconds (15 seconds)
- */
-const ALERT_POLL_INTERVAL_MS = parseInt(
-  process.env.EXPO_PUBLIC_ALERT_POLL_INTERVAL_MS || '15000',
-  10
-);
-
 /**
  * Debounce duration for identical alerts (60 seconds)
  */
@@ -62,6 +56,7 @@ const ALERT_DEBOUNCE_MS = 60000;
  * 
  * Features:
  * - Real-time WebSocket connection with fallback to polling
+ * - Polling paused while offline (driven by the connectivity store)
  * - Alert debouncing to prevent spam
  * - Distance calculation for nearby alerts
  * - Automatic cleanup on unmount
@@ -73,6 +68,8 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
   subscribed: false,
   wsConnection: null,
   pollingInterval: null,
+  pollingLocation: null,
+  pollingPaused: false,
   alertDebounceMap: new Map(),
 
   /**
@@ -91,7 +88,7 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
     const now = Date.now();
     
     if (lastSeenAt && now - lastSeenAt < ALERT_DEBOUNCE_MS) {
-      console.log('🔇 [useAlertsStore.addAlert] Alert debounced:', alert.id);
+      log.debug('Alert debounced', { alertId: alert.id });
       return;
     }
     
@@ -108,7 +105,7 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
         alert.geo.lat,
         alert.geo.lng
       );
-      console.log('📏 [useAlertsStore.addAlert] Distance calculated:', distance, 'meters');
+      log.debug('Distance calculated', { alertId: alert.id, distanceMeters: distance });
     }
     
     // Add alert with computed distance
@@ -117,7 +114,7 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
       distance,
     };
     
-    console.log('➕ [useAlertsStore.addAlert] Adding alert:', alertWithDistance.id);
+    log.info('Adding alert', { alertId: alertWithDistance.id });
     
     set({
       alerts: [...state.alerts, alertWithDistance],
@@ -132,7 +129,7 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
    * @param alertId - ID of alert to remove
    */
   removeAlert: (alertId: string) => {
-    console.log('➖ [useAlertsStore.removeAlert] Removing alert:', alertId);
+    log.info('Removing alert', { alertId });
     
     set((state) => ({
       alerts: state.alerts.filter((alert) => alert.id !== alertId),
@@ -149,20 +146,20 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
     const state = get();
     
     if (state.subscribed) {
-      console.log('⚠️ [useAlertsStore.startForegroundAlerts] Already subscribed');
+      log.debug('Already subscribed');
       return;
     }
     
-    console.log('🚀 [useAlertsStore.startForegroundAlerts] Starting alert monitoring...');
+    log.info('Starting alert monitoring');
     
     set({ subscribed: true, lastCheckedAt: new Date().toISOString() });
     
     // Try WebSocket first
     try {
-      get().connectWebSocket(userLocation);
-      console.log('✅ [useAlertsStore.startForegroundAlerts] WebSocket connection initiated');
+      await get().connectWebSocket(userLocation);
+      log.debug('WebSocket connection initiated');
     } catch (error) {
-      console.warn('⚠️ [useAlertsStore.startForegroundAlerts] WebSocket failed, falling back to polling:', error);
+      log.warn('WebSocket failed, falling back to polling', error);
       // Fall back to polling
       startPolling(userLocation, set, get);
     }
@@ -173,7 +170,7 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
    * Disconnects WebSocket and stops polling
    */
   stopForegroundAlerts: () => {
-    console.log('🛑 [useAlertsStore.stopForegroundAlerts] Stopping alert monitoring...');
+    log.info('Stopping alert monitoring');
     
     const state = get();
     
@@ -183,12 +180,13 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
     // Stop polling
     if (state.pollingInterval) {
       clearInterval(state.pollingInterval);
-      console.log('⏹️ [useAlertsStore.stopForegroundAlerts] Polling stopped');
+      log.debug('Polling stopped');
     }
     
     set({
       subscribed: false,
       pollingInterval: null,
+      pollingLocation: null,
     });
   },
 
@@ -198,51 +196,56 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
    * 
    * @param userLocation - Current user location
    */
-  connectWebSocket: (userLocation: { lat: number; lng: number }) => {
+  connectWebSocket: async (userLocation: { lat: number; lng: number }) => {
     const state = get();
     
     // Close existing connection if any
     if (state.wsConnection) {
-      console.log('🔌 [useAlertsStore.connectWebSocket] Closing existing connection');
+      log.debug('Closing existing WebSocket connection');
       state.wsConnection.close();
     }
     
-    console.log('🔌 [useAlertsStore.connectWebSocket] Establishing WebSocket connection...');
+    log.debug('Establishing WebSocket connection');
     
     try {
-      const ws = connectAlertsSocket(
+      const ws = await connectAlertsSocket(
         // onMessage
         (message: WebSocketMessage) => {
           if (message.type === 'DURESS_ALERT' && message.alert) {
-            console.log('🚨 [useAlertsStore.connectWebSocket] DURESS_ALERT received');
+            log.info('DURESS_ALERT received');
             get().addAlert(message.alert, userLocation);
           }
         },
         // onError
         (error: Event) => {
-          console.error('❌ [useAlertsStore.connectWebSocket] WebSocket error:', error);
+          log.error('WebSocket error', error);
           // Fall back to polling on error
-          console.log('🔄 [useAlertsStore.connectWebSocket] Falling back to polling...');
+          log.info('Falling back to polling');
           get().disconnectWebSocket();
           startPolling(userLocation, set, get);
         },
         // onClose
         (event: CloseEvent) => {
-          console.log('🔌 [useAlertsStore.connectWebSocket] WebSocket closed:', event.code);
+          log.info('WebSocket closed', { code: event.code });
           
           // Only fall back to polling if we're still subscribed
           const currentState = get();
           if (currentState.subscribed && !currentState.pollingInterval) {
-            console.log('🔄 [useAlertsStore.connectWebSocket] Connection closed, falling back to polling...');
+            log.info('Connection closed, falling back to polling');
             startPolling(userLocation, set, get);
           }
         }
       );
-      
+
+      // Monitoring may have stopped while the tenant key was read
+      if (!get().subscribed) {
+        ws.close();
+        return;
+      }
       set({ wsConnection: ws });
-      console.log('✅ [useAlertsStore.connectWebSocket] WebSocket connection established');
+      log.debug('WebSocket connection established');
     } catch (error) {
-      console.error('❌ [useAlertsStore.connectWebSocket] Failed to connect:', error);
+      log.error('Failed to connect WebSocket', error);
       // Fall back to polling
       startPolling(userLocation, set, get);
     }
@@ -255,16 +258,50 @@ export const useAlertsStore = create<AlertsStore>((set, get) => ({
     const state = get();
     
     if (state.wsConnection) {
-      console.log('🔌 [useAlertsStore.disconnectWebSocket] Closing WebSocket connection');
+      log.debug('Closing WebSocket connection');
       state.wsConnection.close();
       set({ wsConnection: null });
     }
   },
+
+  /**
+   * Stop polling while the API cannot be reached
+   * The polled location is kept so resumePolling can pick up where it left off.
+   */
+  pausePolling: () => {
+    const state = get();
+    if (state.pollingPaused) {
+      return;
+    }
+
+    if (state.pollingInterval) {
+      clearInterval(state.pollingInterval);
+      log.info('Polling paused while offline');
+    }
+    set({ pollingPaused: true, pollingInterval: null });
+  },
+
+  /**
+   * Resume polling once the API is reachable again
+   */
+  resumePolling: () => {
+    const state = get();
+    if (!state.pollingPaused) {
+      return;
+    }
+
+    set({ pollingPaused: false });
+    if (state.subscribed && state.pollingLocation) {
+      log.info('Resuming polling');
+      startPolling(state.pollingLocation, set, get);
+    }
+  },
 }));
 
 /**
  * Start polling for nearby alerts
- * Used as fallback when WebSocket is unavailable
+ * Used as fallback when WebSocket is unavailable. While polling is paused only the
+ * location is recorded; resumePolling starts the interval.
  * 
  * @param userLocation - Current user location
  * @param set - Zustand set function
@@ -275,7 +312,18 @@ function startPolling(
   set: (partial: Partial<AlertsState>) => void,
   get: () => AlertsStore
 ) {
-  console.log('🔄 [startPolling] Starting polling with interval:', ALERT_POLL_INTERVAL_MS, 'ms');
+  const state = get();
+  if (state.pollingInterval) {
+    clearInterval(state.pollingInterval);
+  }
+  set({ pollingLocation: userLocation, pollingInterval: null });
+  if (state.pollingPaused) {
+    log.info('Polling deferred until back online');
+    return;
+  }
+
+  const intervalMs = getFlag('alertPollIntervalMs');
+  log.info('Starting polling', { intervalMs });
   
   // Poll immediately
   pollForAlerts(userLocation, set, get);
@@ -283,7 +331,7 @@ function startPolling(
   // Set up polling interval
   const interval = setInterval(() => {
     pollForAlerts(userLocation, set, get);
-  }, ALERT_POLL_INTERVAL_MS);
+  }, intervalMs);
   
   set({ pollingInterval: interval });
 }
@@ -303,16 +351,16 @@ async function pollForAlerts(
   try {
     const state = get();
     
-    console.log('🔍 [pollForAlerts] Polling for nearby alerts...');
+    log.debug('Polling for nearby alerts');
     
     const response = await pollNearbyAlerts(
       userLocation,
-      ALERT_RADIUS_METERS,
+      getFlag('alertRadiusMeters'),
       state.lastCheckedAt || undefined
     );
     
     if (response.ok && response.alerts.length > 0) {
-      console.log('📨 [pollForAlerts] Received', response.alerts.length, 'alerts');
+      log.debug('Poll results received', { count: response.alerts.length });
       
       // Add each alert
       response.alerts.forEach((alert) => {
@@ -323,6 +371,6 @@ async function pollForAlerts(
     // Update last checked timestamp
     set({ lastCheckedAt: new Date().toISOString() });
   } catch (error) {
-    console.error('❌ [pollForAlerts] Failed to poll alerts:', error);
+    log.error('Failed to poll alerts', error);
   }
 }
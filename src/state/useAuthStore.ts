@@ -1,47 +1,217 @@
 import { create } from 'zustand';
 import * as storage from '../lib/storage';
-import { User, AuthState } from '../types';
+import { authAdapter, flushPendingRevocations } from '../lib/auth';
+import { flushOutbox, getOutbox } from '../lib/outbox';
+import { User, AuthState, Profile, SessionMode } from '../types';
+import { createLogger } from '../lib/logger';
+import { useLockStore } from './useLockStore';
+
+const log = createLogger('auth');
+
+/**
+ * In-flight refresh shared by concurrent 401s, so the refresh token is used once
+ */
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Session data persisted in SecureStore
+ */
+interface StoredSession {
+  user: User;
+  mode: SessionMode;
+  incidentId: string | null;
+  sessionExpiresAt: number | null;
+  duressEscalated: boolean;
+}
+
+/**
+ * Read the persisted session, if any
+ */
+async function readStoredSession(): Promise<StoredSession | null> {
+  const sessionId = await storage.getSessionId();
+  const customerRef = await storage.getCustomerRef();
+  const mode = await storage.getSessionMode();
+  if (!sessionId || !customerRef || !mode) {
+    return null;
+  }
+
+  const incidentId = await storage.getIncidentId();
+  const tokens = await storage.getAuthTokens();
+  const duressEscalated = await storage.getDuressEscalated();
+  return {
+    user: { customerRef, sessionId },
+    mode: mode as SessionMode,
+    incidentId,
+    sessionExpiresAt: tokens?.expiresAt ?? null,
+    duressEscalated: mode === 'DURESS' && duressEscalated,
+  };
+}
+
+/**
+ * Make a persisted session the active one
+ */
+async function applyStoredSession(
+  set: (state: Partial<AuthState>) => void,
+  stored: StoredSession
+): Promise<void> {
+  set({
+    user: stored.user,
+    sessionMode: stored.mode,
+    duressEscalated: stored.duressEscalated,
+    sessionExpiresAt: stored.sessionExpiresAt,
+    hasStoredSession: false,
+    isAuthenticated: true,
+  });
+
+  // Prime duress incident ID for downstream flows (e.g., video recording) and carry on
+  // the incident timeline and location trail
+  if (stored.mode === 'DURESS' && stored.incidentId) {
+    try {
+      const { setDuressIncidentId } = await import('../lib/duressRecording');
+      setDuressIncidentId(stored.incidentId);
+      const { startIncidentTimeline } = await import('../lib/timeline');
+      await startIncidentTimeline(stored.incidentId);
+      const { startBreadcrumbTrail } = await import('../lib/breadcrumbs');
+      await startBreadcrumbTrail(stored.incidentId);
+    } catch (error) {
+      log.warn('Background operation failed', error);
+    }
+  }
+}
 
 /**
  * Zustand store for authentication state management
  * Handles user session, authentication status, and SecureStore synchronization
  */
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   sessionMode: null,
+  duressEscalated: false,
+  sessionExpiresAt: null,
   isAuthenticated: false,
   isLoading: true,
+  hasStoredSession: false,
+  biometricEnabled: false,
 
   /**
    * Set user session and store data in SecureStore
    * @param user - User data with customerRef and sessionId
    * @param mode - Session mode (NORMAL or DURESS)
+   * @param sessionExpiresAt - Access token expiry in epoch milliseconds, if the session has tokens
    */
-  setSession: (user: User, mode: 'NORMAL' | 'DURESS') => {
+  setSession: (user: User, mode: SessionMode, sessionExpiresAt: number | null = null) => {
     set({
       user,
       sessionMode: mode,
+      duressEscalated: false,
+      sessionExpiresAt,
+      hasStoredSession: false,
       isAuthenticated: true,
     });
   },
 
   /**
-   * Clear user session and remove all data from SecureStore
+   * Clear user session through the auth adapter
+   * @returns Whether the server confirmed the session revocation
    */
   clearSession: async () => {
+    // Deliver the last of the location trail while the session can still send it
+    if (get().sessionMode === 'DURESS') {
+      try {
+        const { flushBreadcrumbs } = await import('../lib/breadcrumbs');
+        await flushBreadcrumbs();
+      } catch (error) {
+        log.warn('Background operation failed', error);
+      }
+    }
+
     try {
-      await storage.clearAll();
+      const { revoked } = await authAdapter.signOut();
       set({
         user: null,
         sessionMode: null,
+        duressEscalated: false,
+        sessionExpiresAt: null,
+        hasStoredSession: false,
         isAuthenticated: false,
       });
+
+      // Incident state is per session; never carry it into the next sign-in
+      try {
+        const { setDuressIncidentId } = await import('../lib/duressRecording');
+        setDuressIncidentId(null);
+      } catch (error) {
+        log.warn('Background operation failed', error);
+      }
+      return revoked;
     } catch (error) {
-      console.error('Failed to clear session:', error);
+      log.error('Failed to clear session', error);
       throw error;
     }
   },
 
+  /**
+   * Silently refresh the access token
+   * Concurrent callers share one refresh. When the server rejects the refresh token
+   * the session is over and is cleared; network failures leave the session untouched.
+   * @returns Whether a new access token was obtained
+   */
+  refreshSession: () => {
+    if (!refreshInFlight) {
+      refreshInFlight = (async () => {
+        try {
+          const tokens = await authAdapter.refresh();
+          if (!tokens) {
+            if (get().isAuthenticated) {
+              log.warn('Session can no longer be refreshed, signing out');
+              await get().clearSession().catch(() => undefined);
+            }
+            return false;
+          }
+          set({ sessionExpiresAt: tokens.expiresAt });
+          return true;
+        } catch (error) {
+          log.warn('Token refresh failed', error);
+          return false;
+        } finally {
+          refreshInFlight = null;
+        }
+      })();
+    }
+    return refreshInFlight;
+  },
+
+  /**
+   * Escalate the current session into DURESS mode without any visible change
+   * Persists the new mode, then sends the duress alert and starts recording.
+   * Does nothing when the session is already in DURESS mode.
+   * @param incidentId - Incident ID for evidence linkage (defaults to the session ID)
+   */
+  escalateToDuress: async (incidentId?: string) => {
+    const { user, sessionMode } = get();
+    if (!user || sessionMode === 'DURESS') {
+      return;
+    }
+
+    const resolvedIncidentId = incidentId || user.sessionId;
+    set({ sessionMode: 'DURESS', duressEscalated: true });
+    try {
+      await storage.setSessionMode('DURESS');
+      await storage.setDuressEscalated();
+      await storage.setIncidentId(resolvedIncidentId);
+    } catch (error) {
+      log.warn('Failed to persist session mode', error);
+    }
+
+    // Loaded lazily so the recording stack is only pulled in when needed
+    try {
+      const { activateDuressResponse } = await import('../lib/duress');
+      await activateDuressResponse(user.sessionId, resolvedIncidentId, { trigger: 'ESCALATION' });
+    } catch (error) {
+      log.warn('Background operation failed', error);
+    }
+  },
+
   /**
    * Update loading state
    * @param loading - Loading state boolean
@@ -50,35 +220,106 @@ export const useAuthStore = create<AuthState>((set) => ({
     set({ isLoading: loading });
   },
 
+  /**
+   * Restore a stored session after a successful biometric match
+   * @returns Whether a stored session was found and restored
+   */
+  restoreSession: async () => {
+    const stored = await readStoredSession();
+    if (!stored) {
+      set({ hasStoredSession: false });
+      return false;
+    }
+    await applyStoredSession(set, stored);
+    return true;
+  },
+
+  /**
+   * Turn biometric unlock on or off for this device
+   * @param enabled - Whether biometric unlock should be offered on launch
+   */
+  setBiometricEnabled: async (enabled: boolean) => {
+    await storage.setBiometricEnabled(enabled);
+    set({ biometricEnabled: enabled });
+  },
+
+  /**
+   * Make the profile for a tenant + customer reference the active one before sign-in
+   * Reuses a saved profile when one matches, otherwise creates a new (unsaved) one.
+   * A session stored under a different profile is no longer offered for restore.
+   * @returns The selected profile; save it with storage.saveProfile once sign-in succeeds
+   */
+  selectProfile: async (tenantKey: string, customerRef: string) => {
+    const profiles = await storage.getProfiles();
+    const profile: Profile = profiles.find(
+      (saved) => saved.tenantKey === tenantKey && saved.customerRef === customerRef
+    ) ?? {
+      id: `p${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+      tenantKey,
+      customerRef,
+    };
+
+    if (storage.getActiveProfileId() !== profile.id) {
+      await storage.setActiveProfileId(profile.id);
+      set({ hasStoredSession: false });
+    }
+    return profile;
+  },
+
+  /**
+   * Forget a saved profile and its session state
+   * Refused while the profile still has queued requests (such as a duress alert),
+   * which only its session can send.
+   * @param profileId - Profile to remove
+   * @throws Error('PROFILE_HAS_QUEUED_REQUESTS') while requests are queued
+   */
+  removeProfile: async (profileId: string) => {
+    if ((await getOutbox()).some((entry) => entry.profileId === profileId)) {
+      throw new Error('PROFILE_HAS_QUEUED_REQUESTS');
+    }
+    const wasActive = storage.getActiveProfileId() === profileId;
+    await storage.deleteProfile(profileId);
+    if (wasActive) {
+      set({ hasStoredSession: false });
+    }
+  },
+
   /**
    * Initialize authentication state from SecureStore on app start
-   * Reads session data and updates state if valid session exists
+   * Reads session data and updates state if valid session exists. With biometric
+   * unlock enabled the session is only flagged as stored; LoginScreen restores it
+   * after a biometric match or replaces it through a PIN sign-in.
    */
   initializeAuth: async () => {
     set({ isLoading: true });
     try {
-      const sessionId = await storage.getSessionId();
-      const customerRef = await storage.getCustomerRef();
-      const mode = await storage.getSessionMode();
-      const incidentId = await storage.getIncidentId();
-
-      if (sessionId && customerRef && mode) {
-        set({
-          user: { customerRef, sessionId },
-          sessionMode: mode as 'NORMAL' | 'DURESS',
-          isAuthenticated: true,
-        });
-
-        // Prime duress incident ID for downstream flows (e.g., video recording)
-        if (mode === 'DURESS' && incidentId) {
-          const { setDuressIncidentId } = await import('../lib/duressRecording');
-          setDuressIncidentId(incidentId);
-        }
+      await storage.loadActiveProfileId();
+      const biometricEnabled = await storage.getBiometricEnabled();
+      const stored = await readStoredSession();
+      set({ biometricEnabled });
+
+      if (stored && biometricEnabled) {
+        set({ hasStoredSession: true });
+      } else if (stored) {
+        // A restored session requires the PIN again; locked before it is applied, so
+        // the app never renders unlocked
+        useLockStore.getState().lock();
+        await applyStoredSession(set, stored);
       }
     } catch (error) {
-      console.error('Failed to initialize auth:', error);
+      log.error('Failed to initialize auth', error);
     } finally {
       set({ isLoading: false });
     }
+
+    // Retry revocations left over from sign-outs while offline, without blocking startup
+    flushPendingRevocations().catch((error) => {
+      log.warn('Failed to flush pending revocations', error);
+    });
+
+    // Replay duress alerts, acknowledgments and evidence queued before the app was closed
+    flushOutbox({ force: true }).catch((error) => {
+      log.warn('Failed to flush outbox', error);
+    });
   },
 }));
@@ -0,0 +1,205 @@
+import { create } from 'zustand';
+import { getNetworkStatus, NetworkStatus, probeApi, watchNetworkStatus } from '../lib/connectivity';
+import { flushOutbox } from '../lib/outbox';
+import { processEvidenceQueue } from '../lib/evidenceQueue';
+import { createLogger } from '../lib/logger';
+import { useAlertsStore } from './useAlertsStore';
+
+const log = createLogger('connectivity');
+
+/**
+ * Connectivity state interface
+ */
+export interface ConnectivityState {
+  isOnline: boolean;
+  isMetered: boolean;
+  networkType: NetworkStatus['type'] | null;
+  // Whether the API answered the last probe; null until probed
+  isApiReachable: boolean | null;
+}
+
+/**
+ * Connectivity actions interface
+ */
+interface ConnectivityActions {
+  start: () => Promise<void>;
+  stop: () => void;
+  updateNetwork: (status: NetworkStatus) => void;
+  checkReachability: () => Promise<boolean>;
+  canUpload: (sizeBytes: number) => boolean;
+  waitForUpload: (sizeBytes: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Combined store type
+ */
+type ConnectivityStore = ConnectivityState & ConnectivityActions;
+
+/**
+ * Largest upload started on a metered (cellular) connection (50 MB)
+ */
+export const METERED_UPLOAD_LIMIT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * How often an unreachable API is probed again while the device is online (30 seconds)
+ */
+export const REACHABILITY_RETRY_MS = 30 * 1000;
+
+let unsubscribeNetwork: (() => void) | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Whether the API can be expected to answer
+ */
+function canReachApi(state: ConnectivityState): boolean {
+  return state.isOnline && state.isApiReachable !== false;
+}
+
+function clearRetryTimer() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+/**
+ * Zustand store for network connectivity
+ *
+ * Features:
+ * - Online/offline and metered state from the device network
+ * - Reachability of the current environment's API, re-probed while it is down
+ * - Pauses alert polling while the API cannot be reached, and resumes it and
+ *   flushes the outbox and evidence queue once it can
+ */
+export const useConnectivityStore = create<ConnectivityStore>((set, get) => {
+  /**
+   * Apply a state change and react when reachability of the API flips
+   */
+  const apply = (partial: Partial<ConnectivityState>) => {
+    const before = canReachApi(get());
+    set(partial);
+    const after = canReachApi(get());
+
+    if (before && !after) {
+      log.info('API unreachable, pausing network work', { isOnline: get().isOnline });
+      useAlertsStore.getState().pausePolling();
+    } else if (!before && after) {
+      log.info('API reachable again, resuming network work');
+      useAlertsStore.getState().resumePolling();
+      flushOutbox({ force: true }).catch((error) => {
+        log.warn('Failed to flush outbox', error);
+      });
+      processEvidenceQueue({ force: true }).catch((error) => {
+        log.warn('Failed to process evidence queue', error);
+      });
+    }
+  };
+
+  return {
+    // Optimistic until the first reading, so nothing is paused at startup
+    isOnline: true,
+    isMetered: false,
+    networkType: null,
+    isApiReachable: null,
+
+    /**
+     * Start watching the network and probe the API
+     */
+    start: async () => {
+      if (unsubscribeNetwork) {
+        return;
+      }
+      unsubscribeNetwork = watchNetworkStatus((status) => get().updateNetwork(status));
+
+      try {
+        get().updateNetwork(await getNetworkStatus());
+      } catch (error) {
+        log.warn('Failed to read network state', error);
+      }
+    },
+
+    /**
+     * Stop watching the network
+     */
+    stop: () => {
+      unsubscribeNetwork?.();
+      unsubscribeNetwork = null;
+      clearRetryTimer();
+    },
+
+    /**
+     * Record a network change; coming online triggers a reachability probe
+     */
+    updateNetwork: (status: NetworkStatus) => {
+      const wasOnline = get().isOnline;
+      apply({ isOnline: status.isOnline, isMetered: status.isMetered, networkType: status.type });
+
+      if (!status.isOnline) {
+        clearRetryTimer();
+      } else if (!wasOnline || get().isApiReachable === null) {
+        void get().checkReachability();
+      }
+    },
+
+    /**
+     * Probe the API; while online but unreachable, probe again after REACHABILITY_RETRY_MS
+     * @returns Whether the API answered
+     */
+    checkReachability: async () => {
+      clearRetryTimer();
+      const reachable = await probeApi();
+      apply({ isApiReachable: reachable });
+
+      if (!reachable && get().isOnline) {
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          void get().checkReachability();
+        }, REACHABILITY_RETRY_MS);
+      }
+      return reachable;
+    },
+
+    /**
+     * Whether an upload of this size should start now
+     * Uploads wait while the API is unreachable; large ones also wait for an
+     * unmetered connection.
+     */
+    canUpload: (sizeBytes: number) => {
+      const state = get();
+      if (!canReachApi(state)) {
+        return false;
+      }
+      return !state.isMetered || sizeBytes <= METERED_UPLOAD_LIMIT_BYTES;
+    },
+
+    /**
+     * Resolve once canUpload allows an upload of this size
+     * Registered as the evidence upload gate, so uploads wait instead of failing.
+     * @throws Error('REQUEST_CANCELLED') if the signal aborts first
+     */
+    waitForUpload: (sizeBytes: number, signal?: AbortSignal) => {
+      if (get().canUpload(sizeBytes)) {
+        return Promise.resolve();
+      }
+      if (signal?.aborted) {
+        return Promise.reject(new Error('REQUEST_CANCELLED'));
+      }
+
+      log.info('Upload waiting for a suitable connection', { sizeBytes, isMetered: get().isMetered });
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          unsubscribe();
+          reject(new Error('REQUEST_CANCELLED'));
+        };
+        const unsubscribe = useConnectivityStore.subscribe((state) => {
+          if (state.canUpload(sizeBytes)) {
+            unsubscribe();
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }
+        });
+        signal?.addEventListener('abort', onAbort);
+      });
+    },
+  };
+});
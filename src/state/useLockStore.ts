@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('lock');
+
+/**
+ * Lock state interface
+ */
+export interface LockState {
+  isLocked: boolean;
+  lastActivityAt: number;
+  backgroundedAt: number | null;
+  failedUnlockAttempts: number;
+}
+
+/**
+ * Lock actions interface
+ */
+interface LockActions {
+  lock: () => void;
+  unlock: () => void;
+  recordActivity: () => void;
+  recordFailedUnlock: () => number;
+  checkIdle: (now?: number) => boolean;
+  markBackgrounded: (now?: number) => void;
+  markForegrounded: (now?: number) => boolean;
+  reset: () => void;
+}
+
+/**
+ * Combined store type
+ */
+type LockStore = LockState & LockActions;
+
+/**
+ * Lock after this long without a touch while the app is in the foreground (2 minutes)
+ */
+export const IDLE_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Lock when the app returns after at least this long in the background (30 seconds)
+ */
+export const BACKGROUND_LOCK_THRESHOLD_MS = 30 * 1000;
+
+/**
+ * How often the idle timer is checked (15 seconds)
+ */
+export const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Failed PIN entries allowed at the lock screen before the session is signed out
+ */
+export const MAX_UNLOCK_ATTEMPTS = 5;
+
+/**
+ * Zustand store for the inactivity auto-lock
+ *
+ * Features:
+ * - Idle timeout based on the last recorded touch
+ * - Background-duration threshold checked when the app returns to the foreground
+ * - Failed unlock counter so the lock screen can sign out after too many attempts
+ */
+export const useLockStore = create<LockStore>((set, get) => ({
+  // Initial state
+  isLocked: false,
+  lastActivityAt: Date.now(),
+  backgroundedAt: null,
+  failedUnlockAttempts: 0,
+
+  /**
+   * Put the app behind the lock screen
+   */
+  lock: () => {
+    if (!get().isLocked) {
+      log.info('App locked');
+    }
+    set({ isLocked: true });
+  },
+
+  /**
+   * Remove the lock after a successful PIN re-entry
+   */
+  unlock: () => {
+    set({
+      isLocked: false,
+      lastActivityAt: Date.now(),
+      backgroundedAt: null,
+      failedUnlockAttempts: 0,
+    });
+  },
+
+  /**
+   * Record user activity, restarting the idle timer
+   */
+  recordActivity: () => {
+    set({ lastActivityAt: Date.now() });
+  },
+
+  /**
+   * Count a rejected PIN at the lock screen
+   * @returns Number of failed attempts so far
+   */
+  recordFailedUnlock: () => {
+    const failedUnlockAttempts = get().failedUnlockAttempts + 1;
+    set({ failedUnlockAttempts });
+    return failedUnlockAttempts;
+  },
+
+  /**
+   * Lock if the idle timeout has elapsed since the last activity
+   * @param now - Current time in epoch milliseconds
+   * @returns Whether the app is locked
+   */
+  checkIdle: (now: number = Date.now()) => {
+    const { isLocked, lastActivityAt } = get();
+    if (!isLocked && now - lastActivityAt >= IDLE_LOCK_TIMEOUT_MS) {
+      get().lock();
+    }
+    return get().isLocked;
+  },
+
+  /**
+   * Remember when the app went to the background
+   * @param now - Current time in epoch milliseconds
+   */
+  markBackgrounded: (now: number = Date.now()) => {
+    if (get().backgroundedAt === null) {
+      set({ backgroundedAt: now });
+    }
+  },
+
+  /**
+   * Lock if the app spent longer than the threshold in the background
+   * @param now - Current time in epoch milliseconds
+   * @returns Whether the app is locked
+   */
+  markForegrounded: (now: number = Date.now()) => {
+    const { backgroundedAt } = get();
+    set({ backgroundedAt: null });
+    if (backgroundedAt !== null && now - backgroundedAt >= BACKGROUND_LOCK_THRESHOLD_MS) {
+      get().lock();
+    } else {
+      set({ lastActivityAt: now });
+    }
+    return get().isLocked;
+  },
+
+  /**
+   * Reset to the unlocked state (e.g., after sign-out)
+   */
+  reset: () => {
+    set({
+      isLocked: false,
+      lastActivityAt: Date.now(),
+      backgroundedAt: null,
+      failedUnlockAttempts: 0,
+    });
+  },
+}));
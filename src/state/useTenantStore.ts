@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import * as storage from '../lib/storage';
+import { fetchTenantConfig, parseTenantCode } from '../lib/tenant';
+import { applyBrandColors, ThemeColors } from '../lib/theme';
+import { setRemoteFlags } from '../lib/flags';
+import { createLogger } from '../lib/logger';
+import { TenantConfig } from '../types';
+
+const log = createLogger('tenant');
+
+/**
+ * Tenant state interface
+ */
+export interface TenantState {
+  config: TenantConfig | null;
+  colors: ThemeColors;
+}
+
+/**
+ * Tenant actions interface
+ */
+interface TenantActions {
+  resolveTenant: (input: string) => Promise<TenantConfig>;
+  saveTenant: () => Promise<void>;
+  loadTenant: () => Promise<void>;
+  resetTenant: () => void;
+}
+
+/**
+ * Combined store type
+ */
+type TenantStore = TenantState & TenantActions;
+
+/**
+ * Zustand store for the current tenant's configuration and branding
+ *
+ * Features:
+ * - Validates a typed or scanned tenant code against the tenant config endpoint
+ * - Derives the themed color palette from the tenant's color overrides
+ * - Feeds the tenant's `features` into the feature flags as the remote layer
+ * - Caches the config per profile so branding is shown before the next sign-in
+ */
+export const useTenantStore = create<TenantStore>((set, get) => ({
+  // Initial state
+  config: null,
+  colors: applyBrandColors(),
+
+  /**
+   * Resolve a tenant code and apply its branding
+   * @param input - Typed tenant code or scanned QR payload
+   * @returns Tenant configuration
+   * @throws Error('TENANT_NOT_FOUND') for malformed or unknown codes
+   */
+  resolveTenant: async (input: string) => {
+    const code = parseTenantCode(input);
+    if (!code) {
+      throw new Error('TENANT_NOT_FOUND');
+    }
+
+    const config = await fetchTenantConfig(code);
+    set({ config, colors: applyBrandColors(config.colors) });
+    setRemoteFlags(config.features);
+    log.info('Tenant resolved', { displayName: config.displayName });
+    return config;
+  },
+
+  /**
+   * Cache the current config for the active profile (after a successful sign-in)
+   */
+  saveTenant: async () => {
+    const { config } = get();
+    if (config) {
+      await storage.setTenantConfig(config);
+    }
+  },
+
+  /**
+   * Load the cached config for the active profile (on app start)
+   */
+  loadTenant: async () => {
+    const config = await storage.getTenantConfig();
+    set({ config, colors: applyBrandColors(config?.colors) });
+    setRemoteFlags(config?.features);
+  },
+
+  /**
+   * Return to the default Transrify branding
+   */
+  resetTenant: () => {
+    set({ config: null, colors: applyBrandColors() });
+    setRemoteFlags(undefined);
+  },
+}));
+
+/**
+ * Theme colors with the current tenant's branding applied
+ */
+export const useThemeColors = (): ThemeColors => useTenantStore((state) => state.colors);
@@ -1,3 +1,12 @@
+// Login verdict returned by the Transrify API
+export type LoginVerdict = 'NORMAL' | 'DURESS' | 'FAIL';
+
+// Recommended action returned by the Transrify API
+export type RecommendedAction = 'ALLOW' | 'LIMIT_AND_MONITOR' | 'DENY';
+
+// Mode of an authenticated session
+export type SessionMode = Exclude<LoginVerdict, 'FAIL'>;
+
 // API Request Types
 export interface LoginRequest {
   tenantKey: string;
@@ -16,17 +25,124 @@ export interface LoginRequest {
 
 // API Response Types
 export interface LoginResponse {
-  verdict: 'NORMAL' | 'DURESS' | 'FAIL';
-  recommendedAction: 'ALLOW' | 'LIMIT_AND_MONITOR' | 'DENY';
+  verdict: LoginVerdict;
+  recommendedAction: RecommendedAction;
+  sessionId: string;
+  // Incident identifier for evidence capture (present on DURESS verdicts)
+  incidentId?: string;
+  // Short-lived access token, refresh token and access token lifetime in seconds
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+// Verdict for a PIN re-entered at the lock screen of an existing session
+export interface UnlockResponse {
+  verdict: LoginVerdict;
+  recommendedAction: RecommendedAction;
+  incidentId?: string;
+}
+
+export interface RefreshTokenResponse {
+  accessToken: string;
+  // Present when the server rotates the refresh token
+  refreshToken?: string;
+  expiresIn: number;
+}
+
+// Tokens as stored on the device; expiresAt is the access token expiry in epoch milliseconds
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+// Credentials of a signed-out session, kept until the server confirms its revocation
+export interface RevocationCredentials {
+  accessToken: string | null;
+  tenantKey: string | null;
+}
+
+// Credentials of the session an incident was raised in; its evidence is sent with them after sign-out
+export interface IncidentCredentials {
   sessionId: string;
+  accessToken: string | null;
+  tenantKey: string | null;
+}
+
+// Evidence keys of the tenant an incident was raised in; its evidence is sealed with them whichever profile is active
+export interface IncidentEncryption {
+  // Tenant RSA public key (PEM), or null if the tenant had none and evidence is not encrypted
+  evidencePublicKey: string | null;
+  // Raw AES key (base64), or null with no public key
+  evidenceKey: string | null;
+}
+
+export interface VerifySessionResponse {
+  ok: boolean;
+  session: {
+    id: string;
+    result: string;
+    createdAt: string;
+    customerRef: string;
+    tenantName: string;
+  };
 }
 
 // API Error Response
-export interface ApiError {
+export interface ApiErrorResponse {
   ok: false;
   error: 'INVALID_TENANT_KEY' | 'TENANT_SUSPENDED' | 'MISSING_REQUIRED_FIELDS' | 'RATE_LIMIT_EXCEEDED';
 }
 
+// Outcome of signing out: revoked is true only when the server confirmed the session is gone
+export interface SignOutResult {
+  revoked: boolean;
+}
+
+// Saved login profile: one tenant + customer reference pair (never the PIN)
+export interface Profile {
+  id: string;
+  tenantKey: string;
+  customerRef: string;
+  // Tenant display name from the tenant config, for the profile picker
+  tenantName?: string;
+}
+
+// Tenant configuration returned by GET /v1/tenants/:key/config
+export interface TenantConfig {
+  // Canonical tenant key (the lookup may use a short code)
+  tenantKey: string;
+  displayName: string;
+  logoUrl?: string;
+  // Overrides for theme colors, keyed by theme color name (e.g. primary)
+  colors?: Record<string, string>;
+  // Remote feature flags and tunables (see lib/flags), e.g. nfcEnabled or alertRadiusMeters
+  features?: Record<string, boolean | number>;
+  // PEM-encoded RSA public key that evidence keys are wrapped with (see lib/encryption)
+  evidencePublicKey?: string;
+}
+
+// Critical request kinds that are queued in the outbox until the server accepts them
+export type OutboxKind = 'DURESS_ALERT' | 'ALERT_ACK' | 'EVIDENCE_FINALIZE';
+
+// Persisted outbox entry: a POST to replay until delivered (see lib/outbox)
+export interface OutboxEntry {
+  // Idempotency key sent with every attempt; also deduplicates the queue
+  key: string;
+  // Profile whose session sends the entry
+  profileId: string | null;
+  // Incident whose saved credentials send the entry once its session is gone
+  incidentId?: string;
+  kind: OutboxKind;
+  path: string;
+  // JSON request body
+  body: string;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+}
+
 // User Data
 export interface User {
   customerRef: string;
@@ -36,11 +152,24 @@ export interface User {
 // Auth State
 export interface AuthState {
   user: User | null;
-  sessionMode: 'NORMAL' | 'DURESS' | null;
+  sessionMode: SessionMode | null;
+  // True when a NORMAL session was escalated to DURESS after sign-in; the UI keeps its NORMAL appearance
+  duressEscalated: boolean;
+  // Access token expiry in epoch milliseconds, null when the session has no tokens
+  sessionExpiresAt: number | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  setSession: (user: User, mode: 'NORMAL' | 'DURESS') => void;
-  clearSession: () => Promise<void>;
+  // A session is stored on the device but waits for biometric unlock (or a PIN sign-in)
+  hasStoredSession: boolean;
+  biometricEnabled: boolean;
+  setSession: (user: User, mode: SessionMode, sessionExpiresAt?: number | null) => void;
+  clearSession: () => Promise<boolean>;
+  refreshSession: () => Promise<boolean>;
+  escalateToDuress: (incidentId?: string) => Promise<void>;
   setLoading: (loading: boolean) => void;
+  restoreSession: () => Promise<boolean>;
+  setBiometricEnabled: (enabled: boolean) => Promise<void>;
+  selectProfile: (tenantKey: string, customerRef: string) => Promise<Profile>;
+  removeProfile: (profileId: string) => Promise<void>;
   initializeAuth: () => Promise<void>;
 }
@@ -24,9 +24,12 @@ jest.mock('../src/lib/api', () => ({
 
 // Mock the config module
 jest.mock('../src/config', () => ({
-  TENANT_KEY: 'TEST_TENANT',
+  getEnvironment: () => ({
+    apiBaseUrl: 'https://api.test.transrify.com',
+    wsBaseUrl: 'wss://api.test.transrify.com',
+    defaultTenantKey: 'TEST_TENANT',
+  }),
   APP_VERSION: '1.0.0',
-  API_BASE_URL: 'https://api.test.transrify.com',
 }));
 
 // Mock Platform from react-native
@@ -157,6 +160,8 @@ describe('Alert Flow Integration Tests', () => {
       expect(mockApi).toHaveBeenCalledWith('/v1/alerts/duress', {
         method: 'POST',
         body: expect.stringContaining(sessionId),
+        retry: 'critical',
+        idempotencyKey: expect.stringMatching(/^duress-alert-/),
       });
 
       const callArgs = mockApi.mock.calls[0];
@@ -186,6 +191,8 @@ describe('Alert Flow Integration Tests', () => {
       expect(mockApi).toHaveBeenCalledWith('/v1/alerts/duress', {
         method: 'POST',
         body: expect.any(String),
+        retry: 'critical',
+        idempotencyKey: expect.stringMatching(/^duress-alert-/),
       });
 
       const callArgs = mockApi.mock.calls[0];
@@ -320,6 +327,8 @@ describe('Alert Flow Integration Tests', () => {
       expect(mockApi).toHaveBeenCalledWith('/v1/alerts/ack', {
         method: 'POST',
         body: expect.stringContaining(alert.id),
+        retry: 'standard',
+        idempotencyKey: expect.stringMatching(/^ack-/),
       });
     });
 
@@ -473,7 +482,7 @@ describe('Alert Flow Integration Tests', () => {
       // Should have polled once
       expect(mockApi).toHaveBeenCalledWith(
         expect.stringContaining('/v1/alerts/nearby'),
-        { method: 'GET' }
+        { method: 'GET', retry: 'none' }
       );
     });
 
@@ -17,7 +17,11 @@ jest.mock('../src/lib/api', () => ({
 
 // Mock the config module
 jest.mock('../src/config', () => ({
-  TENANT_KEY: 'TEST_TENANT',
+  getEnvironment: () => ({
+    apiBaseUrl: 'https://api.test.transrify.com',
+    wsBaseUrl: 'wss://api.test.transrify.com',
+    defaultTenantKey: 'TEST_TENANT',
+  }),
   APP_VERSION: '1.0.0',
 }));
 
@@ -30,6 +34,7 @@ jest.mock('react-native', () => ({
 
 // Import mocked api function
 import { api } from '../src/lib/api';
+import * as storage from '../src/lib/storage';
 const mockApi = api as jest.MockedFunction<typeof api>;
 
 describe('Alert Functions', () => {
@@ -70,6 +75,8 @@ describe('Alert Functions', () => {
             appVersion: '1.0.0',
           },
         }),
+        retry: 'critical',
+        idempotencyKey: expect.stringMatching(/^duress-alert-/),
       });
     });
 
@@ -88,6 +95,8 @@ describe('Alert Functions', () => {
       expect(mockApi).toHaveBeenCalledWith('/v1/alerts/duress', {
         method: 'POST',
         body: expect.any(String),
+        retry: 'critical',
+        idempotencyKey: expect.stringMatching(/^duress-alert-/),
       });
       
       // Verify the request body structure
@@ -98,6 +107,16 @@ describe('Alert Functions', () => {
       expect(requestBody.alertKind).toBe('DURESS');
     });
 
+    it('should send the alert under the tenant the user signed in to', async () => {
+      jest.spyOn(storage, 'getTenantKey').mockResolvedValueOnce('ACME_BANK');
+      mockApi.mockResolvedValueOnce({ ok: true, alertId: 'alert-1' });
+
+      await sendDuressAlert('session-abc123');
+
+      const requestBody = JSON.parse(mockApi.mock.calls[0][1]?.body as string);
+      expect(requestBody.tenantKey).toBe('ACME_BANK');
+    });
+
     it('should throw error when API call fails', async () => {
       const sessionId = 'session-abc123';
       const geo = { lat: 37.7749, lng: -122.4194 };
@@ -151,7 +170,7 @@ describe('Alert Functions', () => {
       expect(result).toEqual(mockResponse);
       expect(mockApi).toHaveBeenCalledWith(
         expect.stringContaining('/v1/alerts/nearby?'),
-        { method: 'GET' }
+        { method: 'GET', retry: 'none' }
       );
       
       const callArgs = mockApi.mock.calls[0][0] as string;
@@ -238,6 +257,8 @@ describe('Alert Functions', () => {
           ackBy,
           method,
         }),
+        retry: 'standard',
+        idempotencyKey: expect.stringMatching(/^ack-/),
       });
     });
 
@@ -322,10 +343,10 @@ describe('Alert Functions', () => {
       process.env = originalEnv;
     });
 
-    it('should create WebSocket connection with correct URL', () => {
+    it('should create WebSocket connection with correct URL', async () => {
       const onMessage = jest.fn();
 
-      connectAlertsSocket(onMessage);
+      await connectAlertsSocket(onMessage);
 
       // Should be called with a URL containing the tenant key
       expect(mockWebSocket).toHaveBeenCalled();
@@ -334,7 +355,15 @@ describe('Alert Functions', () => {
       expect(calledUrl).toContain('tenantKey=TEST_TENANT');
     });
 
-    it('should handle DURESS_ALERT message', () => {
+    it('should subscribe to the tenant the user signed in to', async () => {
+      jest.spyOn(storage, 'getTenantKey').mockResolvedValueOnce('ACME_BANK');
+
+      await connectAlertsSocket(jest.fn());
+
+      expect(mockWebSocket.mock.calls[0][0]).toContain('tenantKey=ACME_BANK');
+    });
+
+    it('should handle DURESS_ALERT message', async () => {
       const onMessage = jest.fn();
       const mockAlert: Alert = {
         id: 'alert-1',
@@ -349,7 +378,7 @@ describe('Alert Functions', () => {
         alert: mockAlert,
       };
 
-      const ws = connectAlertsSocket(onMessage);
+      const ws = await connectAlertsSocket(onMessage);
 
       // Simulate WebSocket open
       if (mockWebSocketInstance.onopen) {
@@ -366,14 +395,14 @@ describe('Alert Functions', () => {
       expect(onMessage).toHaveBeenCalledWith(mockMessage);
     });
 
-    it('should respond to PING with PONG', () => {
+    it('should respond to PING with PONG', async () => {
       const onMessage = jest.fn();
       const mockPingMessage: WebSocketMessage = {
         type: 'PING',
         timestamp: '2025-10-31T12:00:00Z',
       };
 
-      const ws = connectAlertsSocket(onMessage);
+      const ws = await connectAlertsSocket(onMessage);
 
       // Simulate WebSocket open
       if (mockWebSocketInstance.onopen) {
@@ -392,12 +421,12 @@ describe('Alert Functions', () => {
       );
     });
 
-    it('should call onError callback when error occurs', () => {
+    it('should call onError callback when error occurs', async () => {
       const onMessage = jest.fn();
       const onError = jest.fn();
       const mockError = new Event('error');
 
-      const ws = connectAlertsSocket(onMessage, onError);
+      const ws = await connectAlertsSocket(onMessage, onError);
 
       // Simulate WebSocket error
       if (mockWebSocketInstance.onerror) {
@@ -407,7 +436,7 @@ describe('Alert Functions', () => {
       expect(onError).toHaveBeenCalledWith(mockError);
     });
 
-    it('should call onClose callback when connection closes', () => {
+    it('should call onClose callback when connection closes', async () => {
       const onMessage = jest.fn();
       const onError = jest.fn();
       const onClose = jest.fn();
@@ -416,7 +445,7 @@ describe('Alert Functions', () => {
         reason: 'Normal closure',
       } as CloseEvent;
 
-      const ws = connectAlertsSocket(onMessage, onError, onClose);
+      const ws = await connectAlertsSocket(onMessage, onError, onClose);
 
       // Simulate WebSocket close
       if (mockWebSocketInstance.onclose) {
@@ -426,10 +455,10 @@ describe('Alert Functions', () => {
       expect(onClose).toHaveBeenCalledWith(mockCloseEvent);
     });
 
-    it('should handle invalid JSON message gracefully', () => {
+    it('should handle invalid JSON message gracefully', async () => {
       const onMessage = jest.fn();
 
-      const ws = connectAlertsSocket(onMessage);
+      const ws = await connectAlertsSocket(onMessage);
 
       // Simulate receiving invalid JSON
       if (mockWebSocketInstance.onmessage) {
@@ -442,10 +471,10 @@ describe('Alert Functions', () => {
       expect(onMessage).not.toHaveBeenCalled();
     });
 
-    it('should construct WebSocket URL with tenant key parameter', () => {
+    it('should construct WebSocket URL with tenant key parameter', async () => {
       const onMessage = jest.fn();
 
-      connectAlertsSocket(onMessage);
+      await connectAlertsSocket(onMessage);
 
       // Verify URL structure
       const calledUrl = mockWebSocket.mock.calls[0][0];
@@ -455,10 +484,10 @@ describe('Alert Functions', () => {
       expect(calledUrl).toContain('TEST_TENANT');
     });
 
-    it('should handle multiple message types', () => {
+    it('should handle multiple message types', async () => {
       const onMessage = jest.fn();
 
-      const ws = connectAlertsSocket(onMessage);
+      const ws = await connectAlertsSocket(onMessage);
 
       // Simulate WebSocket open
       if (mockWebSocketInstance.onopen) {
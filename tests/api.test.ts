@@ -0,0 +1,262 @@
+import { api, setTokenRefresher } from '../src/lib/api';
+import { ApiError, getErrorMessage, isNetworkError } from '../src/lib/errors';
+
+// Mock the config module
+jest.mock('../src/config', () => ({
+  getEnvironment: () => ({ apiBaseUrl: 'https://api.test.transrify.com' }),
+}));
+
+// Mock global fetch
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+/**
+ * Build a minimal fetch Response
+ */
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Build a fetch implementation that never resolves until its signal aborts
+ */
+const hangingFetch = (_url: RequestInfo | URL, init?: RequestInit): Promise<Response> =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      const error = new Error('Aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  });
+
+/**
+ * Await a rejected API call and return its error
+ */
+const captureError = (promise: Promise<unknown>): Promise<ApiError> =>
+  promise.then(
+    () => {
+      throw new Error('Expected request to fail');
+    },
+    (error: ApiError) => error
+  );
+
+describe('api', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should return parsed JSON for successful responses', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(200, { ok: true, id: 'abc' }));
+
+    const result = await api<{ ok: boolean; id: string }>('/v1/things');
+
+    expect(result).toEqual({ ok: true, id: 'abc' });
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.test.transrify.com/v1/things',
+      expect.objectContaining({
+        headers: { 'Content-Type': 'application/json' },
+        signal: expect.any(Object),
+      })
+    );
+  });
+
+  it('should throw ApiError with status, server code and path for non-2xx responses', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(403, { ok: false, error: 'TENANT_SUSPENDED' }));
+
+    const error = await captureError(api('/v1/sessions/login', { method: 'POST' }));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(403);
+    expect(error.code).toBe('TENANT_SUSPENDED');
+    expect(error.path).toBe('/v1/sessions/login');
+    expect(getErrorMessage(error)).toBe('Service unavailable. Please contact support.');
+  });
+
+  it('should leave code undefined when the error body is not JSON', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('Internal Server Error', { status: 500 }));
+
+    const error = await captureError(api('/v1/things'));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(500);
+    expect(error.code).toBeUndefined();
+    expect(error.message).toBe('HTTP 500');
+  });
+
+  it('should retry once on 429 and then throw RATE_LIMIT_EXCEEDED', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(429, { error: 'RATE_LIMIT_EXCEEDED' }))
+      .mockResolvedValueOnce(jsonResponse(429, { error: 'RATE_LIMIT_EXCEEDED' }));
+
+    const promise = captureError(api('/v1/things'));
+    await jest.advanceTimersByTimeAsync(800);
+    const error = await promise;
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(getErrorMessage(error)).toBe('Too many attempts. Please wait a minute.');
+  });
+
+  it('should honor Retry-After on 429 responses', async () => {
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: 'RATE_LIMIT_EXCEEDED' }), {
+          status: 429,
+          headers: { 'Retry-After': '2' },
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const promise = api('/v1/things');
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(promise).resolves.toEqual({ ok: true });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send the idempotency key and retry POSTs that carry one', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const promise = api('/v1/alerts/duress', {
+      method: 'POST',
+      retry: 'critical',
+      idempotencyKey: 'duress-alert-1',
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(promise).resolves.toEqual({ ok: true });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][1]?.headers).toEqual(
+      expect.objectContaining({ 'Idempotency-Key': 'duress-alert-1' })
+    );
+  });
+
+  it('should not retry POSTs without an idempotency key on server errors', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(503, {}));
+
+    const error = await captureError(api('/v1/sessions/login', { method: 'POST', retry: 'critical' }));
+
+    expect(error.status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw TIMEOUT_ERROR when the request exceeds timeoutMs', async () => {
+    jest.useFakeTimers();
+    mockFetch.mockImplementationOnce(hangingFetch);
+
+    const promise = captureError(api('/v1/evidence/presign', { timeoutMs: 5000 }));
+    await jest.advanceTimersByTimeAsync(5000);
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('TIMEOUT_ERROR');
+    expect(error.path).toBe('/v1/evidence/presign');
+    expect(isNetworkError(error)).toBe(true);
+  });
+
+  it('should throw REQUEST_CANCELLED when the caller aborts', async () => {
+    mockFetch.mockImplementationOnce(hangingFetch);
+    const controller = new AbortController();
+
+    const promise = captureError(api('/v1/things', { signal: controller.signal }));
+    controller.abort();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('REQUEST_CANCELLED');
+    expect(isNetworkError(error)).toBe(false);
+  });
+
+  it('should not call fetch when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(api('/v1/things', { signal: controller.signal })).rejects.toMatchObject({
+      code: 'REQUEST_CANCELLED',
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should throw NETWORK_ERROR when fetch rejects', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    const error = await captureError(api('/v1/things'));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(getErrorMessage(error)).toBe('Network error. Please check your connection.');
+  });
+
+  it('should not retry a request whose successful response cannot be parsed', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+    } as unknown as Response);
+
+    const error = await captureError(
+      api('/v1/things', { method: 'POST', retry: 'critical', idempotencyKey: 'key-1' })
+    );
+
+    expect(error).toMatchObject({ status: 200, code: 'INVALID_RESPONSE' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe('silent token refresh', () => {
+    afterEach(() => {
+      setTokenRefresher(null);
+    });
+
+    it('should refresh once on 401 and replay the request', async () => {
+      const refresher = jest.fn().mockResolvedValue(true);
+      setTokenRefresher(refresher);
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'TOKEN_EXPIRED' }))
+        .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+      await expect(api('/v1/things')).resolves.toEqual({ ok: true });
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw the 401 when the refresh fails', async () => {
+      setTokenRefresher(jest.fn().mockResolvedValue(false));
+      mockFetch.mockResolvedValueOnce(jsonResponse(401, { error: 'TOKEN_EXPIRED' }));
+
+      const error = await captureError(api('/v1/things'));
+
+      expect(error.status).toBe(401);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh when the request opts out', async () => {
+      const refresher = jest.fn().mockResolvedValue(true);
+      setTokenRefresher(refresher);
+      mockFetch.mockResolvedValueOnce(jsonResponse(401, {}));
+
+      await captureError(api('/v1/sessions/refresh', { method: 'POST', skipAuthRefresh: true }));
+
+      expect(refresher).not.toHaveBeenCalled();
+    });
+  });
+});
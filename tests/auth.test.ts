@@ -1,15 +1,18 @@
 import * as SecureStore from 'expo-secure-store';
-import { MockAuthAdapter, TransrifyAuthAdapter } from '../src/lib/auth';
-import * as storage from '../src/lib/storage';
+import { MockAuthAdapter, TransrifyAuthAdapter, flushPendingRevocations } from '../src/lib/auth';
+import { api } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+
+// Mock the API client
+jest.mock('../src/lib/api', () => ({
+  api: jest.fn(),
+}));
 
 // Get mocked functions
 const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
 const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
 const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.MockedFunction<typeof SecureStore.deleteItemAsync>;
 
-// Mock global fetch
-global.fetch = jest.fn();
-
 describe('MockAuthAdapter', () => {
   let adapter: MockAuthAdapter;
 
@@ -132,11 +135,38 @@ describe('MockAuthAdapter', () => {
     });
   });
 
+  describe('unlock', () => {
+    it('should return NORMAL for a normal PIN on an active session', async () => {
+      mockGetItemAsync.mockResolvedValue('mock-session');
+
+      const response = await adapter.unlock('1234');
+
+      expect(response.verdict).toBe('NORMAL');
+      expect(response.incidentId).toBeUndefined();
+    });
+
+    it('should return DURESS with an incident ID for a PIN ending in 1', async () => {
+      mockGetItemAsync.mockResolvedValue('mock-session');
+
+      const response = await adapter.unlock('1231');
+
+      expect(response.verdict).toBe('DURESS');
+      expect(response.recommendedAction).toBe('LIMIT_AND_MONITOR');
+      expect(response.incidentId).toMatch(/^incident-/);
+    });
+
+    it('should return FAIL when there is no session', async () => {
+      const response = await adapter.unlock('1234');
+
+      expect(response.verdict).toBe('FAIL');
+    });
+  });
+
   describe('signOut', () => {
     it('should clear all stored data', async () => {
       await adapter.signOut();
 
-      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_customer_ref');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_mode');
@@ -193,11 +223,10 @@ describe('MockAuthAdapter', () => {
 
 describe('TransrifyAuthAdapter', () => {
   let adapter: TransrifyAuthAdapter;
-  const baseURL = 'https://api.test.transrify.com';
-  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+  const mockApi = api as jest.MockedFunction<typeof api>;
 
   beforeEach(() => {
-    adapter = new TransrifyAuthAdapter(baseURL);
+    adapter = new TransrifyAuthAdapter();
     jest.clearAllMocks();
     // Mock storage operations to succeed by default
     mockSetItemAsync.mockResolvedValue();
@@ -205,11 +234,16 @@ describe('TransrifyAuthAdapter', () => {
     mockDeleteItemAsync.mockResolvedValue();
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('signIn', () => {
     it('should throw INVALID_TENANT_KEY error when tenant key is not stored', async () => {
       mockGetItemAsync.mockResolvedValueOnce(null);
 
       await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('INVALID_TENANT_KEY');
+      expect(mockApi).not.toHaveBeenCalled();
     });
 
     it('should successfully authenticate with valid credentials', async () => {
@@ -224,167 +258,333 @@ describe('TransrifyAuthAdapter', () => {
 
       // Mock tenant key retrieval
       mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-
-      // Mock successful API response
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse,
-      } as Response);
+      mockApi.mockResolvedValueOnce(mockResponse);
 
       const response = await adapter.signIn(customerRef, pin);
 
       expect(response).toEqual(mockResponse);
-      
-      // Verify API was called with correct parameters
-      expect(mockFetch).toHaveBeenCalledWith(
-        `${baseURL}/v1/sessions/login`,
-        expect.objectContaining({
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: expect.stringContaining(tenantKey),
-        })
-      );
+
+      // Verify the shared API client was called with the login payload
+      expect(mockApi).toHaveBeenCalledWith('/v1/sessions/login', {
+        method: 'POST',
+        body: expect.any(String),
+        retry: 'rateLimit',
+        skipAuthRefresh: true,
+      });
+      const body = JSON.parse(mockApi.mock.calls[0][1]?.body as string);
+      expect(body).toMatchObject({ tenantKey, customerRef, pin, deviceInfo: { version: '1.0.0' } });
 
       // Verify session data was stored
       expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_id', 'session-abc123');
       expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_customer_ref', customerRef);
       expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_mode', 'NORMAL');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_incident_id');
     });
 
-    it('should handle DURESS verdict and store session data', async () => {
-      const tenantKey = 'test-tenant-key';
-      const customerRef = 'TEST_USER';
-      const pin = '1231';
+    it('should store access and refresh tokens from the login response', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockGetItemAsync.mockResolvedValueOnce('test-tenant-key');
+      mockApi.mockResolvedValueOnce({
+        verdict: 'NORMAL',
+        recommendedAction: 'ALLOW',
+        sessionId: 'session-abc123',
+        accessToken: 'access-123',
+        refreshToken: 'refresh-123',
+        expiresIn: 600,
+      });
+
+      await adapter.signIn('TEST_USER', '1234');
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_access_token', 'access-123');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_refresh_token', 'refresh-123');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_token_expires_at', '1600000');
+    });
+
+    it('should handle DURESS verdict and store session data and incident ID', async () => {
       const mockResponse = {
         verdict: 'DURESS',
         recommendedAction: 'LIMIT_AND_MONITOR',
         sessionId: 'session-duress-123',
+        incidentId: 'incident-456',
       };
 
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse,
-      } as Response);
+      mockGetItemAsync.mockResolvedValueOnce('test-tenant-key');
+      mockApi.mockResolvedValueOnce(mockResponse);
 
-      const response = await adapter.signIn(customerRef, pin);
+      const response = await adapter.signIn('TEST_USER', '1231');
 
       expect(response).toEqual(mockResponse);
-      
-      // Verify DURESS mode was stored
+
+      // Verify DURESS mode and incident were stored
       expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_mode', 'DURESS');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_incident_id', 'incident-456');
     });
 
     it('should handle FAIL verdict without storing session data', async () => {
-      const tenantKey = 'test-tenant-key';
-      const customerRef = 'TEST_USER';
-      const pin = '9999';
       const mockResponse = {
         verdict: 'FAIL',
         recommendedAction: 'DENY',
         sessionId: '',
       };
 
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse,
-      } as Response);
+      mockGetItemAsync.mockResolvedValueOnce('test-tenant-key');
+      mockApi.mockResolvedValueOnce(mockResponse);
 
-      const response = await adapter.signIn(customerRef, pin);
+      const response = await adapter.signIn('TEST_USER', '9999');
 
       expect(response).toEqual(mockResponse);
-      
+
       // Verify no session data was stored for FAIL verdict
       expect(mockSetItemAsync).not.toHaveBeenCalled();
     });
 
-    it('should throw INVALID_TENANT_KEY error when API returns 401', async () => {
-      const tenantKey = 'invalid-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 401,
-        json: async () => ({ error: 'INVALID_TENANT_KEY' }),
-      } as Response);
+    it('should propagate API error codes from the client', async () => {
+      mockGetItemAsync.mockResolvedValueOnce('suspended-key');
+      mockApi.mockRejectedValueOnce(
+        new ApiError({ status: 403, code: 'TENANT_SUSPENDED', path: '/v1/sessions/login' })
+      );
 
-      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('INVALID_TENANT_KEY');
+      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('TENANT_SUSPENDED');
     });
 
-    it('should throw TENANT_SUSPENDED error when API returns suspended status', async () => {
-      const tenantKey = 'suspended-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 403,
-        json: async () => ({ error: 'TENANT_SUSPENDED' }),
-      } as Response);
+    it('should throw AUTHENTICATION_FAILED for API errors without a code', async () => {
+      mockGetItemAsync.mockResolvedValueOnce('test-key');
+      mockApi.mockRejectedValueOnce(new ApiError({ status: 500, path: '/v1/sessions/login' }));
 
-      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('TENANT_SUSPENDED');
+      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toMatchObject({
+        status: 500,
+        code: 'AUTHENTICATION_FAILED',
+      });
     });
 
-    it('should throw RATE_LIMIT_EXCEEDED error when API returns rate limit status', async () => {
-      const tenantKey = 'test-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-        json: async () => ({ error: 'RATE_LIMIT_EXCEEDED' }),
-      } as Response);
+    it('should propagate network errors', async () => {
+      mockGetItemAsync.mockResolvedValueOnce('test-key');
+      mockApi.mockRejectedValueOnce(
+        new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/sessions/login' })
+      );
 
-      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('RATE_LIMIT_EXCEEDED');
+      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
     });
 
-    it('should throw AUTHENTICATION_FAILED for generic API errors', async () => {
-      const tenantKey = 'test-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        json: async () => ({}),
-      } as Response);
+    it('should throw AUTHENTICATION_FAILED when response is missing required fields', async () => {
+      mockGetItemAsync.mockResolvedValueOnce('test-key');
+      mockApi.mockResolvedValueOnce({ verdict: 'NORMAL' }); // Missing sessionId
 
       await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('AUTHENTICATION_FAILED');
     });
+  });
 
-    it('should throw NETWORK_ERROR when fetch fails', async () => {
-      const tenantKey = 'test-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+  describe('unlock', () => {
+    it('should send the PIN with the stored session ID', async () => {
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_session_id' ? 'session-123' : null
+      );
+      mockApi.mockResolvedValueOnce({ verdict: 'DURESS', recommendedAction: 'LIMIT_AND_MONITOR', incidentId: 'incident-1' });
+
+      const response = await adapter.unlock('1234');
 
-      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('NETWORK_ERROR');
+      expect(response).toEqual({ verdict: 'DURESS', recommendedAction: 'LIMIT_AND_MONITOR', incidentId: 'incident-1' });
+      expect(mockApi).toHaveBeenCalledWith('/v1/sessions/unlock', {
+        method: 'POST',
+        body: expect.any(String),
+        retry: 'rateLimit',
+      });
+      const body = JSON.parse(mockApi.mock.calls[0][1]!.body as string);
+      expect(body).toMatchObject({ sessionId: 'session-123', pin: '1234' });
     });
 
-    it('should throw AUTHENTICATION_FAILED when response is missing required fields', async () => {
-      const tenantKey = 'test-key';
-      
-      mockGetItemAsync.mockResolvedValueOnce(tenantKey);
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ verdict: 'NORMAL' }), // Missing sessionId
-      } as Response);
+    it('should throw AUTHENTICATION_FAILED when there is no session', async () => {
+      await expect(adapter.unlock('1234')).rejects.toThrow('AUTHENTICATION_FAILED');
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+  });
 
-      await expect(adapter.signIn('TEST_USER', '1234')).rejects.toThrow('AUTHENTICATION_FAILED');
+  describe('verify', () => {
+    it('should verify the session through the API client', async () => {
+      const mockResponse = { ok: true, session: { id: 'session abc' } };
+      mockApi.mockResolvedValueOnce(mockResponse);
+
+      const response = await adapter.verify('session abc');
+
+      expect(response).toEqual(mockResponse);
+      expect(mockApi).toHaveBeenCalledWith('/v1/sessions/verify?sessionId=session%20abc', {
+        retry: 'standard',
+      });
     });
   });
 
   describe('signOut', () => {
     it('should clear all stored data', async () => {
-      await adapter.signOut();
+      const result = await adapter.signOut();
 
-      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+      expect(result).toEqual({ revoked: true });
+      expect(mockApi).not.toHaveBeenCalled();
+      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_customer_ref');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_mode');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_tenant_key');
     });
+
+    it('should clear local data, then revoke the session once with its own credentials', async () => {
+      mockGetItemAsync.mockImplementation(async (key: string) => {
+        const values: Record<string, string> = {
+          transrify_session_id: 'session-abc123',
+          transrify_access_token: 'access-1',
+          transrify_tenant_key: 'BANK_KEY',
+        };
+        return values[key] ?? null;
+      });
+      mockApi.mockImplementationOnce(async () => {
+        // Nothing of the session is left on the device by the time the server is asked
+        expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id');
+        expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_access_token');
+        return undefined;
+      });
+
+      const result = await adapter.signOut();
+
+      expect(result).toEqual({ revoked: true });
+      expect(mockApi).toHaveBeenCalledWith('/v1/sessions/logout', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId: 'session-abc123' }),
+        retry: 'none',
+        idempotencyKey: 'logout-session-abc123',
+        skipAuthRefresh: true,
+        timeoutMs: 5000,
+        headers: {
+          'X-Session-Id': 'session-abc123',
+          Authorization: 'Bearer access-1',
+          'X-Tenant-Key': 'BANK_KEY',
+        },
+      });
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_pending_revocations');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_revocation_credentials.session-abc123');
+    });
+
+    it('should keep the revocation queued when the server does not confirm it', async () => {
+      mockGetItemAsync.mockResolvedValueOnce('session-abc123');
+      mockApi.mockRejectedValueOnce(new ApiError({ status: 401, path: '/v1/sessions/logout' }));
+
+      await expect(adapter.signOut()).resolves.toEqual({ revoked: false });
+      expect(mockDeleteItemAsync).not.toHaveBeenCalledWith('transrify_pending_revocations');
+    });
+
+    it('should queue the revocation and still clear local data when offline', async () => {
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_session_id' ? 'session-abc123' : null
+      );
+      mockApi.mockRejectedValueOnce(
+        new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/sessions/logout' })
+      );
+
+      const result = await adapter.signOut();
+
+      expect(result).toEqual({ revoked: false });
+      expect(mockSetItemAsync).toHaveBeenCalledWith(
+        'transrify_pending_revocations',
+        JSON.stringify(['session-abc123'])
+      );
+      expect(mockSetItemAsync).toHaveBeenCalledWith(
+        'transrify_revocation_credentials.session-abc123',
+        JSON.stringify({ accessToken: null, tenantKey: null })
+      );
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id');
+    });
+  });
+
+  describe('refresh', () => {
+    const storeTokens = () =>
+      mockGetItemAsync.mockImplementation(async (key: string) => {
+        const values: Record<string, string> = {
+          transrify_access_token: 'access-old',
+          transrify_refresh_token: 'refresh-old',
+          transrify_token_expires_at: '1000',
+        };
+        return values[key] ?? null;
+      });
+
+    it('should return null without calling the API when no refresh token is stored', async () => {
+      await expect(adapter.refresh()).resolves.toBeNull();
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+
+    it('should exchange the refresh token and store the new tokens', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      storeTokens();
+      mockApi.mockResolvedValueOnce({ accessToken: 'access-new', expiresIn: 900 });
+
+      const tokens = await adapter.refresh();
+
+      expect(tokens).toEqual({ accessToken: 'access-new', refreshToken: 'refresh-old', expiresAt: 1_900_000 });
+      expect(mockApi).toHaveBeenCalledWith('/v1/sessions/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: 'refresh-old' }),
+        retry: 'rateLimit',
+        skipAuthRefresh: true,
+      });
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_access_token', 'access-new');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_token_expires_at', '1900000');
+    });
+
+    it('should return null when the server rejects the refresh token', async () => {
+      storeTokens();
+      mockApi.mockRejectedValueOnce(new ApiError({ status: 401, path: '/v1/sessions/refresh' }));
+
+      await expect(adapter.refresh()).resolves.toBeNull();
+    });
+
+    it('should throw on network errors so the session is kept', async () => {
+      storeTokens();
+      mockApi.mockRejectedValueOnce(
+        new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/sessions/refresh' })
+      );
+
+      await expect(adapter.refresh()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    });
+  });
+
+  describe('flushPendingRevocations', () => {
+    it('should retry queued revocations with their own credentials and keep the unconfirmed ones', async () => {
+      mockGetItemAsync.mockImplementation(async (key: string) => {
+        const values: Record<string, string> = {
+          transrify_pending_revocations: JSON.stringify(['old-1', 'old-2', 'old-3']),
+          'transrify_revocation_credentials.old-1': JSON.stringify({ accessToken: 'access-1', tenantKey: 'BANK_KEY' }),
+          // Another session is signed in; its token must not be used
+          transrify_session_id: 'session-new',
+          transrify_access_token: 'access-new',
+        };
+        return values[key] ?? null;
+      });
+      mockApi
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new ApiError({ status: 503, path: '/v1/sessions/logout' }))
+        .mockRejectedValueOnce(new ApiError({ status: 401, path: '/v1/sessions/logout' }));
+
+      const remaining = await flushPendingRevocations();
+
+      expect(remaining).toBe(2);
+      expect(mockApi).toHaveBeenNthCalledWith(1, '/v1/sessions/logout', expect.objectContaining({
+        headers: { 'X-Session-Id': 'old-1', Authorization: 'Bearer access-1', 'X-Tenant-Key': 'BANK_KEY' },
+      }));
+      expect(mockApi).toHaveBeenNthCalledWith(2, '/v1/sessions/logout', expect.objectContaining({
+        headers: { 'X-Session-Id': 'old-2' },
+      }));
+      expect(mockSetItemAsync).toHaveBeenCalledWith(
+        'transrify_pending_revocations',
+        JSON.stringify(['old-2', 'old-3'])
+      );
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_revocation_credentials.old-1');
+      expect(mockDeleteItemAsync).not.toHaveBeenCalledWith('transrify_revocation_credentials.old-3');
+    });
+
+    it('should clear the queue once every revocation is confirmed', async () => {
+      mockGetItemAsync.mockResolvedValueOnce(JSON.stringify(['old-1']));
+      mockApi.mockResolvedValueOnce(undefined);
+
+      await expect(flushPendingRevocations()).resolves.toBe(0);
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_pending_revocations');
+    });
   });
 
   describe('getCurrentUser', () => {
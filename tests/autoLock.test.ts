@@ -0,0 +1,133 @@
+import * as SecureStore from 'expo-secure-store';
+import {
+  BACKGROUND_LOCK_THRESHOLD_MS,
+  IDLE_LOCK_TIMEOUT_MS,
+  useLockStore,
+} from '../src/state/useLockStore';
+import { useAuthStore } from '../src/state/useAuthStore';
+
+// Duress response pulls in recording modules that cannot load under jest
+jest.mock('../src/lib/duress', () => ({
+  activateDuressResponse: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+
+describe('useLockStore', () => {
+  beforeEach(() => {
+    useLockStore.getState().reset();
+  });
+
+  describe('checkIdle', () => {
+    it('should stay unlocked before the idle timeout', () => {
+      const { lastActivityAt } = useLockStore.getState();
+
+      expect(useLockStore.getState().checkIdle(lastActivityAt + IDLE_LOCK_TIMEOUT_MS - 1)).toBe(false);
+    });
+
+    it('should lock once the idle timeout has elapsed', () => {
+      const { lastActivityAt } = useLockStore.getState();
+
+      expect(useLockStore.getState().checkIdle(lastActivityAt + IDLE_LOCK_TIMEOUT_MS)).toBe(true);
+      expect(useLockStore.getState().isLocked).toBe(true);
+    });
+
+    it('should restart the timeout on activity', () => {
+      const { lastActivityAt } = useLockStore.getState();
+      jest.spyOn(Date, 'now').mockReturnValue(lastActivityAt + IDLE_LOCK_TIMEOUT_MS - 1000);
+      useLockStore.getState().recordActivity();
+      jest.restoreAllMocks();
+
+      expect(useLockStore.getState().checkIdle(lastActivityAt + IDLE_LOCK_TIMEOUT_MS)).toBe(false);
+    });
+  });
+
+  describe('background', () => {
+    it('should not lock after a short background stay', () => {
+      useLockStore.getState().markBackgrounded(1000);
+
+      expect(useLockStore.getState().markForegrounded(1000 + BACKGROUND_LOCK_THRESHOLD_MS - 1)).toBe(false);
+      expect(useLockStore.getState().backgroundedAt).toBeNull();
+    });
+
+    it('should lock after a long background stay', () => {
+      useLockStore.getState().markBackgrounded(1000);
+
+      expect(useLockStore.getState().markForegrounded(1000 + BACKGROUND_LOCK_THRESHOLD_MS)).toBe(true);
+    });
+
+    it('should not lock on foreground without a recorded background', () => {
+      expect(useLockStore.getState().markForegrounded()).toBe(false);
+    });
+  });
+
+  describe('unlock', () => {
+    it('should count failed attempts and clear them on unlock', () => {
+      useLockStore.getState().lock();
+
+      expect(useLockStore.getState().recordFailedUnlock()).toBe(1);
+      expect(useLockStore.getState().recordFailedUnlock()).toBe(2);
+
+      useLockStore.getState().unlock();
+
+      expect(useLockStore.getState().isLocked).toBe(false);
+      expect(useLockStore.getState().failedUnlockAttempts).toBe(0);
+    });
+  });
+});
+
+describe('useAuthStore.escalateToDuress', () => {
+  const user = { customerRef: 'TEST_USER', sessionId: 'session-123' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+  });
+
+  it('should escalate a NORMAL session to DURESS and persist the mode', async () => {
+    useAuthStore.getState().setSession(user, 'NORMAL');
+
+    await useAuthStore.getState().escalateToDuress('incident-1');
+
+    expect(useAuthStore.getState().sessionMode).toBe('DURESS');
+    expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_mode', 'DURESS');
+    expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_incident_id', 'incident-1');
+  });
+
+  it('should do nothing when the session is already DURESS', async () => {
+    useAuthStore.getState().setSession(user, 'DURESS');
+
+    await useAuthStore.getState().escalateToDuress('incident-1');
+
+    expect(mockSetItemAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe('useAuthStore.initializeAuth', () => {
+  const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+
+  beforeEach(() => {
+    useLockStore.getState().reset();
+    useAuthStore.setState({ isAuthenticated: false, user: null, sessionMode: null });
+  });
+
+  it('should lock before a restored session is shown', async () => {
+    const session: Record<string, string> = {
+      transrify_session_id: 'session-123',
+      transrify_customer_ref: 'TEST_USER',
+      transrify_session_mode: 'NORMAL',
+    };
+    mockGetItemAsync.mockImplementation(async (key: string) => session[key] ?? null);
+    const lockedWhenAuthenticated: boolean[] = [];
+    const unsubscribe = useAuthStore.subscribe((state, previous) => {
+      if (state.isAuthenticated && !previous.isAuthenticated) {
+        lockedWhenAuthenticated.push(useLockStore.getState().isLocked);
+      }
+    });
+
+    await useAuthStore.getState().initializeAuth();
+    unsubscribe();
+
+    expect(lockedWhenAuthenticated).toEqual([true]);
+  });
+});
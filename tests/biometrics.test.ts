@@ -0,0 +1,132 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { authenticateWithBiometrics, isBiometricAvailable } from '../src/lib/biometrics';
+import { useAuthStore } from '../src/state/useAuthStore';
+
+const mockHasHardwareAsync = LocalAuthentication.hasHardwareAsync as jest.MockedFunction<typeof LocalAuthentication.hasHardwareAsync>;
+const mockIsEnrolledAsync = LocalAuthentication.isEnrolledAsync as jest.MockedFunction<typeof LocalAuthentication.isEnrolledAsync>;
+const mockAuthenticateAsync = LocalAuthentication.authenticateAsync as jest.MockedFunction<typeof LocalAuthentication.authenticateAsync>;
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.MockedFunction<typeof SecureStore.deleteItemAsync>;
+
+describe('biometrics', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isBiometricAvailable', () => {
+    it('should be available with hardware and an enrolment', async () => {
+      mockHasHardwareAsync.mockResolvedValue(true);
+      mockIsEnrolledAsync.mockResolvedValue(true);
+
+      await expect(isBiometricAvailable()).resolves.toBe(true);
+    });
+
+    it('should not be available without an enrolment', async () => {
+      mockHasHardwareAsync.mockResolvedValue(true);
+      mockIsEnrolledAsync.mockResolvedValue(false);
+
+      await expect(isBiometricAvailable()).resolves.toBe(false);
+    });
+
+    it('should not be available when the check fails', async () => {
+      mockHasHardwareAsync.mockRejectedValue(new Error('unavailable'));
+      mockIsEnrolledAsync.mockResolvedValue(true);
+
+      await expect(isBiometricAvailable()).resolves.toBe(false);
+    });
+  });
+
+  describe('authenticateWithBiometrics', () => {
+    it('should return success on a match without allowing the device passcode', async () => {
+      mockAuthenticateAsync.mockResolvedValue({ success: true });
+
+      await expect(authenticateWithBiometrics()).resolves.toBe('success');
+      expect(mockAuthenticateAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ disableDeviceFallback: true, cancelLabel: 'Use PIN' })
+      );
+    });
+
+    it('should fall back to the PIN when the user cancels', async () => {
+      mockAuthenticateAsync.mockResolvedValue({ success: false, error: 'user_cancel' });
+
+      await expect(authenticateWithBiometrics()).resolves.toBe('fallback');
+    });
+
+    it('should fail on lockout', async () => {
+      mockAuthenticateAsync.mockResolvedValue({ success: false, error: 'lockout' });
+
+      await expect(authenticateWithBiometrics()).resolves.toBe('failed');
+    });
+  });
+});
+
+describe('useAuthStore biometric restore', () => {
+  const stored: Record<string, string> = {
+    transrify_session_id: 'session-123',
+    transrify_customer_ref: 'TEST_USER',
+    transrify_session_mode: 'NORMAL',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+    mockDeleteItemAsync.mockResolvedValue();
+    useAuthStore.setState({
+      user: null,
+      sessionMode: null,
+      isAuthenticated: false,
+      hasStoredSession: false,
+      biometricEnabled: false,
+    });
+  });
+
+  it('should restore the session on launch when biometric unlock is off', async () => {
+    mockGetItemAsync.mockImplementation(async (key: string) => stored[key] ?? null);
+
+    await useAuthStore.getState().initializeAuth();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    expect(useAuthStore.getState().hasStoredSession).toBe(false);
+  });
+
+  it('should hold the session for biometric unlock when enabled', async () => {
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_biometric_enabled' ? 'true' : stored[key] ?? null
+    );
+
+    await useAuthStore.getState().initializeAuth();
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(useAuthStore.getState().hasStoredSession).toBe(true);
+    expect(useAuthStore.getState().biometricEnabled).toBe(true);
+
+    await expect(useAuthStore.getState().restoreSession()).resolves.toBe(true);
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    expect(useAuthStore.getState().user).toEqual({ customerRef: 'TEST_USER', sessionId: 'session-123' });
+    expect(useAuthStore.getState().sessionMode).toBe('NORMAL');
+    expect(useAuthStore.getState().hasStoredSession).toBe(false);
+  });
+
+  it('should not restore when no session is stored', async () => {
+    mockGetItemAsync.mockResolvedValue(null);
+    useAuthStore.setState({ hasStoredSession: true });
+
+    await expect(useAuthStore.getState().restoreSession()).resolves.toBe(false);
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    expect(useAuthStore.getState().hasStoredSession).toBe(false);
+  });
+
+  it('should persist the biometric preference', async () => {
+    await useAuthStore.getState().setBiometricEnabled(true);
+    expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_biometric_enabled', 'true');
+    expect(useAuthStore.getState().biometricEnabled).toBe(true);
+
+    await useAuthStore.getState().setBiometricEnabled(false);
+    expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_biometric_enabled');
+    expect(useAuthStore.getState().biometricEnabled).toBe(false);
+  });
+});
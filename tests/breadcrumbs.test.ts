@@ -0,0 +1,214 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import {
+  BREADCRUMB_TASK,
+  BREADCRUMB_UPLOAD_MS,
+  breadcrumbIntervalMs,
+  startBreadcrumbTrail,
+} from '../src/lib/breadcrumbs';
+import { api } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+import { incidentRequestOptions } from '../src/lib/interceptors';
+
+// In-memory file system
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: mockFiles.has(uri), uri })),
+  readAsStringAsync: jest.fn(async (uri: string) => mockFiles.get(uri) ?? ''),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  }),
+  deleteAsync: jest.fn(async (uri: string) => {
+    mockFiles.delete(uri);
+  }),
+}));
+
+jest.mock('expo-location', () => ({
+  Accuracy: { High: 4 },
+  getForegroundPermissionsAsync: jest.fn(),
+  getBackgroundPermissionsAsync: jest.fn(),
+  isBackgroundLocationAvailableAsync: jest.fn(() => Promise.resolve(true)),
+  startLocationUpdatesAsync: jest.fn(() => Promise.resolve()),
+  stopLocationUpdatesAsync: jest.fn(() => Promise.resolve()),
+  hasStartedLocationUpdatesAsync: jest.fn(() => Promise.resolve(true)),
+  watchPositionAsync: jest.fn(() => Promise.resolve({ remove: jest.fn() })),
+}));
+
+jest.mock('../src/lib/api', () => ({
+  api: jest.fn(),
+}));
+
+jest.mock('../src/lib/interceptors', () => ({
+  incidentRequestOptions: jest.fn(() => Promise.resolve(null)),
+}));
+
+jest.mock('../src/config', () => ({
+  loadEnvironment: jest.fn(() => Promise.resolve()),
+}));
+
+const TRAIL_FILE = 'file:///docs/duress-trail.json';
+
+// Captured before any clearAllMocks
+const [[, runTask]] = (TaskManager.defineTask as jest.Mock).mock.calls;
+
+const mockLocation = Location as jest.Mocked<typeof Location>;
+const mockApi = api as jest.MockedFunction<typeof api>;
+const mockIncidentOptions = incidentRequestOptions as jest.MockedFunction<typeof incidentRequestOptions>;
+
+/**
+ * A fix at the given time (seconds) and position, moving at speed m/s
+ */
+const fix = (seconds: number, speed: number | null, lat = -26.1, lng = 28.05) => ({
+  timestamp: Date.UTC(2026, 0, 1) + seconds * 1000,
+  coords: { latitude: lat, longitude: lng, altitude: 1700, accuracy: 8, altitudeAccuracy: 3, heading: 90, speed },
+});
+
+/**
+ * Points sent in the nth API call
+ */
+const sentPoints = (call: number) => JSON.parse(mockApi.mock.calls[call][1]!.body as string).points;
+
+/**
+ * End the trail the only way it ends: the server reports the incident closed
+ */
+const endTrail = async () => {
+  mockApi.mockRejectedValue(new ApiError({ status: 410, code: 'INCIDENT_CLOSED', path: '/v1/incidents' }));
+  await runTask({ data: { locations: [fix(3600, 0)] }, error: null });
+  await jest.advanceTimersByTimeAsync(BREADCRUMB_UPLOAD_MS);
+};
+
+describe('breadcrumb trail', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFiles.clear();
+    mockLocation.getForegroundPermissionsAsync.mockResolvedValue({ status: 'granted' } as any);
+    mockLocation.getBackgroundPermissionsAsync.mockResolvedValue({ status: 'granted' } as any);
+    mockApi.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(async () => {
+    await endTrail();
+    jest.useRealTimers();
+  });
+
+  it('should space fixes further apart the slower the device moves', () => {
+    expect(breadcrumbIntervalMs(20)).toBeLessThan(breadcrumbIntervalMs(1.5));
+    expect(breadcrumbIntervalMs(1.5)).toBeLessThan(breadcrumbIntervalMs(0));
+    expect(breadcrumbIntervalMs(null)).toBe(breadcrumbIntervalMs(1.5));
+  });
+
+  it('should run as a background location task without asking for permission', async () => {
+    await startBreadcrumbTrail('incident-1');
+
+    expect(mockLocation.startLocationUpdatesAsync).toHaveBeenCalledWith(
+      BREADCRUMB_TASK,
+      expect.objectContaining({ foregroundService: expect.objectContaining({ killServiceOnDestroy: false }) })
+    );
+    expect(mockLocation.watchPositionAsync).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to foreground updates without background permission', async () => {
+    mockLocation.getBackgroundPermissionsAsync.mockResolvedValue({ status: 'denied' } as any);
+
+    await startBreadcrumbTrail('incident-1');
+
+    expect(mockLocation.startLocationUpdatesAsync).not.toHaveBeenCalled();
+    expect(mockLocation.watchPositionAsync).toHaveBeenCalled();
+  });
+
+  it('should thin fixes by speed and send them against the incident', async () => {
+    await startBreadcrumbTrail('incident-1');
+
+    await runTask({
+      data: {
+        locations: [
+          fix(0, 0),
+          fix(10, 0), // Still: too soon
+          fix(20, 0, -26.0), // Jumped ~11 km: kept
+          fix(30, 12), // Driving: 10 s apart is enough
+          fix(32, 12), // Too soon
+        ],
+      },
+      error: null,
+    });
+
+    expect(mockApi).toHaveBeenCalledWith('/v1/incidents/incident-1/locations', expect.objectContaining({
+      method: 'POST',
+      idempotencyKey: expect.stringContaining('incident-1'),
+    }));
+    expect(sentPoints(0)).toEqual([
+      { lat: -26.1, lng: 28.05, accuracy: 8, altitude: 1700, speed: 0, heading: 90, at: '2026-01-01T00:00:00.000Z' },
+      expect.objectContaining({ lat: -26.0, at: '2026-01-01T00:00:20.000Z' }),
+      expect.objectContaining({ speed: 12, at: '2026-01-01T00:00:30.000Z' }),
+    ]);
+  });
+
+  it('should keep fixes the server cannot be reached for', async () => {
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/incidents' }));
+    await startBreadcrumbTrail('incident-1');
+
+    await runTask({ data: { locations: [fix(0, -1)] }, error: null });
+    expect(JSON.parse(mockFiles.get(TRAIL_FILE)!).pending).toEqual([
+      expect.objectContaining({ speed: null, at: '2026-01-01T00:00:00.000Z' }),
+    ]);
+
+    // Not due yet: the next fix waits for the upload timer
+    await runTask({ data: { locations: [fix(60, 0)] }, error: null });
+    expect(mockApi).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(BREADCRUMB_UPLOAD_MS);
+
+    expect(sentPoints(1)).toHaveLength(2);
+    expect(JSON.parse(mockFiles.get(TRAIL_FILE)!).pending).toEqual([]);
+  });
+
+  it('should send under the incident credentials and keep fixes refused as unauthorized', async () => {
+    const auth = { headers: { 'X-Session-Id': 'session-1' }, skipAuthRefresh: true };
+    mockIncidentOptions.mockResolvedValue(auth);
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 401, code: 'SESSION_REVOKED', path: '/v1/incidents' }));
+    await startBreadcrumbTrail('incident-1');
+
+    await runTask({ data: { locations: [fix(0, 0)] }, error: null });
+    expect(mockIncidentOptions).toHaveBeenCalledWith('incident-1');
+    expect(mockApi).toHaveBeenLastCalledWith('/v1/incidents/incident-1/locations', expect.objectContaining(auth));
+    expect(JSON.parse(mockFiles.get(TRAIL_FILE)!).pending).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(BREADCRUMB_UPLOAD_MS);
+
+    expect(mockApi).toHaveBeenCalledTimes(2);
+    expect(sentPoints(1)).toHaveLength(1);
+    expect(JSON.parse(mockFiles.get(TRAIL_FILE)!).pending).toEqual([]);
+    mockIncidentOptions.mockResolvedValue(null);
+  });
+
+  it('should end the trail once the server reports the incident closed', async () => {
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 410, code: 'INCIDENT_CLOSED', path: '/v1/incidents' }));
+    await startBreadcrumbTrail('incident-1');
+
+    await runTask({ data: { locations: [fix(0, 0)] }, error: null });
+
+    expect(mockLocation.stopLocationUpdatesAsync).toHaveBeenCalledWith(BREADCRUMB_TASK);
+    expect(mockFiles.has(TRAIL_FILE)).toBe(false);
+
+    await runTask({ data: { locations: [fix(60, 0)] }, error: null });
+    await jest.advanceTimersByTimeAsync(BREADCRUMB_UPLOAD_MS);
+    expect(mockApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send fixes left over from an earlier incident before starting anew', async () => {
+    mockFiles.set(TRAIL_FILE, JSON.stringify({
+      incidentId: 'incident-0',
+      active: false,
+      pending: [{ lat: 1, lng: 2, accuracy: null, altitude: null, speed: null, heading: null, at: '2026-01-01T00:00:00.000Z' }],
+      last: null,
+    }));
+
+    await startBreadcrumbTrail('incident-1');
+
+    expect(mockApi).toHaveBeenCalledWith('/v1/incidents/incident-0/locations', expect.anything());
+    expect(JSON.parse(mockFiles.get(TRAIL_FILE)!)).toMatchObject({ incidentId: 'incident-1', active: true, pending: [] });
+  });
+});
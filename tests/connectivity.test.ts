@@ -0,0 +1,149 @@
+import * as Network from 'expo-network';
+import { toNetworkStatus, probeApi } from '../src/lib/connectivity';
+import { flushOutbox } from '../src/lib/outbox';
+import { processEvidenceQueue } from '../src/lib/evidenceQueue';
+import { METERED_UPLOAD_LIMIT_BYTES, useConnectivityStore } from '../src/state/useConnectivityStore';
+import { useAlertsStore } from '../src/state/useAlertsStore';
+import { pollNearbyAlerts } from '../src/lib/alerts';
+
+jest.mock('../src/lib/outbox', () => ({
+  flushOutbox: jest.fn(() => Promise.resolve(0)),
+}));
+
+jest.mock('../src/lib/evidenceQueue', () => ({
+  processEvidenceQueue: jest.fn(() => Promise.resolve(0)),
+}));
+
+jest.mock('../src/lib/alerts', () => ({
+  pollNearbyAlerts: jest.fn(() => Promise.resolve({ ok: true, alerts: [] })),
+  connectAlertsSocket: jest.fn(),
+}));
+
+jest.mock('../src/config', () => ({
+  getEnvironment: () => ({ apiBaseUrl: 'https://api.test.transrify.com' }),
+}));
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+const mockFlushOutbox = flushOutbox as jest.MockedFunction<typeof flushOutbox>;
+const mockProcessEvidence = processEvidenceQueue as jest.MockedFunction<typeof processEvidenceQueue>;
+const mockPoll = pollNearbyAlerts as jest.MockedFunction<typeof pollNearbyAlerts>;
+
+const wifi = { isOnline: true, isMetered: false, type: Network.NetworkStateType.WIFI };
+const cellular = { isOnline: true, isMetered: true, type: Network.NetworkStateType.CELLULAR };
+const offline = { isOnline: false, isMetered: false, type: Network.NetworkStateType.NONE };
+
+describe('toNetworkStatus', () => {
+  it('should treat only an explicit lack of internet as offline', () => {
+    expect(toNetworkStatus({ type: Network.NetworkStateType.WIFI, isConnected: true }).isOnline).toBe(true);
+    expect(
+      toNetworkStatus({ type: Network.NetworkStateType.WIFI, isConnected: true, isInternetReachable: false }).isOnline
+    ).toBe(false);
+    expect(toNetworkStatus({ type: Network.NetworkStateType.NONE, isConnected: false }).isOnline).toBe(false);
+  });
+
+  it('should mark cellular as metered', () => {
+    expect(toNetworkStatus({ type: Network.NetworkStateType.CELLULAR, isConnected: true }).isMetered).toBe(true);
+    expect(toNetworkStatus({ type: Network.NetworkStateType.WIFI, isConnected: true }).isMetered).toBe(false);
+  });
+});
+
+describe('probeApi', () => {
+  it('should count any HTTP response as reachable', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 } as Response);
+
+    await expect(probeApi()).resolves.toBe(true);
+    expect(mockFetch).toHaveBeenCalledWith('https://api.test.transrify.com', expect.objectContaining({ method: 'HEAD' }));
+  });
+
+  it('should report a failed request as unreachable', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    await expect(probeApi()).resolves.toBe(false);
+  });
+});
+
+describe('useConnectivityStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFetch.mockResolvedValue({ ok: true, status: 200 } as Response);
+    useConnectivityStore.setState({ isOnline: true, isMetered: false, networkType: null, isApiReachable: true });
+    useAlertsStore.getState().stopForegroundAlerts();
+    useAlertsStore.setState({ pollingPaused: false });
+  });
+
+  afterEach(() => {
+    useAlertsStore.getState().stopForegroundAlerts();
+    useConnectivityStore.getState().stop();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should pause polling while offline and resume it with an outbox flush when back', async () => {
+    // Subscribed and polling as the WebSocket fallback
+    const location = { lat: 1, lng: 2 };
+    useAlertsStore.setState({ subscribed: true, pollingLocation: location });
+
+    useConnectivityStore.getState().updateNetwork(offline);
+
+    expect(useAlertsStore.getState().pollingPaused).toBe(true);
+    expect(useAlertsStore.getState().pollingInterval).toBeNull();
+
+    useConnectivityStore.getState().updateNetwork(wifi);
+
+    expect(useAlertsStore.getState().pollingPaused).toBe(false);
+    expect(useAlertsStore.getState().pollingInterval).not.toBeNull();
+    expect(mockPoll).toHaveBeenCalledWith(location, expect.any(Number), undefined);
+    expect(mockFlushOutbox).toHaveBeenCalledWith({ force: true });
+    expect(mockProcessEvidence).toHaveBeenCalledWith({ force: true });
+  });
+
+  it('should treat an unreachable API like being offline and probe again later', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    await expect(useConnectivityStore.getState().checkReachability()).resolves.toBe(false);
+    expect(useAlertsStore.getState().pollingPaused).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(useConnectivityStore.getState().isApiReachable).toBe(true);
+    expect(useAlertsStore.getState().pollingPaused).toBe(false);
+    expect(mockFlushOutbox).toHaveBeenCalledWith({ force: true });
+    expect(mockProcessEvidence).toHaveBeenCalledWith({ force: true });
+  });
+
+  it('should hold large uploads on a metered connection until it is unmetered', async () => {
+    useConnectivityStore.getState().updateNetwork(cellular);
+    const { canUpload, waitForUpload } = useConnectivityStore.getState();
+
+    expect(canUpload(1024)).toBe(true);
+    expect(canUpload(METERED_UPLOAD_LIMIT_BYTES + 1)).toBe(false);
+
+    const resolved = jest.fn();
+    waitForUpload(METERED_UPLOAD_LIMIT_BYTES + 1).then(resolved);
+    await Promise.resolve();
+    expect(resolved).not.toHaveBeenCalled();
+
+    useConnectivityStore.getState().updateNetwork(wifi);
+    await Promise.resolve();
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it('should stop waiting for a connection when the upload is aborted', async () => {
+    useConnectivityStore.getState().updateNetwork(offline);
+    const controller = new AbortController();
+
+    const waiting = useConnectivityStore.getState().waitForUpload(1, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow('REQUEST_CANCELLED');
+  });
+
+  it('should not start uploads while offline', () => {
+    useConnectivityStore.getState().updateNetwork(offline);
+
+    expect(useConnectivityStore.getState().canUpload(1)).toBe(false);
+  });
+});
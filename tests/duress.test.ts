@@ -0,0 +1,88 @@
+import { activateDuressResponse, endDuressResponse } from '../src/lib/duress';
+import { queueDuressAlert } from '../src/lib/alerts';
+import { startBreadcrumbTrail } from '../src/lib/breadcrumbs';
+import { startDuressRecording, stopDuressRecording } from '../src/lib/duressRecording';
+import { saveIncidentEncryption } from '../src/lib/encryption';
+import { captureNearbyEvidence } from '../src/lib/nearby';
+import { recordTimelineEvent, stopIncidentTimeline } from '../src/lib/timeline';
+
+jest.mock('../src/lib/alerts', () => ({
+  queueDuressAlert: jest.fn(),
+}));
+
+jest.mock('../src/lib/breadcrumbs', () => ({
+  startBreadcrumbTrail: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/duressRecording', () => ({
+  setDuressIncidentId: jest.fn(),
+  startDuressRecording: jest.fn(() => Promise.resolve()),
+  stopDuressRecording: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/encryption', () => ({
+  saveIncidentEncryption: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/nearby', () => ({
+  captureNearbyEvidence: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/timeline', () => ({
+  recordTimelineEvent: jest.fn(() => Promise.resolve()),
+  startIncidentTimeline: jest.fn(() => Promise.resolve()),
+  stopIncidentTimeline: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/geo', () => ({
+  getCurrentLocation: jest.fn(() => Promise.resolve({ lat: -26.1, lng: 28.05 })),
+}));
+
+const mockQueueAlert = queueDuressAlert as jest.MockedFunction<typeof queueDuressAlert>;
+
+describe('activateDuressResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start recording and the location trail while the alert is still being sent', async () => {
+    let deliverAlert: (response: { ok: boolean; alertId: string }) => void = () => undefined;
+    mockQueueAlert.mockReturnValueOnce(new Promise((resolve) => (deliverAlert = resolve)));
+
+    let settled = false;
+    const activation = activateDuressResponse('session-1', 'incident-1').then(() => (settled = true));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(saveIncidentEncryption).toHaveBeenCalledWith('incident-1');
+    expect(startBreadcrumbTrail).toHaveBeenCalledWith('incident-1');
+    expect(startDuressRecording).toHaveBeenCalledWith('incident-1');
+    expect(captureNearbyEvidence).toHaveBeenCalledWith('incident-1');
+    expect(settled).toBe(false);
+
+    deliverAlert({ ok: true, alertId: 'alert-1' });
+    await activation;
+    expect(recordTimelineEvent).toHaveBeenCalledWith('ALERT', { delivered: true, alertId: 'alert-1' });
+  });
+
+  it('should still start recording when the alert fails', async () => {
+    mockQueueAlert.mockRejectedValueOnce(new Error('Rejected'));
+
+    await activateDuressResponse('session-1', 'incident-1', { trigger: 'ESCALATION' });
+
+    expect(startDuressRecording).toHaveBeenCalledWith('incident-1');
+    expect(recordTimelineEvent).toHaveBeenCalledWith('VERDICT', { verdict: 'DURESS', trigger: 'ESCALATION' });
+  });
+});
+
+describe('endDuressResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stop recording and close the timeline after sign-out', async () => {
+    await endDuressResponse();
+
+    expect(stopDuressRecording).toHaveBeenCalled();
+    expect(stopIncidentTimeline).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  DURESS_SEGMENT_MS,
+  isDuressRecording,
+  isDuressVideoRecording,
+  setDuressCamera,
+  startDuressRecording,
+  startDuressVideo,
+  stopDuressRecording,
+} from '../src/lib/duressRecording';
+import {
+  rotateAudioRecording,
+  startAudioRecording,
+  stopAudioRecording,
+} from '../src/lib/evidence';
+import { queueEvidence } from '../src/lib/evidenceQueue';
+import { setRemoteFlags } from '../src/lib/flags';
+
+jest.mock('../src/lib/evidence', () => ({
+  startAudioRecording: jest.fn(),
+  stopAudioRecording: jest.fn(),
+  rotateAudioRecording: jest.fn(),
+  requestVideoPermissions: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/geo', () => ({
+  getCurrentLocation: jest.fn(() => Promise.resolve({ lat: -26.1, lng: 28.05 })),
+}));
+
+jest.mock('../src/lib/evidenceQueue', () => ({
+  queueEvidence: jest.fn(),
+}));
+
+const mockStart = startAudioRecording as jest.MockedFunction<typeof startAudioRecording>;
+const mockStop = stopAudioRecording as jest.MockedFunction<typeof stopAudioRecording>;
+const mockRotate = rotateAudioRecording as jest.MockedFunction<typeof rotateAudioRecording>;
+const mockQueue = queueEvidence as jest.MockedFunction<typeof queueEvidence>;
+
+type Recording = Awaited<ReturnType<typeof startAudioRecording>>;
+const recording = (name: string) => ({ name }) as unknown as Recording;
+
+describe('duress recording segments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    let segment = 0;
+    mockStart.mockResolvedValue(recording('segment-0'));
+    mockRotate.mockImplementation(async () => {
+      segment++;
+      return { uri: `file:///cache/segment-${segment - 1}.m4a`, next: recording(`segment-${segment}`) };
+    });
+    mockStop.mockImplementation(async () => `file:///cache/segment-${segment}.m4a`);
+    mockQueue.mockImplementation(async (request) => ({
+      ...request,
+      id: request.fileUri,
+      profileId: null,
+      size: 1000,
+      sha256: `hash-of-${request.fileUri.split('/').pop()}`,
+      attempts: 0,
+      createdAt: 0,
+      nextAttemptAt: 0,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should queue each segment as it closes, chained to the one before', async () => {
+    await startDuressRecording('incident-1');
+
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    expect(mockQueue).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    await stopDuressRecording();
+
+    expect(mockQueue.mock.calls.map(([request]) => request)).toEqual([
+      expect.objectContaining({
+        incidentId: 'incident-1',
+        fileUri: 'file:///cache/segment-0.m4a',
+        kind: 'AUDIO',
+        segment: { index: 0, previousSha256: null },
+      }),
+      expect.objectContaining({
+        fileUri: 'file:///cache/segment-1.m4a',
+        segment: { index: 1, previousSha256: 'hash-of-segment-0.m4a' },
+      }),
+      expect.objectContaining({
+        fileUri: 'file:///cache/segment-2.m4a',
+        segment: { index: 2, previousSha256: 'hash-of-segment-1.m4a' },
+      }),
+    ]);
+    expect(isDuressRecording()).toBe(false);
+
+    // No more rotations once stopped
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    expect(mockRotate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave a visible gap when a segment cannot be queued', async () => {
+    mockQueue.mockRejectedValueOnce(new Error('File does not exist'));
+
+    await startDuressRecording('incident-1');
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    await stopDuressRecording();
+
+    expect(mockQueue).toHaveBeenLastCalledWith(
+      expect.objectContaining({ segment: { index: 1, previousSha256: null } })
+    );
+  });
+
+  it('should queue the closed segment and stop rotating when a new one cannot start', async () => {
+    mockRotate.mockResolvedValueOnce({ uri: 'file:///cache/segment-0.m4a', next: null });
+
+    await startDuressRecording('incident-1');
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS * 2);
+
+    expect(mockRotate).toHaveBeenCalledTimes(1);
+    expect(mockQueue).toHaveBeenCalledWith(expect.objectContaining({ fileUri: 'file:///cache/segment-0.m4a' }));
+
+    await stopDuressRecording();
+    expect(mockStop).not.toHaveBeenCalled();
+  });
+});
+
+describe('duress video segments', () => {
+  // A camera whose recordings end when the segment duration elapses or when stopped
+  const createCamera = () => {
+    let segment = 0;
+    let photo = 0;
+    let finish: (() => void) | null = null;
+    return {
+      takePhoto: jest.fn(async (facing: string) => `file:///cache/photo-${photo++}-${facing}.jpg`),
+      recordAsync: jest.fn((options?: { maxDuration?: number }) => new Promise<{ uri: string }>((resolve) => {
+        const uri = `file:///cache/video-${segment++}.mp4`;
+        const timer = setTimeout(() => resolve({ uri }), (options?.maxDuration ?? 60) * 1000);
+        finish = () => {
+          clearTimeout(timer);
+          resolve({ uri });
+        };
+      })),
+      stopRecording: jest.fn(() => finish?.()),
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    setRemoteFlags({ duressPhotoCount: 0 });
+    mockStart.mockResolvedValue(recording('segment-0'));
+    mockStop.mockResolvedValue('file:///cache/segment-0.m4a');
+    mockQueue.mockImplementation(async (request) => ({
+      ...request,
+      id: request.fileUri,
+      profileId: null,
+      size: 1000,
+      sha256: `hash-of-${request.fileUri.split('/').pop()}`,
+      attempts: 0,
+      createdAt: 0,
+      nextAttemptAt: 0,
+    }));
+  });
+
+  afterEach(() => {
+    setDuressCamera(null);
+    setRemoteFlags(undefined);
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should start video with the recording once the camera is mounted', async () => {
+    const camera = createCamera();
+    setDuressCamera(camera);
+
+    await startDuressRecording('incident-1');
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+
+    expect(isDuressVideoRecording()).toBe(true);
+    expect(camera.recordAsync).toHaveBeenCalledTimes(2);
+
+    await stopDuressRecording();
+
+    expect(camera.stopRecording).toHaveBeenCalled();
+    expect(isDuressVideoRecording()).toBe(false);
+    const videos = mockQueue.mock.calls.map(([request]) => request).filter((request) => request.kind === 'VIDEO');
+    expect(videos).toEqual([
+      expect.objectContaining({
+        fileUri: 'file:///cache/video-0.mp4',
+        contentType: 'video/mp4',
+        segment: { index: 0, previousSha256: null },
+      }),
+      expect.objectContaining({
+        fileUri: 'file:///cache/video-1.mp4',
+        segment: { index: 1, previousSha256: 'hash-of-video-0.mp4' },
+      }),
+    ]);
+  });
+
+  it('should start video when the camera mounts after the recording started', async () => {
+    await startDuressRecording('incident-1');
+    expect(isDuressVideoRecording()).toBe(false);
+
+    const camera = createCamera();
+    setDuressCamera(camera);
+    await startDuressVideo();
+    await startDuressVideo();
+
+    expect(camera.recordAsync).toHaveBeenCalledTimes(1);
+    await stopDuressRecording();
+  });
+
+  it('should continue the video chain when the camera remounts mid-incident', async () => {
+    const first = createCamera();
+    setDuressCamera(first);
+    await startDuressRecording('incident-2');
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+
+    setDuressCamera(null);
+    first.stopRecording();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const second = createCamera();
+    setDuressCamera(second);
+    await startDuressVideo();
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    await stopDuressRecording();
+
+    const segments = mockQueue.mock.calls
+      .map(([request]) => request)
+      .filter((request) => request.kind === 'VIDEO')
+      .map((request) => request.segment);
+    expect(segments.slice(0, 3)).toEqual([
+      { index: 0, previousSha256: null },
+      { index: 1, previousSha256: 'hash-of-video-0.mp4' },
+      { index: 2, previousSha256: 'hash-of-video-1.mp4' },
+    ]);
+  });
+
+  it('should refuse to record video without a duress incident', async () => {
+    setDuressCamera(createCamera());
+
+    await expect(startDuressVideo()).rejects.toThrow('No active duress incident ID');
+  });
+
+  it('should queue a round of back and front photos before video and again every interval', async () => {
+    setRemoteFlags({ duressPhotoCount: 2, duressPhotoIntervalMs: 30000 });
+    jest.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+    const camera = createCamera();
+    setDuressCamera(camera);
+
+    await startDuressRecording('incident-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(camera.takePhoto.mock.calls.map(([facing]) => facing)).toEqual(['back', 'front']);
+    expect(camera.recordAsync).toHaveBeenCalledTimes(1);
+    const photos = () => mockQueue.mock.calls.map(([request]) => request).filter((request) => request.kind === 'PHOTO');
+    expect(photos()).toEqual([
+      {
+        incidentId: 'incident-1',
+        fileUri: 'file:///cache/photo-0-back.jpg',
+        kind: 'PHOTO',
+        contentType: 'image/jpeg',
+        capture: { capturedAt: '2026-01-01T10:00:00.000Z', geo: { lat: -26.1, lng: 28.05 } },
+        duress: true,
+      },
+      expect.objectContaining({ fileUri: 'file:///cache/photo-1-front.jpg' }),
+    ]);
+
+    // Not due yet after the first segment
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    expect(camera.takePhoto).toHaveBeenCalledTimes(2);
+    expect(camera.recordAsync).toHaveBeenCalledTimes(2);
+
+    // Due after the second segment, before the third starts
+    await jest.advanceTimersByTimeAsync(DURESS_SEGMENT_MS);
+    expect(camera.takePhoto).toHaveBeenCalledTimes(4);
+    expect(camera.recordAsync).toHaveBeenCalledTimes(3);
+    expect(photos()[2]).toMatchObject({
+      fileUri: 'file:///cache/photo-2-back.jpg',
+      capture: { capturedAt: '2026-01-01T10:00:40.000Z' },
+    });
+
+    await stopDuressRecording();
+  });
+
+  it('should keep going when a photo cannot be taken', async () => {
+    setRemoteFlags({ duressPhotoCount: 2, duressPhotoIntervalMs: 30000 });
+    const camera = createCamera();
+    camera.takePhoto.mockRejectedValueOnce(new Error('Camera permission not granted'));
+    setDuressCamera(camera);
+
+    await startDuressRecording('incident-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockQueue).toHaveBeenCalledTimes(1);
+    expect(mockQueue).toHaveBeenCalledWith(expect.objectContaining({ kind: 'PHOTO' }));
+    expect(camera.recordAsync).toHaveBeenCalledTimes(1);
+
+    await stopDuressRecording();
+  });
+});
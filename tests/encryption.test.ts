@@ -0,0 +1,130 @@
+import { constants, createDecipheriv, generateKeyPairSync, privateDecrypt, randomBytes } from 'crypto';
+import * as SecureStore from 'expo-secure-store';
+import {
+  prepareEvidenceEncryption,
+  saveIncidentEncryption,
+  sealSegment,
+  sealedSize,
+  SEGMENT_TAG_BYTES,
+} from '../src/lib/encryption';
+import { setActiveProfileId } from '../src/lib/storage';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((count: number) => new Uint8Array(require('crypto').randomBytes(count))),
+}));
+
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+/**
+ * Open a sealed segment the way an investigator would
+ */
+function openSegment(wrappedKey: string, iv: string, index: number, sealed: Uint8Array): Buffer {
+  const key = privateDecrypt(
+    { key: privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(wrappedKey, 'base64')
+  );
+  const segmentIv = Buffer.from(iv, 'base64');
+  segmentIv.writeUInt32BE((segmentIv.readUInt32BE(8) + index) >>> 0, 8);
+
+  const decipher = createDecipheriv('aes-256-gcm', key, segmentIv);
+  decipher.setAuthTag(Buffer.from(sealed.subarray(sealed.length - SEGMENT_TAG_BYTES)));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - SEGMENT_TAG_BYTES)), decipher.final()]);
+}
+
+describe('evidence encryption', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new Map([
+      ['transrify_tenant_config', JSON.stringify({ tenantKey: 'ACME', displayName: 'Acme', evidencePublicKey: publicKey })],
+    ]);
+    mockGetItemAsync.mockImplementation(async (key: string) => store.get(key) ?? null);
+    mockSetItemAsync.mockImplementation(async (key: string, value: string) => {
+      store.set(key, value);
+    });
+  });
+
+  it('should seal segments that only the tenant private key opens', async () => {
+    const encryption = await prepareEvidenceEncryption('incident-1');
+    const plain = randomBytes(1000);
+
+    const first = sealSegment(encryption!, 0, plain);
+    const second = sealSegment(encryption!, 1, plain);
+
+    expect(first).toHaveLength(plain.length + SEGMENT_TAG_BYTES);
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(false);
+    expect(openSegment(encryption!.wrappedKey, encryption!.iv, 0, first).equals(plain)).toBe(true);
+    expect(openSegment(encryption!.wrappedKey, encryption!.iv, 1, second).equals(plain)).toBe(true);
+  });
+
+  it('should reuse the incident key with a fresh IV for each file', async () => {
+    const first = await prepareEvidenceEncryption('incident-1');
+    const second = await prepareEvidenceEncryption('incident-1');
+    const other = await prepareEvidenceEncryption('incident-2');
+
+    expect(second!.key).toBe(first!.key);
+    expect(second!.keyId).toBe(first!.keyId);
+    expect(second!.iv).not.toBe(first!.iv);
+    expect(other!.key).not.toBe(first!.key);
+    expect(JSON.parse(store.get('transrify_evidence_keys')!)).toEqual({
+      'incident-1': first!.key,
+      'incident-2': other!.key,
+    });
+  });
+
+  it('should not encrypt when the tenant has no evidence key', async () => {
+    store.set('transrify_tenant_config', JSON.stringify({ tenantKey: 'ACME', displayName: 'Acme' }));
+
+    await expect(prepareEvidenceEncryption('incident-1')).resolves.toBeNull();
+    expect(store.has('transrify_evidence_keys')).toBe(false);
+  });
+
+  it('should reject an unusable tenant key', async () => {
+    store.set(
+      'transrify_tenant_config',
+      JSON.stringify({ tenantKey: 'ACME', displayName: 'Acme', evidencePublicKey: 'not a key' })
+    );
+
+    await expect(prepareEvidenceEncryption('incident-1')).rejects.toThrow('INVALID_EVIDENCE_KEY');
+  });
+
+  it("should keep sealing an incident's evidence for its own tenant after a profile switch", async () => {
+    await saveIncidentEncryption('incident-1');
+    const before = await prepareEvidenceEncryption('incident-1');
+
+    // Another tenant's profile signs in, with its own public key and no evidence keys
+    const other = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    await setActiveProfileId('profile-b');
+    store.set(
+      'transrify_tenant_config.profile-b',
+      JSON.stringify({ tenantKey: 'OTHER', displayName: 'Other', evidencePublicKey: other.publicKey })
+    );
+
+    const after = await prepareEvidenceEncryption('incident-1');
+
+    expect(after!.key).toBe(before!.key);
+    const plain = randomBytes(100);
+    expect(openSegment(after!.wrappedKey, after!.iv, 0, sealSegment(after!, 0, plain)).equals(plain)).toBe(true);
+    expect(store.has('transrify_evidence_keys.profile-b')).toBe(false);
+
+    await setActiveProfileId(null);
+  });
+
+  it('should count one tag per segment in the sealed size', () => {
+    expect(sealedSize(0, 100)).toBe(SEGMENT_TAG_BYTES);
+    expect(sealedSize(100, 100)).toBe(100 + SEGMENT_TAG_BYTES);
+    expect(sealedSize(101, 100)).toBe(101 + 2 * SEGMENT_TAG_BYTES);
+  });
+});
@@ -0,0 +1,123 @@
+import * as SecureStore from 'expo-secure-store';
+
+type ConfigModule = typeof import('../src/config');
+
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.MockedFunction<typeof SecureStore.deleteItemAsync>;
+
+const ENV_KEYS = [
+  'EXPO_PUBLIC_STAGING_API_BASE_URL',
+  'EXPO_PUBLIC_STAGING_WS_URL',
+  'EXPO_PUBLIC_DEV_API_BASE_URL',
+  'EXPO_PUBLIC_DEV_WS_URL',
+  'EXPO_PUBLIC_LOCAL_API_BASE_URL',
+] as const;
+
+/**
+ * Load a fresh copy of the config module with the given build environment
+ */
+function loadConfig(env: Partial<Record<(typeof ENV_KEYS)[number], string>> = {}): ConfigModule {
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, env);
+
+  let config!: ConfigModule;
+  jest.isolateModules(() => {
+    config = require('../src/config');
+  });
+  return config;
+}
+
+describe('environment profiles', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetItemAsync.mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to production', () => {
+    const config = loadConfig();
+
+    expect(config.getEnvironment()).toEqual({
+      name: 'production',
+      label: 'Production',
+      apiBaseUrl: 'https://carboapi.me',
+      wsBaseUrl: 'wss://carboapi.me',
+      defaultTenantKey: 'DEMO_BANK_KEY',
+      mockAuth: false,
+    });
+    expect(config.getAvailableEnvironments().map((env) => env.name)).toEqual(['production', 'local']);
+  });
+
+  it('should offer staging only when its URL is set, deriving the WebSocket URL', () => {
+    const config = loadConfig({ EXPO_PUBLIC_STAGING_API_BASE_URL: 'https://staging.example.com/' });
+
+    expect(config.getAvailableEnvironments().find((env) => env.name === 'staging')).toEqual({
+      name: 'staging',
+      label: 'Staging',
+      apiBaseUrl: 'https://staging.example.com',
+      wsBaseUrl: 'wss://staging.example.com',
+      defaultTenantKey: 'DEMO_BANK_KEY',
+      mockAuth: false,
+    });
+  });
+
+  it('should drop invalid environments', () => {
+    const config = loadConfig({ EXPO_PUBLIC_DEV_API_BASE_URL: 'ftp://dev.example.com' });
+
+    expect(config.getAvailableEnvironments().some((env) => env.name === 'development')).toBe(false);
+  });
+
+  it('should report validation problems', () => {
+    const config = loadConfig();
+
+    expect(
+      config.validateEnvironment({
+        name: 'production',
+        label: 'Production',
+        apiBaseUrl: 'http://example.com',
+        wsBaseUrl: 'ws://example.com',
+        defaultTenantKey: ' ',
+        mockAuth: false,
+      })
+    ).toHaveLength(3);
+  });
+
+  it('should restore the environment chosen in the developer switcher', async () => {
+    const config = loadConfig();
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_environment' ? 'local' : null
+    );
+
+    const env = await config.loadEnvironment();
+
+    expect(env.name).toBe('local');
+    expect(env.mockAuth).toBe(true);
+    expect(config.getEnvironment().apiBaseUrl).toBe('http://localhost:3000');
+  });
+
+  it('should persist a switch and forget it when switching back to the build environment', async () => {
+    const config = loadConfig();
+
+    await config.setEnvironment('local');
+    expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_environment', 'local');
+    expect(config.getEnvironment().name).toBe('local');
+
+    await config.setEnvironment('production');
+    expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_environment');
+    expect(config.getEnvironment().name).toBe('production');
+  });
+
+  it('should reject environments this build does not have', async () => {
+    const config = loadConfig();
+
+    await expect(config.setEnvironment('staging')).rejects.toThrow('UNKNOWN_ENVIRONMENT');
+  });
+});
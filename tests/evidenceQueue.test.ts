@@ -0,0 +1,252 @@
+import * as SecureStore from 'expo-secure-store';
+import {
+  getEvidenceQueue,
+  MAX_QUEUE_BYTES,
+  processEvidenceQueue,
+  queueEvidence,
+  resumeEvidenceQueue,
+} from '../src/lib/evidenceQueue';
+import { finalizeEvidence, uploadEvidenceFile } from '../src/lib/evidence';
+import { getPendingUploads } from '../src/lib/upload';
+import { ApiError } from '../src/lib/errors';
+
+// In-memory file system: files are tracked by size only
+const mockFiles = new Map<string, { size: number; contents?: string }>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn(async (uri: string) => {
+    const file = mockFiles.get(uri);
+    return file ? { exists: true, size: file.size, uri } : { exists: false, uri };
+  }),
+  readAsStringAsync: jest.fn(async (uri: string) => mockFiles.get(uri)?.contents ?? ''),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, { size: contents.length, contents });
+  }),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  }),
+  deleteAsync: jest.fn(async (uri: string) => {
+    mockFiles.delete(uri);
+  }),
+}));
+
+jest.mock('../src/lib/evidence', () => ({
+  sha256File: jest.fn(() => Promise.resolve('content-hash')),
+  uploadEvidenceFile: jest.fn(),
+  finalizeEvidence: jest.fn(),
+}));
+
+jest.mock('../src/lib/upload', () => ({
+  clearUploadState: jest.fn(() => Promise.resolve()),
+  getPendingUploads: jest.fn(() => Promise.resolve([])),
+}));
+
+jest.mock('../src/config', () => ({
+  loadEnvironment: jest.fn(() => Promise.resolve()),
+}));
+
+const mockUpload = uploadEvidenceFile as jest.MockedFunction<typeof uploadEvidenceFile>;
+const mockFinalize = finalizeEvidence as jest.MockedFunction<typeof finalizeEvidence>;
+const mockPendingUploads = getPendingUploads as jest.MockedFunction<typeof getPendingUploads>;
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+
+const finalizeRequest = {
+  incidentId: 'incident-1',
+  kind: 'AUDIO' as const,
+  key: 'evidence/incident-1/audio',
+  size: 1000,
+  sha256: 'object-hash',
+};
+
+const recording = (uri: string, size = 1000) => {
+  mockFiles.set(uri, { size });
+  return { incidentId: 'incident-1', fileUri: uri, kind: 'AUDIO' as const, contentType: 'audio/mpeg' };
+};
+
+describe('evidence queue', () => {
+  let session: string | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFiles.clear();
+    session = 'session-1';
+    mockGetItemAsync.mockImplementation(async (key: string) => (key === 'transrify_session_id' ? session : null));
+    mockUpload.mockResolvedValue(finalizeRequest);
+    mockFinalize.mockResolvedValue({ ok: true, id: 'evidence-1' });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should retain the file until the finalize is confirmed, then delete it', async () => {
+    const entry = await queueEvidence(recording('file:///cache/audio.m4a'));
+
+    expect(entry.fileUri).toMatch(/^file:\/\/\/docs\/evidence\/audio-.*\.m4a$/);
+    expect(mockFiles.has('file:///cache/audio.m4a')).toBe(false);
+
+    await processEvidenceQueue();
+
+    expect(mockUpload).toHaveBeenCalledWith('incident-1', entry.fileUri, 'AUDIO', 'audio/mpeg', {
+      duress: undefined,
+      auth: null,
+    });
+    expect(mockFinalize).toHaveBeenCalledWith({ ...finalizeRequest, contentSha256: 'content-hash' }, null);
+    expect(mockFiles.has(entry.fileUri)).toBe(false);
+    await expect(getEvidenceQueue()).resolves.toEqual([]);
+  });
+
+  it('should send duress evidence past the upload gate', async () => {
+    const entry = await queueEvidence({ ...recording('file:///cache/audio.m4a'), duress: true });
+
+    await processEvidenceQueue();
+
+    expect(entry.duress).toBe(true);
+    expect(mockUpload).toHaveBeenCalledWith('incident-1', entry.fileUri, 'AUDIO', 'audio/mpeg', {
+      duress: true,
+      auth: null,
+    });
+  });
+
+  it('should finalize a segment with its place in the chain', async () => {
+    await queueEvidence({
+      ...recording('file:///cache/segment-1.m4a'),
+      segment: { index: 1, previousSha256: 'hash-of-segment-0' },
+    });
+    await processEvidenceQueue();
+
+    expect(mockFinalize).toHaveBeenCalledWith({
+      ...finalizeRequest,
+      contentSha256: 'content-hash',
+      segmentIndex: 1,
+      previousSha256: 'hash-of-segment-0',
+    }, null);
+  });
+
+  it('should keep the file and back off when the upload fails', async () => {
+    mockUpload.mockRejectedValueOnce(new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/evidence/presign' }));
+
+    const entry = await queueEvidence(recording('file:///cache/audio.m4a'));
+    await processEvidenceQueue();
+
+    const [queued] = await getEvidenceQueue();
+    expect(queued).toMatchObject({ id: entry.id, attempts: 1 });
+    expect(queued.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(mockFiles.has(entry.fileUri)).toBe(true);
+    expect(mockFinalize).not.toHaveBeenCalled();
+
+    // Not due yet; a forced run (app start, back online) tries again
+    await processEvidenceQueue();
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+
+    await expect(processEvidenceQueue({ force: true })).resolves.toBe(0);
+    expect(mockFiles.has(entry.fileUri)).toBe(false);
+  });
+
+  it('should drop evidence whose finalize the server rejects', async () => {
+    mockFinalize.mockRejectedValueOnce(new ApiError({ status: 400, path: '/evidence/finalize' }));
+
+    const entry = await queueEvidence(recording('file:///cache/audio.m4a'));
+
+    await expect(processEvidenceQueue()).resolves.toBe(0);
+    expect(mockFiles.has(entry.fileUri)).toBe(false);
+  });
+
+  it('should wait for a session before uploading', async () => {
+    session = null;
+
+    await queueEvidence(recording('file:///cache/audio.m4a'));
+
+    await expect(processEvidenceQueue({ force: true })).resolves.toBe(1);
+    expect(mockUpload).not.toHaveBeenCalled();
+  });
+
+  it('should upload duress evidence after sign-out under the incident credentials', async () => {
+    const credentials = { sessionId: 'session-1', accessToken: 'token-1', tenantKey: 'TENANT_A' };
+    session = null;
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_incident_credentials.incident-1' ? JSON.stringify(credentials) : null
+    );
+
+    const duress = await queueEvidence({ ...recording('file:///cache/segment.m4a'), duress: true });
+    await queueEvidence(recording('file:///cache/audio.m4a'));
+    await processEvidenceQueue({ force: true });
+
+    const auth = {
+      headers: { 'X-Session-Id': 'session-1', Authorization: 'Bearer token-1', 'X-Tenant-Key': 'TENANT_A' },
+      skipAuthRefresh: true,
+    };
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+    expect(mockUpload).toHaveBeenCalledWith('incident-1', duress.fileUri, 'AUDIO', 'audio/mpeg', { duress: true, auth });
+    expect(mockFinalize).toHaveBeenCalledWith(expect.objectContaining({ incidentId: 'incident-1' }), auth);
+    expect(await getEvidenceQueue()).toHaveLength(1);
+  });
+
+  it('should evict the oldest files beyond the disk cap', async () => {
+    session = null;
+    const first = await queueEvidence(recording('file:///cache/first.m4a', MAX_QUEUE_BYTES / 2));
+    const second = await queueEvidence(recording('file:///cache/second.m4a', MAX_QUEUE_BYTES / 2));
+    const third = await queueEvidence(recording('file:///cache/third.m4a', 1000));
+
+    expect((await getEvidenceQueue()).map((entry) => entry.id)).toEqual([second.id, third.id]);
+    expect(mockFiles.has(first.fileUri)).toBe(false);
+  });
+
+  it('should keep duress files when evicting beyond the disk cap', async () => {
+    session = null;
+    const duress = await queueEvidence({ ...recording('file:///cache/duress.m4a', MAX_QUEUE_BYTES / 2), duress: true });
+    const other = await queueEvidence(recording('file:///cache/other.m4a', MAX_QUEUE_BYTES / 2));
+    const latest = await queueEvidence(recording('file:///cache/latest.m4a', 1000));
+
+    expect((await getEvidenceQueue()).map((entry) => entry.id)).toEqual([duress.id, latest.id]);
+    expect(mockFiles.has(duress.fileUri)).toBe(true);
+    expect(mockFiles.has(other.fileUri)).toBe(false);
+  });
+
+  it('should not evict a file while it is uploading', async () => {
+    const uploading = await queueEvidence(recording('file:///cache/uploading.m4a', MAX_QUEUE_BYTES / 2));
+    let finishUpload: (request: typeof finalizeRequest) => void = () => undefined;
+    mockUpload.mockReturnValueOnce(new Promise((resolve) => (finishUpload = resolve)));
+    const processed = processEvidenceQueue();
+    await jest.advanceTimersByTimeAsync(0);
+
+    session = null;
+    const other = await queueEvidence(recording('file:///cache/other.m4a', MAX_QUEUE_BYTES / 2));
+    await queueEvidence(recording('file:///cache/latest.m4a', 1000));
+
+    expect(mockFiles.has(uploading.fileUri)).toBe(true);
+    expect(mockFiles.has(other.fileUri)).toBe(false);
+    finishUpload(finalizeRequest);
+    await processed;
+  });
+
+  it('should queue uploads interrupted outside the queue', async () => {
+    mockFiles.set('file:///cache/video.mp4', { size: 5000 });
+    mockPendingUploads.mockResolvedValueOnce([
+      {
+        fileUri: 'file:///cache/video.mp4',
+        target: { incidentId: 'incident-1', kind: 'VIDEO', contentType: 'video/mp4' },
+        size: 5000,
+        encryption: null,
+        key: null,
+        uploadId: null,
+        parts: [],
+        offset: 0,
+        hash: { h: [], pending: [], length: 0 },
+        sha256: null,
+      },
+    ]);
+
+    await expect(resumeEvidenceQueue()).resolves.toBe(0);
+    expect(mockUpload).toHaveBeenCalledWith('incident-1', 'file:///cache/video.mp4', 'VIDEO', 'video/mp4', {
+      duress: undefined,
+      auth: null,
+    });
+    expect(mockFiles.has('file:///cache/video.mp4')).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { DEFAULT_FLAGS, getFlag, getFlags, sanitizeRemoteFlags, setRemoteFlags, subscribeFlags } from '../src/lib/flags';
+
+describe('feature flags', () => {
+  afterEach(() => {
+    setRemoteFlags(undefined);
+  });
+
+  it('should start from the defaults', () => {
+    expect(getFlags()).toEqual(DEFAULT_FLAGS);
+  });
+
+  it('should apply remote overrides and fall back when they are removed', () => {
+    setRemoteFlags({ nfcEnabled: true, alertRadiusMeters: 5000 });
+
+    expect(getFlag('nfcEnabled')).toBe(true);
+    expect(getFlag('alertRadiusMeters')).toBe(5000);
+    expect(getFlag('alertPollIntervalMs')).toBe(DEFAULT_FLAGS.alertPollIntervalMs);
+
+    setRemoteFlags(undefined);
+
+    expect(getFlags()).toEqual(DEFAULT_FLAGS);
+  });
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeFlags(listener);
+
+    setRemoteFlags({ nfcEnabled: true });
+    unsubscribe();
+    setRemoteFlags(undefined);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ nfcEnabled: true }));
+  });
+
+  describe('sanitizeRemoteFlags', () => {
+    it('should never let the remote config enable mock auth', () => {
+      expect(sanitizeRemoteFlags({ useMockAuth: true })).toEqual({});
+    });
+
+    it('should drop unknown flags and wrongly typed values', () => {
+      expect(sanitizeRemoteFlags({ madeUp: true, nfcEnabled: 'yes', alertRadiusMeters: '500' })).toEqual({});
+    });
+
+    it('should drop numbers outside the allowed range', () => {
+      expect(sanitizeRemoteFlags({ alertRadiusMeters: 50, alertPollIntervalMs: 1000 })).toEqual({});
+      expect(sanitizeRemoteFlags({ alertRadiusMeters: 2500, alertPollIntervalMs: 30000 })).toEqual({
+        alertRadiusMeters: 2500,
+        alertPollIntervalMs: 30000,
+      });
+    });
+
+    it('should ignore non-object input', () => {
+      expect(sanitizeRemoteFlags(null)).toEqual({});
+      expect(sanitizeRemoteFlags('nfcEnabled')).toEqual({});
+    });
+  });
+
+  describe('build environment', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should layer env values over defaults and remote values over env', () => {
+      process.env = {
+        ...originalEnv,
+        EXPO_PUBLIC_NFC_ENABLED: 'true',
+        EXPO_PUBLIC_ALERT_RADIUS_METERS: '2000',
+        EXPO_PUBLIC_ALERT_POLL_INTERVAL_MS: '10',
+      };
+
+      jest.isolateModules(() => {
+        const isolated = require('../src/lib/flags');
+        expect(isolated.getFlag('nfcEnabled')).toBe(true);
+        expect(isolated.getFlag('alertRadiusMeters')).toBe(2000);
+        // Below the minimum, so the default stays
+        expect(isolated.getFlag('alertPollIntervalMs')).toBe(15000);
+
+        isolated.setRemoteFlags({ alertRadiusMeters: 3000 });
+        expect(isolated.getFlag('alertRadiusMeters')).toBe(3000);
+        expect(isolated.getFlag('nfcEnabled')).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import * as SecureStore from 'expo-secure-store';
+import { api, clearInterceptors, getInterceptorNames, registerInterceptor } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+import {
+  API_HEADERS,
+  incidentRequestOptions,
+  installApiInterceptors,
+  requestIdInterceptor,
+} from '../src/lib/interceptors';
+
+// Mock the config module
+jest.mock('../src/config', () => ({
+  getEnvironment: () => ({
+    apiBaseUrl: 'https://api.test.transrify.com',
+    defaultTenantKey: 'DEFAULT_TENANT',
+  }),
+}));
+
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+
+// Mock global fetch
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status });
+
+const sentHeaders = (call: number): Record<string, string> =>
+  mockFetch.mock.calls[call][1]?.headers as Record<string, string>;
+
+describe('API interceptors', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearInterceptors();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    mockGetItemAsync.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('chain', () => {
+    it('should run onRequest in registration order and onResponse in reverse', async () => {
+      const calls: string[] = [];
+      registerInterceptor({
+        name: 'outer',
+        onRequest: () => { calls.push('outer:request'); },
+        onResponse: () => { calls.push('outer:response'); },
+      });
+      registerInterceptor({
+        name: 'inner',
+        onRequest: () => { calls.push('inner:request'); },
+        onResponse: () => { calls.push('inner:response'); },
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+      await api('/v1/things');
+
+      expect(calls).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+    });
+
+    it('should let onRequest modify headers', async () => {
+      registerInterceptor({
+        name: 'custom',
+        onRequest: (context) => {
+          context.init.headers['X-Custom'] = 'yes';
+        },
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things');
+
+      expect(sentHeaders(0)['X-Custom']).toBe('yes');
+    });
+
+    it('should pass response data and duration to onResponse', async () => {
+      const onResponse = jest.fn();
+      registerInterceptor({ name: 'telemetry', onResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, { id: 'abc' }));
+
+      await api('/v1/things');
+
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: '/v1/things',
+          data: { id: 'abc' },
+          durationMs: expect.any(Number),
+        })
+      );
+    });
+
+    it('should let onError replace the error', async () => {
+      registerInterceptor({
+        name: 'mapper',
+        onError: (error, context) =>
+          new ApiError({ status: error.status, code: 'TENANT_SUSPENDED', path: context.path }),
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(403, {}));
+
+      await expect(api('/v1/things')).rejects.toMatchObject({ code: 'TENANT_SUSPENDED' });
+    });
+
+    it('should replace an interceptor registered under the same name', () => {
+      registerInterceptor({ name: 'a' });
+      registerInterceptor({ name: 'b' });
+      registerInterceptor({ name: 'a' });
+
+      expect(getInterceptorNames()).toEqual(['b', 'a']);
+    });
+
+    it('should remove an interceptor with the returned function', () => {
+      const unregister = registerInterceptor({ name: 'temp' });
+      unregister();
+
+      expect(getInterceptorNames()).toEqual([]);
+    });
+  });
+
+  describe('built-in interceptors', () => {
+    it('should attach request ID, tenant key and session ID headers', async () => {
+      installApiInterceptors();
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_session_id' ? 'session-123' : key === 'transrify_tenant_key' ? 'BANK_KEY' : null
+      );
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things');
+
+      const headers = sentHeaders(0);
+      expect(headers[API_HEADERS.REQUEST_ID]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(headers[API_HEADERS.TENANT_KEY]).toBe('BANK_KEY');
+      expect(headers[API_HEADERS.SESSION_ID]).toBe('session-123');
+    });
+
+    it('should attach the stored access token as a bearer token', async () => {
+      installApiInterceptors();
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_access_token' ? 'access-123' : null
+      );
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things');
+
+      expect(sentHeaders(0)[API_HEADERS.AUTHORIZATION]).toBe('Bearer access-123');
+    });
+
+    it('should fall back to the configured tenant key and omit missing sessions', async () => {
+      installApiInterceptors();
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things');
+
+      const headers = sentHeaders(0);
+      expect(headers[API_HEADERS.TENANT_KEY]).toBe('DEFAULT_TENANT');
+      expect(headers[API_HEADERS.SESSION_ID]).toBeUndefined();
+      expect(headers[API_HEADERS.AUTHORIZATION]).toBeUndefined();
+    });
+
+    it('should keep a tenant key set by the caller', async () => {
+      installApiInterceptors();
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things', { headers: { [API_HEADERS.TENANT_KEY]: 'BANK_KEY' } });
+
+      expect(sentHeaders(0)[API_HEADERS.TENANT_KEY]).toBe('BANK_KEY');
+    });
+
+    it('should keep credentials set by the caller over the stored session', async () => {
+      installApiInterceptors();
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_session_id' ? 'session-new' : key === 'transrify_access_token' ? 'access-new' : null
+      );
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things', {
+        headers: { [API_HEADERS.SESSION_ID]: 'session-old', [API_HEADERS.AUTHORIZATION]: 'Bearer access-old' },
+      });
+
+      expect(sentHeaders(0)[API_HEADERS.SESSION_ID]).toBe('session-old');
+      expect(sentHeaders(0)[API_HEADERS.AUTHORIZATION]).toBe('Bearer access-old');
+    });
+
+    it('should not send the stored token with a request for another session', async () => {
+      installApiInterceptors();
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_access_token' ? 'access-new' : null
+      );
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, {}));
+
+      await api('/v1/things', { headers: { [API_HEADERS.SESSION_ID]: 'session-old' } });
+
+      expect(sentHeaders(0)[API_HEADERS.AUTHORIZATION]).toBeUndefined();
+    });
+
+    it('should reuse the request ID across retries', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      jest.useFakeTimers();
+      registerInterceptor(requestIdInterceptor);
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(429, { error: 'RATE_LIMIT_EXCEEDED' }))
+        .mockResolvedValueOnce(jsonResponse(200, {}));
+
+      const promise = api('/v1/things');
+      await jest.advanceTimersByTimeAsync(800);
+      await promise;
+
+      expect(sentHeaders(1)[API_HEADERS.REQUEST_ID]).toBe(sentHeaders(0)[API_HEADERS.REQUEST_ID]);
+    });
+  });
+
+  describe('incidentRequestOptions', () => {
+    const credentials = { sessionId: 'session-1', accessToken: 'access-1', tenantKey: 'BANK_KEY' };
+
+    const store = (sessionId: string | null) =>
+      mockGetItemAsync.mockImplementation(async (key: string) => {
+        if (key === 'transrify_incident_credentials.incident-1') return JSON.stringify(credentials);
+        return key === 'transrify_session_id' ? sessionId : null;
+      });
+
+    it('should send under the saved credentials once the session is gone', async () => {
+      store(null);
+
+      await expect(incidentRequestOptions('incident-1')).resolves.toEqual({
+        headers: {
+          [API_HEADERS.SESSION_ID]: 'session-1',
+          [API_HEADERS.AUTHORIZATION]: 'Bearer access-1',
+          [API_HEADERS.TENANT_KEY]: 'BANK_KEY',
+        },
+        skipAuthRefresh: true,
+      });
+    });
+
+    it('should leave requests to the stored session while it is the incident session', async () => {
+      store('session-1');
+
+      await expect(incidentRequestOptions('incident-1')).resolves.toBeNull();
+    });
+
+    it('should return null when nothing was saved for the incident', async () => {
+      await expect(incidentRequestOptions('incident-2')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  LogRecord,
+  consoleSink,
+  createLogger,
+  logPath,
+  redact,
+  releaseSink,
+  setLogSink,
+  setMinLogLevel,
+} from '../src/lib/logger';
+
+describe('logger', () => {
+  let records: LogRecord[];
+
+  beforeEach(() => {
+    records = [];
+    setLogSink((record) => records.push(record));
+    setMinLogLevel('debug');
+  });
+
+  afterEach(() => {
+    setLogSink(consoleSink);
+    jest.restoreAllMocks();
+  });
+
+  describe('redact', () => {
+    it('should remove PINs, tenant keys and tokens entirely', () => {
+      expect(
+        redact({ customerRef: 'CUST-1', pin: '1234', tenantKey: 'BANK_KEY', accessToken: 'abc' })
+      ).toEqual({
+        customerRef: 'CUST-1',
+        pin: '[REDACTED]',
+        tenantKey: '[REDACTED]',
+        accessToken: '[REDACTED]',
+      });
+    });
+
+    it('should keep only the tail of session IDs', () => {
+      expect(redact({ sessionId: 'session-abcdef123' })).toEqual({ sessionId: '…f123' });
+      expect(redact({ 'X-Session-Id': 'abc' })).toEqual({ 'X-Session-Id': '[REDACTED]' });
+    });
+
+    it('should coarsen coordinates', () => {
+      expect(redact({ geo: { lat: 40.712776, lng: -74.005974 } })).toEqual({
+        geo: { lat: 40.71, lng: -74.01 },
+      });
+    });
+
+    it('should parse and redact JSON string bodies', () => {
+      const body = JSON.stringify({ customerRef: 'CUST-1', pin: '9999' });
+      expect(redact(body)).toEqual({ customerRef: 'CUST-1', pin: '[REDACTED]' });
+    });
+
+    it('should leave plain strings and errors untouched', () => {
+      const error = new Error('boom');
+      expect(redact('hello')).toBe('hello');
+      expect(redact(error)).toBe(error);
+    });
+  });
+
+  describe('logPath', () => {
+    it('should drop the query string, which key-based redaction cannot see', () => {
+      expect(logPath('/v1/sessions/verify?sessionId=session-abcdef123')).toBe('/v1/sessions/verify');
+      expect(logPath('/v1/alerts/nearby?lat=40.712776&lng=-74.005974')).toBe('/v1/alerts/nearby');
+      expect(logPath('/v1/alerts/duress')).toBe('/v1/alerts/duress');
+    });
+  });
+
+  describe('createLogger', () => {
+    it('should emit namespaced, redacted records to the active sink', () => {
+      createLogger('sessions').info('Login', { pin: '1234', sessionId: 'session-9876' });
+
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        level: 'info',
+        namespace: 'sessions',
+        message: 'Login',
+        data: [{ pin: '[REDACTED]', sessionId: '…9876' }],
+      });
+    });
+
+    it('should drop records below the minimum level', () => {
+      setMinLogLevel('warn');
+      const log = createLogger('alerts');
+
+      log.debug('verbose');
+      log.info('routine');
+      log.warn('careful');
+
+      expect(records.map((r) => r.level)).toEqual(['warn']);
+    });
+  });
+
+  describe('sinks', () => {
+    it('should write errors to console.error with the namespace prefix', () => {
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+      setLogSink(consoleSink);
+
+      createLogger('storage').error('Failed', { code: 'X' });
+
+      expect(spy).toHaveBeenCalledWith('[storage] Failed', { code: 'X' });
+    });
+
+    it('should drop debug output in release builds', () => {
+      const spy = jest.spyOn(console, 'log').mockImplementation();
+      setLogSink(releaseSink);
+      const log = createLogger('api');
+
+      log.debug('GET /v1/things');
+      log.info('Retrying request');
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith('[api] Retrying request');
+    });
+  });
+});
@@ -103,7 +103,7 @@ describe('Logout Functionality', () => {
         expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_customer_ref');
         expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_mode');
         expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_tenant_key');
-        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
       });
     });
 
@@ -161,7 +161,7 @@ describe('Logout Functionality', () => {
       
       await waitFor(() => {
         expect(consoleErrorSpy).toHaveBeenCalledWith(
-          'Logout failed:',
+          '[LandingScreen] Logout failed',
           expect.any(Error)
         );
       });
@@ -253,7 +253,7 @@ describe('Logout Functionality', () => {
       fireEvent.press(logoutButton);
       
       await waitFor(() => {
-        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
         expect(mockNavigate).toHaveBeenCalledWith('Login');
       });
     });
@@ -274,7 +274,7 @@ describe('Logout Functionality', () => {
       fireEvent.press(logoutButton);
       
       await waitFor(() => {
-        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+        expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
         expect(mockNavigate).toHaveBeenCalledWith('Login');
       });
     });
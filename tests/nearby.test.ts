@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { PermissionsAndroid, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { BleManager } from 'react-native-ble-plx';
+import WifiManager from 'react-native-wifi-reborn';
+import { captureNearbyEvidence, NEARBY_SCAN_MS, NearbySnapshot, scanNearby } from '../src/lib/nearby';
+import { queueEvidence } from '../src/lib/evidenceQueue';
+import { setRemoteFlags } from '../src/lib/flags';
+
+const mockDevices = [
+  { id: 'AA:BB:CC:DD:EE:01', localName: 'Headphones', name: null, rssi: -48 },
+  { id: 'AA:BB:CC:DD:EE:02', localName: null, name: null, rssi: -80 },
+  { id: 'AA:BB:CC:DD:EE:01', localName: 'Headphones', name: null, rssi: -50 },
+];
+
+jest.mock('react-native-ble-plx', () => ({
+  State: { PoweredOn: 'PoweredOn' },
+  BleManager: jest.fn().mockImplementation(() => ({
+    state: jest.fn(() => Promise.resolve('PoweredOn')),
+    startDeviceScan: jest.fn((_uuids, _options, listener) => {
+      mockDevices.forEach((device) => listener(null, device));
+      return Promise.resolve();
+    }),
+    stopDeviceScan: jest.fn(() => Promise.resolve()),
+    destroy: jest.fn(() => Promise.resolve()),
+  })),
+}));
+
+jest.mock('react-native-wifi-reborn', () => ({
+  __esModule: true,
+  default: {
+    reScanAndLoadWifiList: jest.fn(),
+    loadWifiList: jest.fn(),
+  },
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  cacheDirectory: 'file:///cache/',
+  writeAsStringAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../src/lib/evidence', () => ({
+  sha256String: jest.fn(async (value: string) => require('crypto').createHash('sha256').update(value).digest('hex')),
+}));
+
+jest.mock('../src/lib/evidenceQueue', () => ({
+  queueEvidence: jest.fn(() => Promise.resolve({ id: 'entry-1' })),
+}));
+
+jest.mock('../src/lib/geo', () => ({
+  getCurrentLocation: jest.fn(() => Promise.resolve({ lat: -26.1, lng: 28.05 })),
+}));
+
+const mockWifi = WifiManager as jest.Mocked<typeof WifiManager>;
+const mockQueue = queueEvidence as jest.MockedFunction<typeof queueEvidence>;
+const mockWrite = FileSystem.writeAsStringAsync as jest.MockedFunction<typeof FileSystem.writeAsStringAsync>;
+
+const hashed = (value: string) => createHash('sha256').update(`incident-1:${value}`).digest('hex');
+
+describe('nearby snapshots', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    setRemoteFlags(undefined);
+  });
+
+  it('should list each Bluetooth device once with hashed identifiers', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    jest.spyOn(Platform, 'Version', 'get').mockReturnValue(33);
+    jest.spyOn(PermissionsAndroid, 'check').mockResolvedValue(true);
+    mockWifi.reScanAndLoadWifiList.mockResolvedValueOnce([]);
+
+    const scan = scanNearby('incident-1');
+    await jest.advanceTimersByTimeAsync(NEARBY_SCAN_MS);
+    const snapshot = await scan;
+
+    expect(snapshot.ble).toEqual({
+      available: true,
+      devices: [
+        expect.objectContaining({ id: hashed('AA:BB:CC:DD:EE:01'), name: hashed('Headphones'), rssi: -48 }),
+        expect.objectContaining({ id: hashed('AA:BB:CC:DD:EE:02'), name: null, rssi: -80 }),
+      ],
+    });
+    expect(JSON.stringify(snapshot)).not.toContain('AA:BB');
+  });
+
+  it('should scan nothing on iOS, so no Bluetooth alert can appear', async () => {
+    const snapshot = await scanNearby('incident-1');
+
+    expect(BleManager).not.toHaveBeenCalled();
+    expect(mockWifi.reScanAndLoadWifiList).not.toHaveBeenCalled();
+    expect(snapshot.ble).toEqual({ available: false, devices: [] });
+    expect(snapshot.wifi).toEqual({ available: false, networks: [] });
+  });
+
+  it('should scan Wi-Fi on Android and skip Bluetooth without permission', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    jest.spyOn(Platform, 'Version', 'get').mockReturnValue(33);
+    jest.spyOn(PermissionsAndroid, 'check').mockImplementation(async (permission) =>
+      permission === PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION
+    );
+    mockWifi.reScanAndLoadWifiList.mockRejectedValueOnce(new Error('Scan throttled'));
+    mockWifi.loadWifiList.mockResolvedValueOnce([
+      { SSID: 'HomeNet', BSSID: '0A:1B:2C:3D:4E:5F', capabilities: '[WPA2]', frequency: 2412, level: -61, timestamp: 0 },
+    ]);
+
+    const snapshot = await scanNearby('incident-1');
+
+    expect(BleManager).not.toHaveBeenCalled();
+    expect(snapshot.ble).toEqual({ available: false, devices: [] });
+    expect(snapshot.wifi).toEqual({
+      available: true,
+      networks: [{ bssid: hashed('0a:1b:2c:3d:4e:5f'), ssid: hashed('HomeNet'), rssi: -61, frequency: 2412 }],
+    });
+  });
+
+  it('should queue the snapshot as NEARBY evidence when enabled', async () => {
+    setRemoteFlags({ nearbyEvidenceEnabled: true });
+
+    const capture = captureNearbyEvidence('incident-1');
+    await jest.advanceTimersByTimeAsync(NEARBY_SCAN_MS);
+
+    await expect(capture).resolves.toBe('entry-1');
+    const [fileUri, contents] = mockWrite.mock.calls[0];
+    const snapshot: NearbySnapshot = JSON.parse(contents);
+    expect(snapshot).toMatchObject({ version: 1, incidentId: 'incident-1', scanMs: NEARBY_SCAN_MS });
+    expect(mockQueue).toHaveBeenCalledWith({
+      incidentId: 'incident-1',
+      fileUri,
+      kind: 'NEARBY',
+      contentType: 'application/json',
+      capture: { capturedAt: snapshot.capturedAt, geo: { lat: -26.1, lng: 28.05 } },
+      duress: true,
+    });
+    // The queue deletes the file once it is delivered
+    expect(FileSystem.deleteAsync).not.toHaveBeenCalled();
+  });
+
+  it('should delete the snapshot when it cannot be queued', async () => {
+    setRemoteFlags({ nearbyEvidenceEnabled: true });
+    mockQueue.mockRejectedValueOnce(new Error('Disk full'));
+
+    const capture = captureNearbyEvidence('incident-1');
+    await jest.advanceTimersByTimeAsync(NEARBY_SCAN_MS);
+
+    await expect(capture).resolves.toBeNull();
+    const [fileUri] = mockWrite.mock.calls[0];
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith(fileUri, { idempotent: true });
+  });
+
+  it('should do nothing while the flag is off', async () => {
+    await expect(captureNearbyEvidence('incident-1')).resolves.toBeNull();
+
+    expect(BleManager).not.toHaveBeenCalled();
+    expect(mockQueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import * as SecureStore from 'expo-secure-store';
+import { enqueue, flushOutbox } from '../src/lib/outbox';
+import { queueAlertAck, queueDuressAlert } from '../src/lib/alerts';
+import { api } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+import { setActiveProfileId } from '../src/lib/storage';
+import { OutboxEntry } from '../src/types';
+
+// In-memory file system
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: mockFiles.has(uri), uri })),
+  readAsStringAsync: jest.fn(async (uri: string) => mockFiles.get(uri) ?? ''),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  }),
+}));
+
+// Mock the API client
+jest.mock('../src/lib/api', () => ({
+  api: jest.fn(),
+}));
+
+jest.mock('../src/config', () => ({
+  getEnvironment: () => ({ defaultTenantKey: 'TEST_TENANT' }),
+  APP_VERSION: '1.0.0',
+}));
+
+const mockApi = api as jest.MockedFunction<typeof api>;
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.MockedFunction<typeof SecureStore.deleteItemAsync>;
+
+const OUTBOX_FILE = 'file:///docs/outbox.json';
+
+const networkError = () => new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/alerts/duress' });
+
+describe('outbox', () => {
+  let store: Map<string, string>;
+
+  const storedOutbox = (): OutboxEntry[] => JSON.parse(mockFiles.get(OUTBOX_FILE) ?? '[]');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFiles.clear();
+    store = new Map([['transrify_session_id', 'session-1']]);
+    mockGetItemAsync.mockImplementation(async (key: string) => store.get(key) ?? null);
+    mockSetItemAsync.mockImplementation(async (key: string, value: string) => {
+      store.set(key, value);
+    });
+    mockDeleteItemAsync.mockImplementation(async (key: string) => {
+      store.delete(key);
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should send right away and leave nothing queued', async () => {
+    mockApi.mockResolvedValueOnce({ ok: true, alertId: 'alert-1' });
+
+    const response = await queueDuressAlert('session-1', { lat: 1, lng: 2 });
+
+    expect(response).toEqual({ ok: true, alertId: 'alert-1' });
+    expect(mockApi).toHaveBeenCalledWith('/v1/alerts/duress', expect.objectContaining({
+      method: 'POST',
+      retry: 'critical',
+      idempotencyKey: expect.stringMatching(/^duress-alert-/),
+    }));
+    expect(storedOutbox()).toEqual([]);
+  });
+
+  it('should keep a request that could not be sent and replay it with the same idempotency key', async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+
+    expect(await queueDuressAlert('session-1')).toBeNull();
+
+    const [entry] = storedOutbox();
+    expect(entry).toMatchObject({ kind: 'DURESS_ALERT', path: '/v1/alerts/duress', attempts: 1 });
+    expect(entry.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(JSON.parse(entry.body)).toMatchObject({ sessionId: 'session-1', tenantKey: 'TEST_TENANT' });
+
+    mockApi.mockResolvedValueOnce({ ok: true, alertId: 'alert-1' });
+    expect(await flushOutbox({ force: true })).toBe(0);
+
+    expect(mockApi).toHaveBeenLastCalledWith('/v1/alerts/duress', {
+      method: 'POST',
+      body: entry.body,
+      retry: 'none',
+      idempotencyKey: entry.key,
+    });
+    expect(storedOutbox()).toEqual([]);
+  });
+
+  it('should wait for the backoff unless forced', async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+    await queueAlertAck('alert-1', 'USER_001', 'INAPP');
+    mockApi.mockClear();
+
+    expect(await flushOutbox()).toBe(1);
+    expect(mockApi).not.toHaveBeenCalled();
+
+    jest.setSystemTime(storedOutbox()[0].nextAttemptAt);
+    mockApi.mockResolvedValueOnce({ ok: true, acknowledgedAt: '2024-01-01T00:00:00Z' });
+    expect(await flushOutbox()).toBe(0);
+    expect(mockApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop and report requests the server rejects', async () => {
+    const rejected = new ApiError({ status: 400, code: 'MISSING_REQUIRED_FIELDS', path: '/v1/alerts/ack' });
+    mockApi.mockRejectedValueOnce(rejected);
+
+    await expect(queueAlertAck('alert-1', 'USER_001', 'INAPP')).rejects.toBe(rejected);
+    expect(storedOutbox()).toEqual([]);
+  });
+
+  it('should keep requests refused for their credentials', async () => {
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 401, code: 'TOKEN_EXPIRED', path: '/v1/alerts/duress' }));
+    expect(await queueDuressAlert('session-1')).toBeNull();
+
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 403, code: 'SESSION_REVOKED', path: '/v1/alerts/duress' }));
+    expect(await flushOutbox({ force: true })).toBe(1);
+    expect(storedOutbox()[0]).toMatchObject({ kind: 'DURESS_ALERT', attempts: 2 });
+  });
+
+  it('should not queue the same idempotency key twice', async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+    await queueAlertAck('alert-1', 'USER_001', 'INAPP');
+    await queueAlertAck('alert-1', 'USER_001', 'INAPP');
+
+    expect(mockApi).toHaveBeenCalledTimes(1);
+    expect(storedOutbox()).toHaveLength(1);
+    expect(storedOutbox()[0].key).toBe('ack-alert-1-USER_001');
+  });
+
+  it('should hold replays until there is a session', async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+    await queueDuressAlert('session-1');
+    store.delete('transrify_session_id');
+    mockApi.mockClear();
+
+    expect(await flushOutbox({ force: true })).toBe(1);
+    expect(mockApi).not.toHaveBeenCalled();
+  });
+
+  it("should leave another profile's entries for that profile's session", async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+    await queueDuressAlert('session-1');
+    await setActiveProfileId('profile-b');
+    store.set('transrify_session_id.profile-b', 'session-2');
+    mockApi.mockClear();
+
+    expect(await flushOutbox({ force: true })).toBe(0);
+    expect(mockApi).not.toHaveBeenCalled();
+    expect(storedOutbox()).toEqual([expect.objectContaining({ kind: 'DURESS_ALERT', profileId: null })]);
+
+    await setActiveProfileId(null);
+  });
+
+  it("should replay an incident's entries under its saved credentials after sign-out", async () => {
+    mockApi.mockRejectedValueOnce(networkError());
+    await queueDuressAlert('session-1', undefined, 'incident-1');
+    expect(storedOutbox()[0]).toMatchObject({ kind: 'DURESS_ALERT', incidentId: 'incident-1' });
+
+    // Signed out, then another profile signed in
+    store.set(
+      'transrify_incident_credentials.incident-1',
+      JSON.stringify({ sessionId: 'session-1', accessToken: 'access-1', tenantKey: 'BANK_KEY' })
+    );
+    store.delete('transrify_session_id');
+    await setActiveProfileId('profile-b');
+    store.set('transrify_session_id.profile-b', 'session-2');
+    mockApi.mockClear();
+    mockApi.mockResolvedValueOnce({ ok: true, alertId: 'alert-1' });
+
+    await flushOutbox({ force: true });
+
+    expect(mockApi).toHaveBeenCalledWith('/v1/alerts/duress', expect.objectContaining({
+      headers: { 'X-Session-Id': 'session-1', Authorization: 'Bearer access-1', 'X-Tenant-Key': 'BANK_KEY' },
+      skipAuthRefresh: true,
+    }));
+    expect(storedOutbox()).toEqual([]);
+
+    await setActiveProfileId(null);
+  });
+
+  it('should drop the oldest non-duress entries when full', async () => {
+    mockApi.mockRejectedValue(networkError());
+
+    await queueDuressAlert('session-1');
+    for (let i = 0; i < 20; i++) {
+      await enqueue({
+        kind: 'ALERT_ACK',
+        path: '/v1/alerts/ack',
+        body: { alertId: `alert-${i}` },
+        idempotencyKey: `ack-${i}`,
+        retry: 'none',
+      });
+    }
+
+    const entries = storedOutbox();
+    expect(entries).toHaveLength(20);
+    expect(entries[0].kind).toBe('DURESS_ALERT');
+    expect(entries.some((entry) => entry.key === 'ack-0')).toBe(false);
+  });
+});
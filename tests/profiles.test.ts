@@ -0,0 +1,184 @@
+import * as SecureStore from 'expo-secure-store';
+import * as storage from '../src/lib/storage';
+import { useAuthStore } from '../src/state/useAuthStore';
+import { getOutbox } from '../src/lib/outbox';
+
+jest.mock('../src/lib/outbox', () => ({
+  flushOutbox: jest.fn(() => Promise.resolve(0)),
+  getOutbox: jest.fn(() => Promise.resolve([])),
+}));
+
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.MockedFunction<typeof SecureStore.deleteItemAsync>;
+const mockGetOutbox = getOutbox as jest.MockedFunction<typeof getOutbox>;
+
+const profileA = { id: 'pa', tenantKey: 'tenant-a', customerRef: 'ALICE' };
+const profileB = { id: 'pb', tenantKey: 'tenant-b', customerRef: 'ALICE' };
+
+describe('profile storage', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+    mockDeleteItemAsync.mockResolvedValue();
+    mockGetItemAsync.mockResolvedValue(null);
+    await storage.setActiveProfileId(null);
+    jest.clearAllMocks();
+  });
+
+  describe('namespacing', () => {
+    it('should use the un-namespaced keys without an active profile', async () => {
+      await storage.setSessionId('session-1');
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_id', 'session-1');
+    });
+
+    it('should namespace session, token and incident keys by the active profile', async () => {
+      await storage.setActiveProfileId('pa');
+      await storage.setSessionId('session-1');
+      await storage.setIncidentId('incident-1');
+      await storage.setAuthTokens({ accessToken: 'a', refreshToken: 'r', expiresAt: 1 });
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_active_profile', 'pa');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_session_id.pa', 'session-1');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_incident_id.pa', 'incident-1');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_access_token.pa', 'a');
+    });
+
+    it('should only clear the active profile on clearAll', async () => {
+      await storage.setActiveProfileId('pb');
+      await storage.clearAll();
+
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id.pb');
+      expect(mockDeleteItemAsync).not.toHaveBeenCalledWith('transrify_session_id');
+      expect(mockDeleteItemAsync).not.toHaveBeenCalledWith('transrify_profiles');
+    });
+
+    it('should restore the persisted active profile', async () => {
+      mockGetItemAsync.mockImplementation(async (key: string) =>
+        key === 'transrify_active_profile' ? 'pb' : null
+      );
+
+      await expect(storage.loadActiveProfileId()).resolves.toBe('pb');
+      expect(storage.getActiveProfileId()).toBe('pb');
+    });
+  });
+
+  describe('saved profiles', () => {
+    it('should drop malformed entries', async () => {
+      mockGetItemAsync.mockResolvedValue(JSON.stringify([profileA, { id: 'x' }, 'junk']));
+
+      await expect(storage.getProfiles()).resolves.toEqual([profileA]);
+    });
+
+    it('should put a saved profile first and replace one with the same ID', async () => {
+      mockGetItemAsync.mockResolvedValue(JSON.stringify([profileA, profileB]));
+
+      await storage.saveProfile({ ...profileB, customerRef: 'BOB' });
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith(
+        'transrify_profiles',
+        JSON.stringify([{ ...profileB, customerRef: 'BOB' }, profileA])
+      );
+    });
+
+    it('should never store anything but tenant key and customer reference', async () => {
+      await storage.saveProfile({ ...profileA, pin: '1234' } as any);
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_profiles', JSON.stringify([profileA]));
+    });
+
+    it('should delete a profile with its namespaced data and deactivate it', async () => {
+      await storage.setActiveProfileId('pa');
+      mockGetItemAsync.mockResolvedValue(JSON.stringify([profileA, profileB]));
+
+      await storage.deleteProfile('pa');
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_profiles', JSON.stringify([profileB]));
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id.pa');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_refresh_token.pa');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_active_profile');
+      expect(storage.getActiveProfileId()).toBeNull();
+    });
+
+    it('should keep the evidence keys of a deleted profile', async () => {
+      mockGetItemAsync.mockResolvedValue(JSON.stringify([profileA]));
+
+      await storage.deleteProfile('pa');
+
+      expect(mockDeleteItemAsync).not.toHaveBeenCalledWith('transrify_evidence_keys.pa');
+    });
+  });
+});
+
+describe('useAuthStore.selectProfile', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+    mockDeleteItemAsync.mockResolvedValue();
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_profiles' ? JSON.stringify([profileA, profileB]) : null
+    );
+    await storage.setActiveProfileId('pa');
+    useAuthStore.setState({ hasStoredSession: true });
+  });
+
+  it('should keep the stored session when the active profile is selected again', async () => {
+    await expect(useAuthStore.getState().selectProfile('tenant-a', 'ALICE')).resolves.toEqual(profileA);
+
+    expect(storage.getActiveProfileId()).toBe('pa');
+    expect(useAuthStore.getState().hasStoredSession).toBe(true);
+  });
+
+  it('should switch namespace to another saved profile', async () => {
+    await expect(useAuthStore.getState().selectProfile('tenant-b', 'ALICE')).resolves.toEqual(profileB);
+
+    expect(storage.getActiveProfileId()).toBe('pb');
+    expect(useAuthStore.getState().hasStoredSession).toBe(false);
+  });
+
+  it('should create a new profile for an unknown tenant and customer reference', async () => {
+    const profile = await useAuthStore.getState().selectProfile('tenant-c', 'CAROL');
+
+    expect(profile).toMatchObject({ tenantKey: 'tenant-c', customerRef: 'CAROL' });
+    expect(profile.id).toMatch(/^[a-z0-9]+$/);
+    expect(storage.getActiveProfileId()).toBe(profile.id);
+    // Not saved until sign-in succeeds
+    expect(mockSetItemAsync).not.toHaveBeenCalledWith('transrify_profiles', expect.any(String));
+  });
+});
+
+describe('useAuthStore.removeProfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+    mockDeleteItemAsync.mockResolvedValue();
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_profiles' ? JSON.stringify([profileA, profileB]) : null
+    );
+  });
+
+  it('should remove a profile with nothing queued', async () => {
+    await useAuthStore.getState().removeProfile('pb');
+
+    expect(mockSetItemAsync).toHaveBeenCalledWith('transrify_profiles', JSON.stringify([profileA]));
+  });
+
+  it('should refuse to remove a profile that still has queued requests', async () => {
+    mockGetOutbox.mockResolvedValueOnce([
+      {
+        key: 'duress-alert-1',
+        profileId: 'pb',
+        kind: 'DURESS_ALERT',
+        path: '/v1/alerts/duress',
+        body: '{}',
+        attempts: 1,
+        createdAt: 0,
+        nextAttemptAt: 0,
+      },
+    ]);
+
+    await expect(useAuthStore.getState().removeProfile('pb')).rejects.toThrow('PROFILE_HAS_QUEUED_REQUESTS');
+    expect(mockDeleteItemAsync).not.toHaveBeenCalled();
+  });
+});
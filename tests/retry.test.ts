@@ -0,0 +1,157 @@
+import { ApiError } from '../src/lib/errors';
+import {
+  RETRY_POLICIES,
+  computeBackoffDelay,
+  getRetryDelay,
+  isIdempotentMethod,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  withRetry,
+} from '../src/lib/retry';
+
+const serverError = (status: number, retryAfterMs?: number) =>
+  new ApiError({ status, path: '/v1/test', retryAfterMs });
+
+const networkError = () => new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/test' });
+
+describe('retry policy engine', () => {
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('should default to the rateLimit policy', () => {
+      expect(resolveRetryPolicy()).toBe(RETRY_POLICIES.rateLimit);
+      expect(resolveRetryPolicy(true)).toBe(RETRY_POLICIES.rateLimit);
+    });
+
+    it('should disable retries when false', () => {
+      expect(resolveRetryPolicy(false)).toBe(RETRY_POLICIES.none);
+    });
+
+    it('should resolve named policies', () => {
+      expect(resolveRetryPolicy('critical')).toBe(RETRY_POLICIES.critical);
+    });
+  });
+
+  describe('isIdempotentMethod', () => {
+    it('should treat GET and PUT as idempotent and POST as not', () => {
+      expect(isIdempotentMethod(undefined)).toBe(true);
+      expect(isIdempotentMethod('put')).toBe(true);
+      expect(isIdempotentMethod('POST')).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+      expect(parseRetryAfter('Mon, 19 Oct 2026 10:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should follow the exponential curve and cap at maxDelayMs', () => {
+      const policy = RETRY_POLICIES.standard;
+      expect(computeBackoffDelay(policy, 1)).toBe(1000);
+      expect(computeBackoffDelay(policy, 2)).toBe(2000);
+      expect(computeBackoffDelay(policy, 10)).toBe(policy.maxDelayMs);
+    });
+
+    it('should support linear backoff', () => {
+      const policy = { ...RETRY_POLICIES.standard, backoff: 'linear' as const };
+      expect(computeBackoffDelay(policy, 3)).toBe(3000);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should stop after maxAttempts', () => {
+      expect(getRetryDelay(RETRY_POLICIES.standard, serverError(503), 3, true)).toBeNull();
+    });
+
+    it('should not retry non-ApiErrors or cancellations', () => {
+      const cancelled = new ApiError({ status: 0, code: 'REQUEST_CANCELLED', path: '/v1/test' });
+      expect(getRetryDelay(RETRY_POLICIES.critical, new Error('boom'), 1, true)).toBeNull();
+      expect(getRetryDelay(RETRY_POLICIES.critical, cancelled, 1, true)).toBeNull();
+    });
+
+    it('should not retry statuses outside the policy', () => {
+      expect(getRetryDelay(RETRY_POLICIES.critical, serverError(400), 1, true)).toBeNull();
+    });
+
+    it('should only retry network errors and 5xx for idempotent requests', () => {
+      expect(getRetryDelay(RETRY_POLICIES.critical, networkError(), 1, false)).toBeNull();
+      expect(getRetryDelay(RETRY_POLICIES.critical, serverError(503), 1, false)).toBeNull();
+      expect(getRetryDelay(RETRY_POLICIES.critical, networkError(), 1, true)).toBe(1000);
+      expect(getRetryDelay(RETRY_POLICIES.critical, serverError(503), 1, true)).toBe(1000);
+    });
+
+    it('should always allow 429 retries, even for non-idempotent requests', () => {
+      expect(getRetryDelay(RETRY_POLICIES.rateLimit, serverError(429), 1, false)).toBe(800);
+    });
+
+    it('should honor Retry-After within maxDelayMs and give up beyond it', () => {
+      expect(getRetryDelay(RETRY_POLICIES.rateLimit, serverError(429, 2000), 1, false)).toBe(2000);
+      expect(getRetryDelay(RETRY_POLICIES.rateLimit, serverError(429, 60000), 1, false)).toBeNull();
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      jest.useFakeTimers();
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(serverError(503))
+        .mockRejectedValueOnce(serverError(503))
+        .mockResolvedValueOnce('done');
+      const onRetry = jest.fn();
+
+      const promise = withRetry(operation, 'standard', { idempotent: true, onRetry });
+      await jest.advanceTimersByTimeAsync(3000);
+
+      await expect(promise).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenNthCalledWith(1, expect.any(ApiError), 1, 1000);
+      expect(onRetry).toHaveBeenNthCalledWith(2, expect.any(ApiError), 2, 2000);
+    });
+
+    it('should rethrow the last error when retries are exhausted', async () => {
+      jest.useFakeTimers();
+      const operation = jest.fn().mockRejectedValue(serverError(503));
+
+      const promise = withRetry(operation, 'standard', { idempotent: true }).catch((e) => e);
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(await promise).toMatchObject({ status: 503 });
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cancel a pending backoff when the signal aborts', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn().mockRejectedValue(serverError(503));
+
+      const promise = withRetry(operation, 'standard', {
+        idempotent: true,
+        signal: controller.signal,
+      });
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ code: 'REQUEST_CANCELLED' });
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -31,6 +31,38 @@ jest.mock('expo-application', () => ({
   nativeApplicationVersion: '1.0.0',
 }));
 
+// Mock expo-local-authentication
+jest.mock('expo-local-authentication', () => ({
+  hasHardwareAsync: jest.fn(),
+  isEnrolledAsync: jest.fn(),
+  authenticateAsync: jest.fn(),
+}));
+
+// Mock expo-network
+jest.mock('expo-network', () => ({
+  NetworkStateType: {
+    NONE: 'NONE',
+    UNKNOWN: 'UNKNOWN',
+    CELLULAR: 'CELLULAR',
+    WIFI: 'WIFI',
+  },
+  getNetworkStateAsync: jest.fn(),
+  addNetworkStateListener: jest.fn(() => ({ remove: jest.fn() })),
+}));
+
+// Mock expo-task-manager and expo-background-task
+jest.mock('expo-task-manager', () => ({
+  defineTask: jest.fn(),
+  isTaskRegisteredAsync: jest.fn(() => Promise.resolve(false)),
+}));
+
+jest.mock('expo-background-task', () => ({
+  BackgroundTaskStatus: { Restricted: 1, Available: 2 },
+  BackgroundTaskResult: { Success: 1, Failed: 2 },
+  getStatusAsync: jest.fn(() => Promise.resolve(2)),
+  registerTaskAsync: jest.fn(() => Promise.resolve()),
+}));
+
 // Silence console warnings during tests
 global.console = {
   ...console,
@@ -158,11 +158,14 @@ describe('Storage utilities', () => {
       await storage.clearAll();
       
       // Verify deleteItemAsync was called for all keys
-      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_id');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_customer_ref');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_session_mode');
       expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_tenant_key');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_access_token');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_refresh_token');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('transrify_token_expires_at');
     });
 
     it('should throw error when clearAll fails', async () => {
@@ -172,6 +175,48 @@ describe('Storage utilities', () => {
     });
   });
 
+  describe('incident credentials', () => {
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+      store = new Map();
+      mockGetItemAsync.mockImplementation(async (key: string) => store.get(key) ?? null);
+      mockSetItemAsync.mockImplementation(async (key: string, value: string) => {
+        store.set(key, value);
+      });
+      mockDeleteItemAsync.mockImplementation(async (key: string) => {
+        store.delete(key);
+      });
+    });
+
+    it('should keep the credentials of the most recent incidents only', async () => {
+      for (let i = 1; i <= 6; i++) {
+        await storage.setIncidentCredentials(`incident-${i}`, {
+          sessionId: `session-${i}`,
+          accessToken: null,
+          tenantKey: null,
+        });
+      }
+
+      await expect(storage.getIncidentCredentials('incident-1')).resolves.toBeNull();
+      await expect(storage.getIncidentCredentials('incident-6')).resolves.toMatchObject({ sessionId: 'session-6' });
+    });
+
+    it("should give the stored session's incident credentials a refreshed access token", async () => {
+      store.set('transrify_session_id', 'session-1');
+      store.set('transrify_incident_id', 'incident-1');
+      await storage.setIncidentCredentials('incident-1', { sessionId: 'session-1', accessToken: 'old', tenantKey: 'BANK' });
+
+      await storage.setAuthTokens({ accessToken: 'new', refreshToken: 'refresh', expiresAt: 1 });
+
+      await expect(storage.getIncidentCredentials('incident-1')).resolves.toEqual({
+        sessionId: 'session-1',
+        accessToken: 'new',
+        tenantKey: 'BANK',
+      });
+    });
+  });
+
   describe('integration scenario', () => {
     it('should handle complete authentication flow', async () => {
       // Mock successful storage operations
@@ -205,7 +250,7 @@ describe('Storage utilities', () => {
       mockDeleteItemAsync.mockResolvedValue();
       await storage.clearAll();
       
-      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(4);
+      expect(mockDeleteItemAsync).toHaveBeenCalledTimes(8);
       
       // Verify data is cleared
       mockGetItemAsync.mockResolvedValue(null);
@@ -0,0 +1,151 @@
+import * as SecureStore from 'expo-secure-store';
+import { fetchTenantConfig, parseTenantCode } from '../src/lib/tenant';
+import { api } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+import { applyBrandColors, colors } from '../src/lib/theme';
+import { useTenantStore } from '../src/state/useTenantStore';
+import { getFlag } from '../src/lib/flags';
+
+// Mock the API client
+jest.mock('../src/lib/api', () => ({
+  api: jest.fn(),
+}));
+
+const mockApi = api as jest.MockedFunction<typeof api>;
+const mockGetItemAsync = SecureStore.getItemAsync as jest.MockedFunction<typeof SecureStore.getItemAsync>;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.MockedFunction<typeof SecureStore.setItemAsync>;
+
+const acmeConfig = {
+  tenantKey: 'ACME_BANK_KEY',
+  displayName: 'Acme Bank',
+  logoUrl: 'https://cdn.example.com/acme.png',
+  colors: { primary: '#00AA55' },
+  features: { nfcEnabled: false },
+};
+
+describe('parseTenantCode', () => {
+  it('should accept a bare code', () => {
+    expect(parseTenantCode('  ACME ')).toBe('ACME');
+  });
+
+  it('should take the code from the last path segment of a link', () => {
+    expect(parseTenantCode('transrify://tenant/ACME')).toBe('ACME');
+    expect(parseTenantCode('https://transrify.app/t/ACME-01/?src=qr')).toBe('ACME-01');
+  });
+
+  it('should reject input without a valid code', () => {
+    expect(parseTenantCode('')).toBeNull();
+    expect(parseTenantCode('ab')).toBeNull();
+    expect(parseTenantCode('not a code')).toBeNull();
+  });
+});
+
+describe('fetchTenantConfig', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch the config for the code', async () => {
+    mockApi.mockResolvedValueOnce(acmeConfig);
+
+    await expect(fetchTenantConfig('ACME')).resolves.toEqual(acmeConfig);
+    expect(mockApi).toHaveBeenCalledWith('/v1/tenants/ACME/config', {
+      retry: 'standard',
+      skipAuthRefresh: true,
+    });
+  });
+
+  it('should throw TENANT_NOT_FOUND for an unknown code', async () => {
+    mockApi.mockRejectedValueOnce(new ApiError({ status: 404, path: '/v1/tenants/NOPE/config' }));
+
+    await expect(fetchTenantConfig('NOPE')).rejects.toThrow('TENANT_NOT_FOUND');
+  });
+
+  it('should pass other API errors through', async () => {
+    const error = new ApiError({ status: 0, code: 'NETWORK_ERROR', path: '/v1/tenants/ACME/config' });
+    mockApi.mockRejectedValueOnce(error);
+
+    await expect(fetchTenantConfig('ACME')).rejects.toBe(error);
+  });
+
+  it('should throw INVALID_TENANT_KEY when required fields are missing', async () => {
+    mockApi.mockResolvedValueOnce({ displayName: 'Acme Bank' });
+
+    await expect(fetchTenantConfig('ACME')).rejects.toThrow('INVALID_TENANT_KEY');
+  });
+});
+
+describe('applyBrandColors', () => {
+  it('should return the default palette without overrides', () => {
+    expect(applyBrandColors()).toEqual(colors);
+  });
+
+  it('should apply valid overrides and make the focus border follow primary', () => {
+    const palette = applyBrandColors({ primary: '#00AA55' });
+
+    expect(palette.primary).toBe('#00AA55');
+    expect(palette.borderFocus).toBe('#00AA55');
+    expect(palette.background).toBe(colors.background);
+  });
+
+  it('should ignore unknown names and invalid values', () => {
+    const palette = applyBrandColors({ primary: 'red; drop', madeUp: '#FFFFFF' });
+
+    expect(palette.primary).toBe(colors.primary);
+    expect(palette).not.toHaveProperty('madeUp');
+  });
+});
+
+describe('useTenantStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSetItemAsync.mockResolvedValue();
+    useTenantStore.getState().resetTenant();
+  });
+
+  it('should resolve a scanned code and apply the branding', async () => {
+    mockApi.mockResolvedValueOnce(acmeConfig);
+
+    const config = await useTenantStore.getState().resolveTenant('transrify://tenant/ACME');
+
+    expect(config.tenantKey).toBe('ACME_BANK_KEY');
+    expect(useTenantStore.getState().config?.displayName).toBe('Acme Bank');
+    expect(useTenantStore.getState().colors.primary).toBe('#00AA55');
+  });
+
+  it('should feed tenant features into the feature flags', async () => {
+    mockApi.mockResolvedValueOnce({ ...acmeConfig, features: { nfcEnabled: true, alertRadiusMeters: 2500 } });
+
+    await useTenantStore.getState().resolveTenant('ACME');
+
+    expect(getFlag('nfcEnabled')).toBe(true);
+    expect(getFlag('alertRadiusMeters')).toBe(2500);
+
+    useTenantStore.getState().resetTenant();
+
+    expect(getFlag('nfcEnabled')).toBe(false);
+  });
+
+  it('should reject a malformed code without calling the API', async () => {
+    await expect(useTenantStore.getState().resolveTenant('??')).rejects.toThrow('TENANT_NOT_FOUND');
+    expect(mockApi).not.toHaveBeenCalled();
+  });
+
+  it('should cache the config and load it back', async () => {
+    mockApi.mockResolvedValueOnce(acmeConfig);
+    await useTenantStore.getState().resolveTenant('ACME');
+    await useTenantStore.getState().saveTenant();
+
+    const saved = mockSetItemAsync.mock.calls.find(([key]) => key === 'transrify_tenant_config');
+    expect(saved).toBeDefined();
+
+    useTenantStore.getState().resetTenant();
+    mockGetItemAsync.mockImplementation(async (key: string) =>
+      key === 'transrify_tenant_config' ? saved![1] : null
+    );
+    await useTenantStore.getState().loadTenant();
+
+    expect(useTenantStore.getState().config).toEqual(acmeConfig);
+    expect(useTenantStore.getState().colors.primary).toBe('#00AA55');
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  flushIncidentTimeline,
+  recordTimelineEvent,
+  startIncidentTimeline,
+  stopIncidentTimeline,
+  TIMELINE_UPLOAD_MS,
+  TimelineChunk,
+} from '../src/lib/timeline';
+import { queueEvidence } from '../src/lib/evidenceQueue';
+
+// In-memory file system
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: mockFiles.has(uri), uri })),
+  readAsStringAsync: jest.fn(async (uri: string) => mockFiles.get(uri) ?? ''),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  }),
+  deleteAsync: jest.fn(async (uri: string) => {
+    mockFiles.delete(uri);
+  }),
+}));
+
+jest.mock('../src/lib/evidenceQueue', () => ({
+  queueEvidence: jest.fn(),
+}));
+
+const TIMELINE_FILE = 'file:///docs/incident-timeline.json';
+
+const mockQueue = queueEvidence as jest.MockedFunction<typeof queueEvidence>;
+
+/**
+ * Chunk written for the nth queueEvidence call
+ */
+const queuedChunk = (call: number): TimelineChunk => {
+  const { fileUri } = mockQueue.mock.calls[call][0];
+  return JSON.parse(mockFiles.get(fileUri)!);
+};
+
+describe('incident timeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFiles.clear();
+    let queued = 0;
+    mockQueue.mockImplementation(async (item) => {
+      queued += 1;
+      return { ...item, id: `entry-${queued}`, sha256: `chunk-hash-${queued}` } as any;
+    });
+  });
+
+  afterEach(async () => {
+    await stopIncidentTimeline();
+    jest.useRealTimers();
+  });
+
+  it('should ignore events while no incident is active', async () => {
+    await recordTimelineEvent('SCREEN', { name: 'Landing' });
+    await flushIncidentTimeline();
+
+    expect(mockFiles.has(TIMELINE_FILE)).toBe(false);
+    expect(mockQueue).not.toHaveBeenCalled();
+  });
+
+  it('should upload new events every interval as chained TEXT chunks', async () => {
+    await startIncidentTimeline('incident-1');
+    await recordTimelineEvent('LOGIN', undefined, Date.UTC(2026, 0, 1));
+    await recordTimelineEvent('VERDICT', { verdict: 'DURESS', trigger: 'LOGIN' });
+    await jest.advanceTimersByTimeAsync(TIMELINE_UPLOAD_MS);
+
+    await recordTimelineEvent('SCREEN', { name: 'Landing' });
+    await jest.advanceTimersByTimeAsync(TIMELINE_UPLOAD_MS);
+
+    expect(mockQueue).toHaveBeenCalledTimes(2);
+    expect(mockQueue).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      incidentId: 'incident-1',
+      kind: 'TEXT',
+      contentType: 'application/json',
+      segment: { index: 0, previousSha256: null },
+    }));
+    expect(mockQueue).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      segment: { index: 1, previousSha256: 'chunk-hash-1' },
+    }));
+
+    expect(queuedChunk(0).events).toEqual([
+      { seq: 0, at: '2026-01-01T00:00:00.000Z', type: 'LOGIN' },
+      expect.objectContaining({ seq: 1, type: 'VERDICT', data: { verdict: 'DURESS', trigger: 'LOGIN' } }),
+    ]);
+    expect(queuedChunk(1).events).toEqual([
+      expect.objectContaining({ seq: 2, type: 'SCREEN', data: { name: 'Landing' } }),
+    ]);
+  });
+
+  it('should keep events pending when a chunk cannot be queued', async () => {
+    mockQueue.mockRejectedValueOnce(new Error('Disk full'));
+
+    await startIncidentTimeline('incident-1');
+    await recordTimelineEvent('ALERT', { delivered: false });
+    await flushIncidentTimeline();
+    await recordTimelineEvent('ACTION', { action: 'Send', blocked: true });
+    await flushIncidentTimeline();
+
+    expect(mockQueue).toHaveBeenCalledTimes(2);
+    expect(mockQueue).toHaveBeenLastCalledWith(expect.objectContaining({
+      segment: { index: 0, previousSha256: null },
+    }));
+    expect(queuedChunk(1).events.map((event) => event.type)).toEqual(['ALERT', 'ACTION']);
+  });
+
+  it('should end with a final chunk and remove the saved timeline', async () => {
+    await startIncidentTimeline('incident-1');
+    await recordTimelineEvent('RECORDING', { media: 'AUDIO', state: 'STARTED' });
+
+    await stopIncidentTimeline();
+
+    expect(queuedChunk(0).events.map((event) => event.type)).toEqual(['RECORDING', 'ENDED']);
+    expect(mockFiles.has(TIMELINE_FILE)).toBe(false);
+
+    // Stopped: further events are ignored
+    await recordTimelineEvent('SCREEN', { name: 'Login' });
+    await flushIncidentTimeline();
+    expect(mockQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume the saved timeline after a restart', async () => {
+    mockFiles.set(TIMELINE_FILE, JSON.stringify({
+      incidentId: 'incident-1',
+      nextSeq: 5,
+      pending: [{ seq: 4, at: '2026-01-01T00:00:00.000Z', type: 'SCREEN', data: { name: 'Landing' } }],
+      chunkIndex: 2,
+      previousSha256: 'chunk-hash-before-restart',
+    }));
+
+    await startIncidentTimeline('incident-1');
+    await recordTimelineEvent('ACTION', { action: 'Receive', blocked: false });
+    await flushIncidentTimeline();
+
+    expect(mockQueue).toHaveBeenCalledWith(expect.objectContaining({
+      segment: { index: 2, previousSha256: 'chunk-hash-before-restart' },
+    }));
+    expect(queuedChunk(0).events.map((event) => event.seq)).toEqual([4, 5]);
+  });
+
+  it('should upload a timeline left over from another incident before starting anew', async () => {
+    mockFiles.set(TIMELINE_FILE, JSON.stringify({
+      incidentId: 'incident-0',
+      nextSeq: 1,
+      pending: [{ seq: 0, at: '2026-01-01T00:00:00.000Z', type: 'LOGIN' }],
+      chunkIndex: 0,
+      previousSha256: null,
+    }));
+
+    await startIncidentTimeline('incident-1');
+
+    expect(mockQueue).toHaveBeenCalledWith(expect.objectContaining({ incidentId: 'incident-0' }));
+    expect(JSON.parse(mockFiles.get(TIMELINE_FILE)!)).toMatchObject({
+      incidentId: 'incident-1',
+      nextSeq: 0,
+      pending: [],
+    });
+  });
+});
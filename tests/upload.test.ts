@@ -0,0 +1,226 @@
+import { createDecipheriv, createHash } from 'crypto';
+import { Sha256 } from '../src/lib/sha256';
+import { PART_SIZE_BYTES, getPendingUploads, hashFile, uploadFileResumable } from '../src/lib/upload';
+import { api } from '../src/lib/api';
+import { ApiError } from '../src/lib/errors';
+import { SEGMENT_TAG_BYTES } from '../src/lib/encryption';
+
+// In-memory file system: binary files are read back in base64 ranges
+const mockFiles = new Map<string, Buffer>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  getInfoAsync: jest.fn(async (uri: string) => {
+    const file = mockFiles.get(uri);
+    return file ? { exists: true, size: file.length, uri } : { exists: false, uri };
+  }),
+  readAsStringAsync: jest.fn(async (uri: string, options?: { position?: number; length?: number }) => {
+    const file = mockFiles.get(uri);
+    if (!file) {
+      throw new Error('File does not exist');
+    }
+    if (options?.position !== undefined && options.length !== undefined) {
+      return file.subarray(options.position, options.position + options.length).toString('base64');
+    }
+    return file.toString('utf8');
+  }),
+  writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+    mockFiles.set(uri, Buffer.from(contents, 'utf8'));
+  }),
+}));
+
+jest.mock('../src/lib/api', () => ({
+  api: jest.fn(),
+}));
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+const mockApi = api as jest.MockedFunction<typeof api>;
+
+const FILE_URI = 'file:///recordings/video.mp4';
+const target = { incidentId: 'incident-1', kind: 'VIDEO' as const, contentType: 'video/mp4' };
+
+const sha256Hex = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+function makeFile(size: number): Buffer {
+  const data = Buffer.alloc(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + 7) & 0xff;
+  }
+  mockFiles.set(FILE_URI, data);
+  return data;
+}
+
+function putResponse(etag: string): Response {
+  return { ok: true, status: 200, headers: { get: () => etag } } as unknown as Response;
+}
+
+/**
+ * Answer the multipart endpoints like the server would
+ */
+function mockMultipartApi() {
+  mockApi.mockImplementation(async (path: string, options?: { body?: unknown }) => {
+    const body = JSON.parse(String(options?.body ?? '{}'));
+    switch (path) {
+      case '/v1/evidence/multipart/start':
+        return { uploadId: 'upload-1', key: 'evidence/incident-1/video.mp4' };
+      case '/v1/evidence/multipart/part':
+        return { url: `https://s3.test/part-${body.partNumber}?X-Amz-Signature=abc` };
+      case '/v1/evidence/multipart/complete':
+        return undefined;
+      default:
+        throw new Error(`Unexpected path ${path}`);
+    }
+  });
+}
+
+describe('Sha256', () => {
+  it('should match a one-shot hash however the data is split', () => {
+    const data = Buffer.from(Array.from({ length: 1000 }, (_, i) => i & 0xff));
+
+    expect(new Sha256().digest()).toBe(sha256Hex(Buffer.alloc(0)));
+    for (const split of [1, 55, 56, 64, 65, 999]) {
+      const hasher = new Sha256().update(data.subarray(0, split));
+      expect(hasher.update(data.subarray(split)).digest()).toBe(sha256Hex(data));
+    }
+  });
+
+  it('should continue from an exported state', () => {
+    const data = Buffer.from('evidence bytes that span more than one sixty-four byte block of input');
+
+    const state = JSON.parse(JSON.stringify(new Sha256().update(data.subarray(0, 70)).exportState()));
+
+    expect(Sha256.fromState(state).update(data.subarray(70)).digest()).toBe(sha256Hex(data));
+  });
+});
+
+describe('resumable upload', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+  });
+
+  it('should hash a file part by part', async () => {
+    const data = makeFile(PART_SIZE_BYTES + 123);
+
+    await expect(hashFile(FILE_URI, data.length)).resolves.toBe(sha256Hex(data));
+  });
+
+  it('should upload a small file with a single presigned PUT', async () => {
+    const data = makeFile(1024);
+    mockApi.mockResolvedValueOnce({ url: 'https://s3.test/object?X-Amz-Signature=abc', key: 'evidence/small' });
+    mockFetch.mockResolvedValueOnce(putResponse('"etag"'));
+    const onProgress = jest.fn();
+
+    const result = await uploadFileResumable(FILE_URI, data.length, target, { onProgress });
+
+    expect(result).toEqual({ key: 'evidence/small', size: 1024, sha256: sha256Hex(data), encryption: null });
+    expect(mockApi).toHaveBeenCalledWith('/v1/evidence/presign', expect.objectContaining({ method: 'POST' }));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenLastCalledWith(1024, 1024);
+  });
+
+  it('should resume a multipart upload after the last finished part', async () => {
+    const data = makeFile(PART_SIZE_BYTES * 2 + 1000);
+    mockMultipartApi();
+    mockFetch
+      .mockResolvedValueOnce(putResponse('"etag-1"'))
+      .mockResolvedValueOnce({ ok: false, status: 403, headers: { get: () => null } } as unknown as Response);
+
+    await expect(uploadFileResumable(FILE_URI, data.length, target)).rejects.toBeInstanceOf(ApiError);
+
+    const [pending] = await getPendingUploads();
+    expect(pending).toMatchObject({ uploadId: 'upload-1', offset: PART_SIZE_BYTES, parts: [{ partNumber: 1, etag: '"etag-1"' }] });
+
+    // After a restart: only the remaining parts go up, and the hash covers the whole file
+    mockFetch.mockReset();
+    mockFetch
+      .mockResolvedValueOnce(putResponse('"etag-2"'))
+      .mockResolvedValueOnce(putResponse('"etag-3"'));
+    const onProgress = jest.fn();
+
+    const result = await uploadFileResumable(FILE_URI, data.length, target, { onProgress });
+
+    expect(result.sha256).toBe(sha256Hex(data));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenNthCalledWith(1, PART_SIZE_BYTES, data.length);
+    expect(onProgress).toHaveBeenLastCalledWith(data.length, data.length);
+    expect(mockApi).toHaveBeenCalledWith('/v1/evidence/multipart/complete', expect.objectContaining({
+      body: JSON.stringify({
+        key: 'evidence/incident-1/video.mp4',
+        uploadId: 'upload-1',
+        parts: [
+          { partNumber: 1, etag: '"etag-1"' },
+          { partNumber: 2, etag: '"etag-2"' },
+          { partNumber: 3, etag: '"etag-3"' },
+        ],
+      }),
+      idempotencyKey: 'complete-upload-1',
+    }));
+  });
+
+  it('should start over when the server no longer knows the upload', async () => {
+    const data = makeFile(PART_SIZE_BYTES + 10);
+    mockMultipartApi();
+    mockFetch.mockResolvedValueOnce(putResponse('"etag-1"'));
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 403, headers: { get: () => null } } as unknown as Response);
+    await expect(uploadFileResumable(FILE_URI, data.length, target)).rejects.toBeInstanceOf(ApiError);
+
+    const defaultImplementation = mockApi.getMockImplementation()!;
+    mockApi.mockImplementationOnce(async () => {
+      throw new ApiError({ status: 404, path: '/v1/evidence/multipart/part' });
+    });
+    mockApi.mockImplementation(defaultImplementation);
+    mockFetch.mockResolvedValue(putResponse('"etag"'));
+
+    const result = await uploadFileResumable(FILE_URI, data.length, target);
+
+    expect(result.sha256).toBe(sha256Hex(data));
+    expect(mockApi.mock.calls.filter(([path]) => path === '/v1/evidence/multipart/start')).toHaveLength(2);
+  });
+
+  it('should upload sealed parts and resume them with the same IV', async () => {
+    const data = makeFile(PART_SIZE_BYTES + 500);
+    const rawKey = Buffer.alloc(32, 7);
+    const encryption = {
+      key: rawKey.toString('base64'),
+      keyId: 'key-1',
+      iv: Buffer.alloc(12, 1).toString('base64'),
+      wrappedKey: 'wrapped',
+    };
+    mockMultipartApi();
+    mockFetch
+      .mockResolvedValueOnce(putResponse('"etag-1"'))
+      .mockResolvedValueOnce({ ok: false, status: 403, headers: { get: () => null } } as unknown as Response);
+    await expect(uploadFileResumable(FILE_URI, data.length, target, { encryption })).rejects.toBeInstanceOf(ApiError);
+
+    // Resumed with a new IV for the same key: the saved IV wins
+    mockFetch.mockResolvedValueOnce(putResponse('"etag-2"'));
+    const result = await uploadFileResumable(FILE_URI, data.length, target, {
+      encryption: { ...encryption, iv: Buffer.alloc(12, 9).toString('base64') },
+    });
+
+    const sealedParts = [mockFetch.mock.calls[0], mockFetch.mock.calls[2]].map(([, init]) =>
+      Buffer.from((init as RequestInit).body as Uint8Array)
+    );
+    const sealed = Buffer.concat(sealedParts);
+    expect(result).toMatchObject({
+      size: data.length + 2 * SEGMENT_TAG_BYTES,
+      sha256: sha256Hex(sealed),
+      encryption: { keyId: 'key-1', iv: encryption.iv, wrappedKey: 'wrapped' },
+    });
+    expect(mockApi).toHaveBeenCalledWith('/v1/evidence/multipart/start', expect.objectContaining({
+      body: JSON.stringify({ incidentId: 'incident-1', contentType: 'video/mp4', size: data.length + 2 * SEGMENT_TAG_BYTES }),
+    }));
+
+    const opened = sealedParts.map((part, index) => {
+      const iv = Buffer.alloc(12, 1);
+      iv.writeUInt32BE(iv.readUInt32BE(8) + index, 8);
+      const decipher = createDecipheriv('aes-256-gcm', rawKey, iv);
+      decipher.setAuthTag(part.subarray(part.length - SEGMENT_TAG_BYTES));
+      return Buffer.concat([decipher.update(part.subarray(0, part.length - SEGMENT_TAG_BYTES)), decipher.final()]);
+    });
+    expect(Buffer.concat(opened).equals(data)).toBe(true);
+  });
+});